@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { InputSection } from './components/InputSection';
 import { ExplanationSection } from './components/ExplanationSection';
@@ -10,55 +10,148 @@ import { TestSection } from './components/TestSection';
 import { TeachSection } from './components/TeachSection';
 import { PasteLinkSection } from './components/PasteLinkSection';
 import { MetricsSection } from './components/MetricsSection';
-import { AppTab, MainView, ChatSession, ChatMessage, GroundingSource, SourceItem, MistakeItem, QuizResult } from './types';
-import { generateExplanation, generateVisual, verifyText, generateSimulation, editVisual, editSimulation } from './services/geminiService';
+import { ProjectsSection } from './components/ProjectsSection';
+import { HistorySection } from './components/HistorySection';
+import { ConversationPanel, buildTurns } from './components/ConversationPanel';
+import { ExplanationControls, describeExplanationOptions } from './components/ExplanationControls';
+import { SettingsSection } from './components/SettingsSection';
+import { AppTab, MainView, ChatSession, ChatMessage, SourceItem, Project, MessageOutputs, VerificationReport, RetrievedChunk, ChatAttachment, ExplanationOptions } from './types';
+import { streamExplanation, generateExplanation, generateVisual, verifyText, generateSimulation, editVisual, editSimulation, createFollowUpSession, askFollowUp, DEFAULT_EXPLANATION_OPTIONS } from './services/geminiService';
+import { sessionRepository, sourceRepository, mistakeRepository, quizResultRepository, projectRepository } from './services/storageService';
+import { usePersistentCollection } from './hooks/usePersistentCollection';
+import { useTranslation } from './hooks/useTranslation';
+import { findDuplicateSource, getCitationUrl } from './services/sourceUtils';
+import { retrieveChunks, fitToBudget, formatContext, VISUAL_CONTEXT_TOKENS, VERIFICATION_CONTEXT_TOKENS } from './services/retrievalService';
+import { attachmentParts, attachmentSources, discardAttachments } from './services/attachmentService';
+import type { AIChat, ContentPart } from './services/providers/types';
+
+const newestFirst = <T extends { timestamp: number }>(a: T, b: T) => b.timestamp - a.timestamp;
+
+/** The most recent model turn with outputs in a session, if any. */
+const latestResponse = (session?: ChatSession) =>
+  session && [...session.messages].reverse().find(m => m.outputs);
+
+const latestOutputs = (session?: ChatSession) => latestResponse(session)?.outputs;
+
+// Stands in for the question when a message only has attachments.
+const ATTACHMENTS_ONLY_QUESTION = 'Explain the attached material.';
+
+/** The question, preceded by the labelled passages it is answered from. */
+const withReferenceMaterial = (question: string, chunks: RetrievedChunk[]) =>
+  chunks.length > 0 ? `Reference Material:\n${formatContext(chunks)}\n\nUser Query/Topic:\n${question}` : question;
+
+// Views that fill the page themselves and have no chat input bar.
+const FULL_PAGE_VIEWS: MainView[] = ['teach', 'paste-link', 'projects', 'history', 'settings'];
+
+const ACTIVE_PROJECT_KEY = 'clarifyai.activeProjectId';
+
+/** Items outside any project are shown only when no project is open. */
+const inProject = <T extends { projectId?: string }>(items: T[], projectId: string | null) =>
+  projectId ? items.filter(item => item.projectId === projectId) : items;
 
 const App: React.FC = () => {
   // --- STATE ---
-  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [sessions, setSessions, sessionsLoaded] = usePersistentCollection(sessionRepository, (a, b) => b.createdAt - a.createdAt);
   const [currentSessionId, setCurrentSessionId] = useState<string>('');
+  // Read by answers that arrive after the user may have switched sessions.
+  const currentSessionIdRef = useRef(currentSessionId);
+  currentSessionIdRef.current = currentSessionId;
   
   // Layout State
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [activeView, setActiveView] = useState<MainView>('learning');
   const [activeSubTab, setActiveSubTab] = useState<AppTab>(AppTab.EXPLANATION);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const { t, language } = useTranslation();
 
   // AI Processing State
   const [isProcessing, setIsProcessing] = useState(false);
   const [explanation, setExplanation] = useState('');
+  const [isExplanationStreaming, setIsExplanationStreaming] = useState(false);
+  const explanationAbortRef = useRef<AbortController | null>(null);
   const [visualBase64, setVisualBase64] = useState<string | null>(null);
   const [simulationCode, setSimulationCode] = useState<string | null>(null);
-  const [verificationData, setVerificationData] = useState<{ explanation: string; sources: GroundingSource[] } | null>(null);
+  const [verificationData, setVerificationData] = useState<VerificationReport | null>(null);
+  const [citations, setCitations] = useState<RetrievedChunk[]>([]);
+  const [activeResponseId, setActiveResponseId] = useState<string | null>(null); // Model message whose outputs are shown
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(true);
+  const [isFollowUpMode, setIsFollowUpMode] = useState(false);
+  const [isAnsweringFollowUp, setIsAnsweringFollowUp] = useState(false);
+  // Chat seeded with the explanation on screen; dropped whenever other outputs are shown.
+  const followUpChatRef = useRef<AIChat | null>(null);
+  // The explanation on screen rewritten with other options, shown beside it.
+  const [comparison, setComparison] = useState<{ options: ExplanationOptions; text: string; isLoading: boolean } | null>(null);
 
   // Context & Sources
   const [lastContext, setLastContext] = useState<string>('');
-  const [sources, setSources] = useState<SourceItem[]>([
-      { id: '1', type: 'youtube', title: 'Introduction to Thermodynamics', metadata: 'youtube.com • 15 mins • Uploaded 2h ago', isSelected: true, content: 'Video Transcript Placeholder' },
-      { id: '2', type: 'pdf', title: 'Chapter 4: Entropy & Heat.pdf', metadata: 'Local File • 2.4 MB', isSelected: true, content: 'PDF Text Placeholder' },
-  ]);
+  const [sources, setSources] = usePersistentCollection(sourceRepository, (a, b) => (a.order ?? 0) - (b.order ?? 0));
 
   // Mistakes & Quiz History
-  const [mistakes, setMistakes] = useState<MistakeItem[]>([]);
-  const [quizHistory, setQuizHistory] = useState<QuizResult[]>([]);
+  const [mistakes, setMistakes] = usePersistentCollection(mistakeRepository, newestFirst);
+  const [quizHistory, setQuizHistory] = usePersistentCollection(quizResultRepository, newestFirst);
+
+  // Projects
+  const [projects, setProjects] = usePersistentCollection(projectRepository, (a, b) => b.createdAt - a.createdAt);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(() => localStorage.getItem(ACTIVE_PROJECT_KEY));
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  const projectSessions = inProject(sessions, activeProjectId);
+  const projectSources = inProject(sources, activeProjectId);
+  const projectMistakes = inProject(mistakes, activeProjectId);
+
+  // Source selection belongs to the session; sessions saved before that fall
+  // back to the selection stored on each source.
+  const currentSession = sessions.find(s => s.id === currentSessionId);
+  const selectedSourceIds = currentSession?.selectedSourceIds ?? sources.filter(s => s.isSelected).map(s => s.id);
+  const sessionSources = projectSources.map(s => {
+    const isSelected = selectedSourceIds.includes(s.id);
+    return s.isSelected === isSelected ? s : { ...s, isSelected };
+  });
+
+  // Explanation options are per session as well; each answer keeps the ones it was written with.
+  const explanationOptions = currentSession?.explanationOptions ?? DEFAULT_EXPLANATION_OPTIONS;
+  const activeResponse = currentSession?.messages.find(m => m.id === activeResponseId);
+  const shownExplanationOptions = activeResponse?.outputs?.explanationOptions;
 
   // --- INITIALIZATION ---
   useEffect(() => {
-    const initialSession: ChatSession = {
-      id: Date.now().toString(),
-      title: 'Thermodynamics Study',
-      messages: [],
-      createdAt: Date.now()
-    };
-    setSessions([initialSession]);
-    setCurrentSessionId(initialSession.id);
-    setLastContext("Thermodynamics basic laws and entropy"); 
-    
     if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) {
         setIsDarkMode(true);
     }
   }, []);
 
+  useEffect(() => {
+    document.documentElement.lang = language.code;
+    document.documentElement.dir = language.dir;
+  }, [language]);
+
+  // Resume the most recent stored session, or start a fresh one on first run.
+  useEffect(() => {
+    if (!sessionsLoaded || currentSessionId) return;
+    const latest = inProject(sessions, activeProjectId)[0];
+    if (latest) {
+        setCurrentSessionId(latest.id);
+        const lastUserMessage = [...latest.messages].reverse().find(m => m.role === 'user');
+        setLastContext(lastUserMessage?.text || '');
+        showOutputs(latestOutputs(latest));
+        setActiveResponseId(latestResponse(latest)?.id ?? null);
+    } else {
+        const initialSession: ChatSession = {
+          id: Date.now().toString(),
+          title: 'New Session',
+          messages: [],
+          createdAt: Date.now(),
+          ...(activeProjectId ? { projectId: activeProjectId } : {})
+        };
+        setSessions(prev => [initialSession, ...prev]);
+        setCurrentSessionId(initialSession.id);
+    }
+  }, [sessionsLoaded]);
+
+  useEffect(() => {
+    if (activeProjectId) localStorage.setItem(ACTIVE_PROJECT_KEY, activeProjectId);
+    else localStorage.removeItem(ACTIVE_PROJECT_KEY);
+  }, [activeProjectId]);
+
   useEffect(() => {
     const handleResize = () => {
         if (window.innerWidth >= 1024) setIsSidebarOpen(true);
@@ -70,20 +163,29 @@ const App: React.FC = () => {
   }, []);
 
   // --- HANDLERS ---
-  const getCurrentSession = () => sessions.find(s => s.id === currentSessionId);
   
-  const updateCurrentSessionMessages = (newMessages: ChatMessage[]) => {
-    setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, messages: newMessages } : s));
+  // Appends by session id rather than the current one, so a turn that finishes
+  // after the user switched sessions still lands where it started.
+  const appendMessage = (sessionId: string, message: ChatMessage) => {
+    setSessions(prev => prev.map(s => {
+        if (s.id !== sessionId) return s;
+        const label = message.text || message.attachments?.map(a => a.name).join(', ') || '';
+        const title = s.title === 'New Session' && message.role === 'user' && label ? label.slice(0, 60) : s.title;
+        return { ...s, title, messages: [...s.messages, message] };
+    }));
   };
 
-  const createNewSession = () => {
+  const createNewSession = (projectId: string | null = activeProjectId) => {
     const newSession: ChatSession = {
         id: Date.now().toString(),
         title: 'New Session',
         messages: [],
-        createdAt: Date.now()
+        createdAt: Date.now(),
+        selectedSourceIds,
+        ...(currentSession?.explanationOptions ? { explanationOptions: currentSession.explanationOptions } : {}),
+        ...(projectId ? { projectId } : {})
     };
-    setSessions([newSession, ...sessions]);
+    setSessions(prev => [newSession, ...prev]);
     setCurrentSessionId(newSession.id);
     resetOutputs();
     setActiveView('learning');
@@ -91,67 +193,307 @@ const App: React.FC = () => {
     if (window.innerWidth < 1024) setIsSidebarOpen(false);
   };
 
+  const selectSession = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    setCurrentSessionId(id);
+    resetOutputs();
+    showOutputs(latestOutputs(session));
+    setActiveResponseId(latestResponse(session)?.id ?? null);
+    const lastUserMessage = session && [...session.messages].reverse().find(m => m.role === 'user');
+    setLastContext(lastUserMessage?.text || '');
+    if (window.innerWidth < 1024) setIsSidebarOpen(false);
+  };
+
+  // Opening a project (or null for "all") jumps to its latest session.
+  const openProject = (projectId: string | null) => {
+    setActiveProjectId(projectId);
+    const latest = inProject(sessions, projectId)[0];
+    if (latest) {
+        selectSession(latest.id);
+        setActiveView('learning');
+    } else {
+        createNewSession(projectId);
+    }
+  };
+
+  const reopenOutput = (sessionId: string, messageId: string, tab: AppTab) => {
+    const session = sessions.find(s => s.id === sessionId);
+    const index = session ? session.messages.findIndex(m => m.id === messageId) : -1;
+    if (!session || index < 0) return;
+    selectSession(sessionId);
+    showOutputs(session.messages[index].outputs);
+    setActiveResponseId(messageId);
+    const prompt = session.messages.slice(0, index).reverse().find(m => m.role === 'user');
+    setLastContext(prompt?.text || '');
+    setActiveSubTab(tab);
+    setActiveView('learning');
+  };
+
+  const withActiveProject = <T extends { projectId?: string }>(item: T): T =>
+    activeProjectId ? { ...item, projectId: activeProjectId } : item;
+
+  const setSessionSourceIds = (ids: string[]) => {
+    setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, selectedSourceIds: ids } : s));
+  };
+
+  const setExplanationOptions = (options: ExplanationOptions) => {
+    setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, explanationOptions: options } : s));
+  };
+
+  // Returns the existing source instead of adding a duplicate (same URL or file).
+  const addSource = (item: SourceItem): SourceItem | null => {
+    const duplicate = findDuplicateSource(projectSources, item);
+    if (duplicate) {
+        if (item.isSelected && !selectedSourceIds.includes(duplicate.id)) setSessionSourceIds([...selectedSourceIds, duplicate.id]);
+        return duplicate;
+    }
+    const order = sources.reduce((max, s) => Math.max(max, s.order ?? 0), 0) + 1;
+    setSources(prev => [...prev, withActiveProject({ ...item, order })]);
+    if (item.isSelected) setSessionSourceIds([...selectedSourceIds, item.id]);
+    return null;
+  };
+
+  const toggleSource = (id: string) => {
+    setSessionSourceIds(selectedSourceIds.includes(id) ? selectedSourceIds.filter(sid => sid !== id) : [...selectedSourceIds, id]);
+  };
+
+  const deleteSources = (ids: string[]) => {
+    setSources(prev => prev.filter(s => !ids.includes(s.id)));
+    setSessionSourceIds(selectedSourceIds.filter(id => !ids.includes(id)));
+  };
+
+  // Moves a source within the visible list and renumbers that list.
+  const reorderSource = (id: string, toIndex: number) => {
+    const list = [...projectSources];
+    const from = list.findIndex(s => s.id === id);
+    if (from < 0 || toIndex < 0 || toIndex >= list.length) return;
+    list.splice(toIndex, 0, ...list.splice(from, 1));
+    const orders = new Map(list.map((s, index) => [s.id, index]));
+    setSources(prev => prev
+        .map(s => orders.has(s.id) && s.order !== orders.get(s.id) ? { ...s, order: orders.get(s.id) } : s)
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0)));
+  };
+
+  const createProject = (name: string) => {
+    const project: Project = { id: Date.now().toString(), name, createdAt: Date.now(), isArchived: false };
+    setProjects(prev => [project, ...prev]);
+  };
+
+  const updateProject = (id: string, changes: Partial<Project>) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const toggleArchiveProject = (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project) return;
+    updateProject(id, { isArchived: !project.isArchived });
+    if (!project.isArchived && activeProjectId === id) setActiveProjectId(null);
+  };
+
+  const moveToProject = <T extends { id: string; projectId?: string }>(item: T, projectId: string | null): T => {
+    const { projectId: _previous, ...rest } = item;
+    return (projectId ? { ...rest, projectId } : rest) as T;
+  };
+
+  const cancelExplanation = () => {
+    explanationAbortRef.current?.abort();
+    explanationAbortRef.current = null;
+    setIsExplanationStreaming(false);
+  };
+
+  const runExplanationStream = async (context: string, withCitations = false, media: ContentPart[] = [], options?: ExplanationOptions) => {
+    cancelExplanation();
+    const controller = new AbortController();
+    explanationAbortRef.current = controller;
+    setIsExplanationStreaming(true);
+    let text = '';
+    try {
+        for await (const chunk of streamExplanation(context, controller.signal, withCitations, media, options)) {
+            text += chunk;
+            setExplanation(text);
+        }
+        return text;
+    } finally {
+        if (explanationAbortRef.current === controller) {
+            explanationAbortRef.current = null;
+            setIsExplanationStreaming(false);
+        }
+    }
+  };
+
   const resetOutputs = () => {
+    cancelExplanation();
     setExplanation('');
     setVisualBase64(null);
     setSimulationCode(null);
     setVerificationData(null);
+    setCitations([]);
+    setActiveResponseId(null);
+    followUpChatRef.current = null;
+    setComparison(null);
   };
 
-  const handleSendMessage = async (text: string) => {
-    const session = getCurrentSession();
+  const showOutputs = (outputs?: MessageOutputs) => {
+    if (!outputs) return;
+    setExplanation(outputs.explanation || '');
+    setVisualBase64(outputs.visual || null);
+    setSimulationCode(outputs.simulation || null);
+    setVerificationData(outputs.verification || null);
+    setCitations(outputs.citations || []);
+    followUpChatRef.current = null;
+    setComparison(null);
+  };
+
+  // Opens the cited source where the passage is: PDF page, video time or text fragment.
+  // Passages from chat attachments have no source to open.
+  const openCitation = (citation: RetrievedChunk) => {
+    const source = sources.find(s => s.id === citation.sourceId);
+    const fileUrl = source?.file ? URL.createObjectURL(source.file) : undefined;
+    const url = source ? getCitationUrl(source, citation, fileUrl) : null;
+    if (url) {
+        window.open(url, '_blank', 'noopener');
+        if (fileUrl) setTimeout(() => URL.revokeObjectURL(fileUrl), 60_000);
+    } else if (source) {
+        setActiveView('paste-link');
+    }
+  };
+
+  // With `regenerate`, always produces a fresh answer instead of editing the visual or simulation on screen.
+  const handleSendMessage = async (text: string, attachments: ChatAttachment[] = [], regenerate = false) => {
+    const session = currentSession;
     if (!session) return;
-    setLastContext(text); 
+    // Answers are always saved to the session they were asked in, but only shown if it is still open.
+    const isShown = () => currentSessionIdRef.current === session.id;
+    const question = text || ATTACHMENTS_ONLY_QUESTION;
+    const attachedText = attachments.map(a => a.text).filter(Boolean).join('\n\n');
+    setLastContext(attachedText ? `${attachedText}\n\n${question}` : question);
 
-    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text, timestamp: Date.now() };
-    let updatedMessages = [...session.messages, userMsg];
-    updateCurrentSessionMessages(updatedMessages);
+    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text, timestamp: Date.now(), ...(attachments.length > 0 ? { attachments } : {}) };
+    appendMessage(session.id, userMsg);
+    let outputs: MessageOutputs = { explanation, visual: visualBase64, simulation: simulationCode, verification: verificationData, citations, explanationOptions: shownExplanationOptions };
 
     setIsProcessing(true);
     try {
-        const activeSources = sources.filter(s => s.isSelected);
-        let fullContext = text;
-        if (activeSources.length > 0) {
-             const sourceText = activeSources.map(s => `[Source: ${s.title}]\n${s.content || s.url}`).join('\n\n');
-             fullContext = `Reference Material:\n${sourceText}\n\nUser Query/Topic:\n${text}`;
-        }
-
-        if (activeView === 'learning' && activeSubTab === AppTab.VISUALS && visualBase64) {
+        if (!regenerate && activeView === 'learning' && activeSubTab === AppTab.VISUALS && visualBase64) {
             const newImage = await editVisual(visualBase64, text);
-            setVisualBase64(newImage);
-        } else if (activeView === 'learning' && activeSubTab === AppTab.SIMULATION && simulationCode) {
+            if (isShown()) setVisualBase64(newImage);
+            outputs = { ...outputs, visual: newImage };
+        } else if (!regenerate && activeView === 'learning' && activeSubTab === AppTab.SIMULATION && simulationCode) {
             const newCode = await editSimulation(simulationCode, text);
-            setSimulationCode(newCode);
+            if (isShown()) setSimulationCode(newCode);
+            outputs = { ...outputs, simulation: newCode };
+        } else if (!regenerate && isFollowUpMode && activeView === 'learning' && explanation) {
+            // Follow-ups extend the explanation with new sections; the other outputs stay as they are.
+            setActiveView('learning');
+            setActiveSubTab(AppTab.EXPLANATION);
+            setIsAnsweringFollowUp(true);
+            if (!followUpChatRef.current) followUpChatRef.current = createFollowUpSession(explanation, formatContext(citations));
+            const attached = await retrieveChunks(attachmentSources(attachments), question);
+            const prompt = attached.length > 0 ? `Attached material:\n${attached.map(c => c.text).join('\n\n')}\n\nQuestion:\n${question}` : question;
+            const answer = await askFollowUp(followUpChatRef.current, prompt, await attachmentParts(attachments));
+            const extended = `${explanation.trimEnd()}\n\n${answer}`;
+            if (isShown()) setExplanation(extended);
+            outputs = { ...outputs, explanation: extended };
         } else {
             setActiveView('learning');
             setActiveSubTab(AppTab.EXPLANATION);
+            // Outputs of the last question go too; each one comes back only if its generator succeeds.
+            setExplanation('');
+            setVisualBase64(null);
+            setSimulationCode(null);
+            setVerificationData(null);
+            // A new explanation starts a new follow-up chat and closes the comparison.
+            followUpChatRef.current = null;
+            setComparison(null);
+            // Only the passages most relevant to the question are sent, within each prompt's budget.
+            // Attached documents are searched like sources; images and audio go to the model as is.
+            const passages = await retrieveChunks([...sessionSources.filter(s => s.isSelected), ...attachmentSources(attachments)], question);
+            const media = await attachmentParts(attachments);
+            if (isShown()) setCitations(passages);
+            const withSources = (chunks: RetrievedChunk[]) => withReferenceMaterial(question, chunks);
+            const fullContext = withSources(passages);
+            const options = explanationOptions;
             const [exp, vis, sim, ver] = await Promise.allSettled([
-                generateExplanation(fullContext),
-                generateVisual(fullContext),
-                generateSimulation(fullContext),
-                verifyText(fullContext)
+                runExplanationStream(fullContext, passages.length > 0, media, options),
+                generateVisual(withSources(fitToBudget(passages, VISUAL_CONTEXT_TOKENS)), media),
+                generateSimulation(fullContext, media),
+                verifyText(withSources(fitToBudget(passages, VERIFICATION_CONTEXT_TOKENS)))
             ]);
-            if (exp.status === 'fulfilled') setExplanation(exp.value);
-            if (vis.status === 'fulfilled') setVisualBase64(vis.value);
-            if (sim.status === 'fulfilled') setSimulationCode(sim.value);
-            if (ver.status === 'fulfilled') setVerificationData(ver.value);
+            if (exp.status === 'rejected') console.error("Explanation stream failed:", exp.reason);
+            if (isShown()) {
+                if (vis.status === 'fulfilled') setVisualBase64(vis.value);
+                if (sim.status === 'fulfilled') setSimulationCode(sim.value);
+                if (ver.status === 'fulfilled') setVerificationData(ver.value);
+            }
+            outputs = {
+                explanation: exp.status === 'fulfilled' ? exp.value : '',
+                visual: vis.status === 'fulfilled' ? vis.value : null,
+                simulation: sim.status === 'fulfilled' ? sim.value : null,
+                verification: ver.status === 'fulfilled' ? ver.value : null,
+                citations: passages,
+                explanationOptions: options
+            };
         }
+        appendMessage(session.id, { id: `${userMsg.id}-out`, role: 'model', text: outputs.explanation || '', timestamp: Date.now(), outputs });
+        if (isShown()) setActiveResponseId(`${userMsg.id}-out`);
     } catch (e) {
         console.error("AI Error:", e);
     } finally {
         setIsProcessing(false);
+        setIsAnsweringFollowUp(false);
+    }
+  };
+
+  // Rewrites the explanation on screen with the selected options, from the same
+  // question and passages, to read next to the original.
+  const compareExplanation = async () => {
+    const messages = currentSession?.messages || [];
+    const index = messages.findIndex(m => m.id === activeResponseId);
+    const prompt = messages.slice(0, index).reverse().find(m => m.role === 'user');
+    if (index < 0 || !prompt) return;
+
+    const options = explanationOptions;
+    setComparison({ options, text: '', isLoading: true });
+    try {
+        const text = await generateExplanation(
+            withReferenceMaterial(prompt.text || ATTACHMENTS_ONLY_QUESTION, citations),
+            citations.length > 0,
+            await attachmentParts(prompt.attachments || []),
+            options
+        );
+        // Skip if other outputs were shown in the meantime.
+        setComparison(prev => prev?.options === options ? { options, text, isLoading: false } : prev);
+    } catch (e) {
+        console.error("Comparison error:", e);
+        setComparison(prev => prev?.options === options ? null : prev);
     }
   };
 
+  // Asks a past question again. The turns after it are dropped, so the
+  // conversation carries on from the new answer.
+  const regenerateFrom = (promptId: string) => {
+    const session = currentSession;
+    const index = session ? session.messages.findIndex(m => m.id === promptId) : -1;
+    if (!session || index < 0 || isProcessing) return;
+    const later = buildTurns(session.messages.slice(index)).length - 1;
+    if (later > 0 && !window.confirm(later === 1 ? t('conversation.confirmRegenerateOne') : t('conversation.confirmRegenerateMany', { count: later }))) return;
+
+    const prompt = session.messages[index];
+    // The prompt is asked again with its attachments; the dropped turns' attachments go.
+    discardAttachments(session.messages.slice(index + 1).flatMap(m => m.attachments || [])).catch(error => console.error("Attachment cleanup error:", error));
+    setSessions(prev => prev.map(s => s.id === session.id ? { ...s, messages: s.messages.slice(0, index) } : s));
+    handleSendMessage(prompt.text, prompt.attachments || [], true);
+  };
+
   const toggleSidebar = () => setIsSidebarOpen(!isSidebarOpen);
 
   const renderSubNav = () => (
     <div className="bg-white dark:bg-black border-b border-gray-100 dark:border-gray-800 px-4 sm:px-8 py-0 flex items-center justify-center gap-4 sm:gap-8 shadow-sm transition-all overflow-x-auto no-scrollbar">
         {[
-            { id: AppTab.EXPLANATION, icon: 'ph-article', label: 'Explanation' },
-            { id: AppTab.VISUALS, icon: 'ph-eye', label: 'Visualizing' },
-            { id: AppTab.SIMULATION, icon: 'ph-flask', label: 'Simulation' },
-            { id: AppTab.VERIFY, icon: 'ph-shield-check', label: 'Verification' }
+            { id: AppTab.EXPLANATION, icon: 'ph-article', label: t('subtab.explanation') },
+            { id: AppTab.VISUALS, icon: 'ph-eye', label: t('subtab.visuals') },
+            { id: AppTab.SIMULATION, icon: 'ph-flask', label: t('subtab.simulation') },
+            { id: AppTab.VERIFY, icon: 'ph-shield-check', label: t('subtab.verify') }
         ].map(tab => (
             <button
                 key={tab.id}
@@ -167,6 +509,14 @@ const App: React.FC = () => {
                 {tab.label}
             </button>
         ))}
+        <button
+            onClick={() => setIsTranscriptOpen(!isTranscriptOpen)}
+            aria-pressed={isTranscriptOpen}
+            title={isTranscriptOpen ? t('conversation.hide') : t('conversation.show')}
+            className={`p-2 rounded-xl transition-colors ${isTranscriptOpen ? 'bg-gray-100 dark:bg-gray-900 text-black dark:text-white' : 'text-gray-400 hover:text-black dark:hover:text-white'}`}
+        >
+            <i className="ph ph-chats text-xl"></i>
+        </button>
     </div>
   );
 
@@ -179,14 +529,11 @@ const App: React.FC = () => {
                 setActiveView(view);
                 if (window.innerWidth < 1024) setIsSidebarOpen(false);
             }}
-            sessions={sessions}
+            sessions={projectSessions}
             currentSessionId={currentSessionId}
-            onSelectSession={(id) => { 
-                setCurrentSessionId(id); 
-                resetOutputs(); 
-                if (window.innerWidth < 1024) setIsSidebarOpen(false);
-            }}
-            onNewSession={createNewSession}
+            onSelectSession={selectSession}
+            onNewSession={() => createNewSession()}
+            activeProjectName={activeProject?.name}
             toggleSidebar={toggleSidebar}
         />
 
@@ -203,11 +550,11 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="flex-1 flex justify-center">
-                    <div className="flex space-x-2 bg-gray-100 dark:bg-gray-950 p-1.5 rounded-2xl overflow-x-auto no-scrollbar">
+                    <div className="flex gap-2 bg-gray-100 dark:bg-gray-950 p-1.5 rounded-2xl overflow-x-auto no-scrollbar">
                         {[
-                            { id: 'learning', icon: 'ph-book-open-text', label: 'Learning' },
-                            { id: 'test', icon: 'ph-check-circle', label: 'Test' },
-                            { id: 'teach', icon: 'ph-chalkboard-teacher', label: 'Teach' }
+                            { id: 'learning', icon: 'ph-book-open-text', label: t('tab.learning') },
+                            { id: 'test', icon: 'ph-check-circle', label: t('tab.test') },
+                            { id: 'teach', icon: 'ph-chalkboard-teacher', label: t('tab.teach') }
                         ].map(tab => (
                             <button
                                 key={tab.id}
@@ -236,24 +583,119 @@ const App: React.FC = () => {
 
             {activeView === 'learning' && renderSubNav()}
 
-            <div className={`flex-1 overflow-y-auto relative scroll-smooth bg-gray-50/30 dark:bg-black ${activeView === 'teach' || activeView === 'paste-link' ? 'pb-0' : 'pb-32'}`}>
+            <div className={`flex-1 overflow-y-auto relative scroll-smooth bg-gray-50/30 dark:bg-black ${FULL_PAGE_VIEWS.includes(activeView) ? 'pb-0' : 'pb-32'}`}>
                 {activeView === 'learning' && (
-                    <div className="h-full flex flex-col max-w-6xl mx-auto w-full pt-8 px-6">
-                        <div className="flex-1 bg-white dark:bg-black rounded-[3rem] shadow-2xl border-4 border-gray-100 dark:border-gray-900 overflow-hidden min-h-[500px]">
-                            {activeSubTab === AppTab.EXPLANATION && <ExplanationSection explanation={explanation} isLoading={isProcessing && !explanation} />}
+                    <div className={`h-full flex flex-col lg:flex-row gap-6 mx-auto w-full pt-8 px-6 ${isTranscriptOpen ? 'max-w-[90rem]' : 'max-w-6xl'}`}>
+                        <div className="flex-1 min-w-0 bg-white dark:bg-black rounded-[3rem] shadow-2xl border-4 border-gray-100 dark:border-gray-900 overflow-hidden min-h-[500px]">
+                            {activeSubTab === AppTab.EXPLANATION && (
+                                <div className="h-full flex flex-col">
+                                    <ExplanationControls
+                                        options={explanationOptions}
+                                        onChange={setExplanationOptions}
+                                        onCompare={compareExplanation}
+                                        canCompare={!!explanation && !!activeResponse && !isProcessing && !comparison?.isLoading
+                                            && (['level', 'style', 'length'] as const).some(key => explanationOptions[key] !== (shownExplanationOptions ?? DEFAULT_EXPLANATION_OPTIONS)[key])}
+                                    />
+                                    {comparison ? (
+                                        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x rtl:divide-x-reverse divide-gray-100 dark:divide-gray-800">
+                                            {[
+                                                { label: describeExplanationOptions(shownExplanationOptions ?? DEFAULT_EXPLANATION_OPTIONS, t), text: explanation, isLoading: false },
+                                                { label: describeExplanationOptions(comparison.options, t), text: comparison.text, isLoading: comparison.isLoading }
+                                            ].map((column, i) => (
+                                                <div key={i} className="min-h-0 flex flex-col">
+                                                    <div className="px-6 py-2 flex items-center justify-between text-[11px] font-black uppercase tracking-widest text-gray-400 bg-gray-50 dark:bg-gray-900">
+                                                        {column.label}
+                                                        {i === 1 && (
+                                                            <button onClick={() => setComparison(null)} title={t('controls.closeComparison')} className="hover:text-black dark:hover:text-white">
+                                                                <i className="ph ph-x text-base"></i>
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                    <div className="flex-1 min-h-0">
+                                                        <ExplanationSection explanation={column.text} isLoading={column.isLoading} citations={citations} onOpenCitation={openCitation} />
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <div className="flex-1 min-h-0">
+                                            <ExplanationSection explanation={explanation} isLoading={isProcessing && !explanation} isStreaming={isExplanationStreaming} onCancel={cancelExplanation} isAppending={isAnsweringFollowUp} citations={citations} onOpenCitation={openCitation} />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                             {activeSubTab === AppTab.VISUALS && <VisualSection imageBase64={visualBase64} isLoading={isProcessing && !visualBase64} regenerate={() => {}} />}
                             {activeSubTab === AppTab.SIMULATION && <SimulationSection simulationCode={simulationCode} isLoading={isProcessing && !simulationCode} regenerate={() => {}} />}
                             {activeSubTab === AppTab.VERIFY && <VerifySection data={verificationData} isLoading={isProcessing && !verificationData} onVerify={() => {}} hasInput={true} />}
                         </div>
+                        {isTranscriptOpen && (
+                            <div className="lg:w-80 shrink-0 lg:h-full flex flex-col min-h-0">
+                                <ConversationPanel
+                                    messages={currentSession?.messages || []}
+                                    activeResponseId={activeResponseId}
+                                    isProcessing={isProcessing}
+                                    onOpen={(messageId, tab) => currentSessionId && reopenOutput(currentSessionId, messageId, tab)}
+                                    onRegenerate={regenerateFrom}
+                                />
+                            </div>
+                        )}
                     </div>
                 )}
-                {activeView === 'test' && <TestSection contextText={lastContext} mistakes={mistakes} onAddMistake={() => {}} onUpdateMistake={() => {}} onDeleteMistake={() => {}} onQuizComplete={() => {}} />}
+                {activeView === 'test' && (
+                    <TestSection
+                        contextText={lastContext}
+                        mistakes={projectMistakes}
+                        onAddMistake={(mistake) => setMistakes(prev => [withActiveProject(mistake), ...prev])}
+                        onUpdateMistake={(id, note) => setMistakes(prev => prev.map(m => m.id === id ? { ...m, note } : m))}
+                        onDeleteMistake={(id) => setMistakes(prev => prev.filter(m => m.id !== id))}
+                        onReviewMistake={(id, review) => setMistakes(prev => prev.map(m => m.id === id ? { ...m, review } : m))}
+                        onQuizComplete={(result) => setQuizHistory(prev => [withActiveProject(result), ...prev])}
+                    />
+                )}
                 {activeView === 'teach' && <TeachSection initialTopic={lastContext.slice(0, 50)} />}
-                {activeView === 'paste-link' && <PasteLinkSection sources={sources} onAddSource={() => {}} onToggleSource={() => {}} onDeleteSource={() => {}} onDeleteSelected={() => {}} />}
-                {activeView === 'metrics' && <MetricsSection mistakes={mistakes} quizHistory={quizHistory} />}
+                {activeView === 'paste-link' && (
+                    <PasteLinkSection
+                        sources={sessionSources}
+                        onAddSource={addSource}
+                        onToggleSource={toggleSource}
+                        onDeleteSource={(id) => deleteSources([id])}
+                        onDeleteSelected={() => deleteSources(sessionSources.filter(s => s.isSelected).map(s => s.id))}
+                        onRenameSource={(id, title) => setSources(prev => prev.map(s => s.id === id ? { ...s, title } : s))}
+                        onReorderSource={reorderSource}
+                    />
+                )}
+                {activeView === 'metrics' && <MetricsSection mistakes={mistakes} quizHistory={quizHistory} projects={projects} initialProjectId={activeProjectId} />}
+                {activeView === 'settings' && <SettingsSection />}
+                {activeView === 'history' && <HistorySection sessions={projectSessions} onReopen={reopenOutput} />}
+                {activeView === 'projects' && (
+                    <ProjectsSection
+                        projects={projects}
+                        activeProjectId={activeProjectId}
+                        sessions={sessions}
+                        sources={sources}
+                        mistakes={mistakes}
+                        quizHistory={quizHistory}
+                        onCreateProject={createProject}
+                        onRenameProject={(id, name) => updateProject(id, { name })}
+                        onToggleArchiveProject={toggleArchiveProject}
+                        onOpenProject={openProject}
+                        onMoveSession={(sessionId, projectId) => setSessions(prev => prev.map(s => s.id === sessionId ? moveToProject(s, projectId) : s))}
+                        onMoveSource={(sourceId, projectId) => setSources(prev => prev.map(s => s.id === sourceId ? moveToProject(s, projectId) : s))}
+                        onSelectSession={(id) => { selectSession(id); setActiveView('learning'); }}
+                        onManageSources={() => setActiveView('paste-link')}
+                    />
+                )}
             </div>
             
-            {(activeView !== 'teach' && activeView !== 'paste-link') && <InputSection onSendMessage={handleSendMessage} isProcessing={isProcessing} />}
+            {!FULL_PAGE_VIEWS.includes(activeView) && (
+                <InputSection
+                    onSendMessage={handleSendMessage}
+                    isProcessing={isProcessing}
+                    isFollowUp={isFollowUpMode}
+                    canFollowUp={activeView === 'learning' && !!explanation}
+                    onToggleFollowUp={() => setIsFollowUpMode(!isFollowUpMode)}
+                />
+            )}
         </main>
     </div>
   );
@@ -1,17 +1,24 @@
 import React, { useState } from 'react';
 import { Button } from './Button';
 import { Play, Sparkles, X } from 'lucide-react';
+import { getSettings, QuizDifficulty } from '../services/settingsService';
+import { QuestionMix, QuizConfig } from '../types';
+import { QuestionMixPicker } from './QuestionMixPicker';
+import { DIFFICULTY_LABELS } from './SettingsSection';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface AdaptiveQuizSetupProps {
   topics: string[];
-  onStart: (config: { topics: string[], difficulty: string, count: number }) => void;
+  onStart: (config: QuizConfig) => void;
   initialTopic: string;
 }
 
 export const AdaptiveQuizSetup: React.FC<AdaptiveQuizSetupProps> = ({ topics, onStart, initialTopic }) => {
+  const { t } = useTranslation();
   const [selectedTopics, setSelectedTopics] = useState<string[]>(initialTopic ? [initialTopic] : []);
-  const [difficulty, setDifficulty] = useState<string>('Medium');
-  const [questionCount, setQuestionCount] = useState<number>(10);
+  const [difficulty, setDifficulty] = useState<string>(() => getSettings().quizDifficulty);
+  const [questionCount, setQuestionCount] = useState<number>(() => getSettings().quizCount);
+  const [mix, setMix] = useState<QuestionMix>(() => getSettings().quizMix);
   const [newTopic, setNewTopic] = useState('');
 
   const handleAddTopic = () => {
@@ -21,8 +28,8 @@ export const AdaptiveQuizSetup: React.FC<AdaptiveQuizSetupProps> = ({ topics, on
     }
   };
 
-  const handleRemoveTopic = (t: string) => {
-    setSelectedTopics(selectedTopics.filter(topic => topic !== t));
+  const handleRemoveTopic = (removed: string) => {
+    setSelectedTopics(selectedTopics.filter(topic => topic !== removed));
   };
 
   return (
@@ -34,20 +41,20 @@ export const AdaptiveQuizSetup: React.FC<AdaptiveQuizSetupProps> = ({ topics, on
 
         <div className="relative z-10">
           <div className="flex items-center gap-3 mb-8">
-             <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Configure Adaptive Quiz</h1>
+             <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('quizSetup.title')}</h1>
              <div className="bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-2 py-0.5 rounded-full text-xs font-bold flex items-center gap-1">
-                 <Sparkles className="w-3 h-3" /> AI Generated
+                 <Sparkles className="w-3 h-3" /> {t('quizSetup.aiGenerated')}
              </div>
           </div>
 
           {/* Topics */}
           <div className="mb-10">
-            <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-3">Focus Topics</label>
+            <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-3">{t('quizSetup.topics')}</label>
             <div className="flex flex-wrap gap-2 mb-3">
               {selectedTopics.map(topic => (
                 <span key={topic} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 text-sm font-medium border border-indigo-100 dark:border-indigo-800">
                   {topic}
-                  <button onClick={() => handleRemoveTopic(topic)} className="hover:text-indigo-900 dark:hover:text-white"><X className="w-3 h-3" /></button>
+                  <button onClick={() => handleRemoveTopic(topic)} aria-label={t('quizSetup.removeTopic', { topic })} className="hover:text-indigo-900 dark:hover:text-white"><X className="w-3 h-3" /></button>
                 </span>
               ))}
               <div className="flex items-center gap-2">
@@ -56,7 +63,7 @@ export const AdaptiveQuizSetup: React.FC<AdaptiveQuizSetupProps> = ({ topics, on
                     value={newTopic}
                     onChange={(e) => setNewTopic(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleAddTopic()}
-                    placeholder="+ Add Topic"
+                    placeholder={t('quizSetup.addTopic')}
                     className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-full px-4 py-1.5 text-sm outline-none focus:border-indigo-500 w-32"
                  />
               </div>
@@ -66,7 +73,7 @@ export const AdaptiveQuizSetup: React.FC<AdaptiveQuizSetupProps> = ({ topics, on
           {/* Difficulty Slider */}
           <div className="mb-10">
             <div className="flex justify-between mb-3">
-                 <label className="block text-sm font-bold text-gray-700 dark:text-gray-300">Difficulty Level: <span className="text-indigo-600 dark:text-indigo-400">{difficulty}</span></label>
+                 <label className="block text-sm font-bold text-gray-700 dark:text-gray-300">{t('quizSetup.difficulty')} <span className="text-indigo-600 dark:text-indigo-400">{t(DIFFICULTY_LABELS[difficulty as QuizDifficulty] || DIFFICULTY_LABELS.Medium)}</span></label>
             </div>
             <input 
               type="range" 
@@ -81,15 +88,15 @@ export const AdaptiveQuizSetup: React.FC<AdaptiveQuizSetupProps> = ({ topics, on
               className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
             />
             <div className="flex justify-between mt-2 text-xs text-gray-400">
-              <span>Recall</span>
-              <span>Application</span>
-              <span>Synthesis</span>
+              <span>{t('quizSetup.recall')}</span>
+              <span>{t('quizSetup.application')}</span>
+              <span>{t('quizSetup.synthesis')}</span>
             </div>
           </div>
 
           {/* Question Count */}
-          <div className="mb-12">
-            <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-3">Number of Questions</label>
+          <div className="mb-10">
+            <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-3">{t('settings.questionCount')}</label>
             <div className="grid grid-cols-3 gap-4">
               {[5, 10, 20].map(count => (
                 <button
@@ -101,18 +108,24 @@ export const AdaptiveQuizSetup: React.FC<AdaptiveQuizSetupProps> = ({ topics, on
                         : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 text-gray-600 dark:text-gray-400'}
                   `}
                 >
-                  {count} {count === 5 ? '(Quick)' : count === 10 ? '(Standard)' : '(Deep)'}
+                  {count} {t(count === 5 ? 'quizSetup.count.5' : count === 10 ? 'quizSetup.count.10' : 'quizSetup.count.20')}
                 </button>
               ))}
             </div>
           </div>
 
+          {/* Question Types */}
+          <div className="mb-12">
+            <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-3">{t('settings.questionTypes')}</label>
+            <QuestionMixPicker mix={mix} count={questionCount} onChange={setMix} />
+          </div>
+
           {/* Start Button */}
           <Button 
-            onClick={() => onStart({ topics: selectedTopics, difficulty, count: questionCount })}
+            onClick={() => onStart({ topics: selectedTopics, difficulty, count: questionCount, mix })}
             className="w-full py-4 text-lg font-bold bg-black dark:bg-white text-white dark:text-black hover:scale-[1.02] active:scale-[0.98] transition-transform rounded-xl shadow-lg"
           >
-            Start Quiz <Play className="w-5 h-5 ml-2 fill-current" />
+            {t('quizSetup.start')} <Play className="w-5 h-5 ml-2 fill-current" />
           </Button>
 
         </div>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ChatAttachment } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface AttachmentChipsProps {
+  attachments: ChatAttachment[];
+  /** Shows a remove button on each chip when given. */
+  onRemove?: (id: string) => void;
+  className?: string;
+}
+
+const ICONS: Record<ChatAttachment['kind'], string> = {
+  pdf: 'ph-file-pdf',
+  text: 'ph-file-text',
+  image: 'ph-image',
+  audio: 'ph-waveform',
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const AttachmentChips: React.FC<AttachmentChipsProps> = ({ attachments, onRemove, className = '' }) => {
+  const { t } = useTranslation();
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-wrap gap-2 ${className}`} aria-label={t('attachments.label')}>
+      {attachments.map(attachment => (
+        <li
+          key={attachment.id}
+          title={`${attachment.name} (${formatSize(attachment.size)})`}
+          className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 ps-3 pe-2 py-1.5 rounded-full text-xs font-medium text-blue-600 dark:text-blue-300 flex items-center gap-1.5 shadow-sm max-w-[16rem]"
+        >
+          <i className={`ph ${ICONS[attachment.kind]} text-lg shrink-0`}></i>
+          <span className="truncate">{attachment.name}</span>
+          {onRemove && (
+            <button onClick={() => onRemove(attachment.id)} aria-label={t('attachments.remove', { name: attachment.name })} className="ms-1 hover:text-red-500">
+              <i className="ph ph-x"></i>
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ConversationPanel, buildTurns, summarizeExplanation } from './ConversationPanel';
+import { AppTab, ChatMessage } from '../types';
+import { resetSettings, updateSettings } from '../services/settingsService';
+
+const messages: ChatMessage[] = [
+  { id: 'm1', role: 'user', text: 'Carnot cycle', timestamp: 1 },
+  { id: 'm1-out', role: 'model', text: '', timestamp: 2, outputs: { explanation: '# Executive Summary\nThe **Carnot** engine is the most efficient [S1].\n\n## Key Concepts\n- Reversible', visual: 'data:image/png;base64,AAAA', simulation: null, verification: null } },
+  { id: 'm2', role: 'user', text: '', timestamp: 3, attachments: [{ id: 'a1', name: 'engine.png', type: 'image/png', kind: 'image', size: 2048, blobId: 'a1' }] },
+];
+
+describe('buildTurns', () => {
+  it('pairs prompts with their replies', () => {
+    expect(buildTurns(messages).map(turn => [turn.prompt.id, turn.response?.id])).toEqual([['m1', 'm1-out'], ['m2', undefined]]);
+  });
+});
+
+describe('summarizeExplanation', () => {
+  it('takes the first paragraph as plain text', () => {
+    expect(summarizeExplanation(messages[1].outputs!.explanation!)).toBe('The Carnot engine is the most efficient.');
+    expect(summarizeExplanation('# A\n' + 'word '.repeat(50), 20)).toBe('word word word word…');
+  });
+});
+
+describe('ConversationPanel', () => {
+  it('shows each turn and opens or regenerates it', async () => {
+    const onOpen = vi.fn();
+    const onRegenerate = vi.fn();
+    render(<ConversationPanel messages={messages} activeResponseId="m1-out" isProcessing={false} onOpen={onOpen} onRegenerate={onRegenerate} />);
+
+    expect(screen.getByText('Carnot cycle')).toBeInTheDocument();
+    expect(screen.getByText('engine.png')).toBeInTheDocument();
+    expect(screen.getByText('No answer was saved for this question.')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: /Visual/ }));
+    expect(onOpen).toHaveBeenCalledWith('m1-out', AppTab.VISUALS);
+    expect(screen.queryByRole('button', { name: /Simulation/ })).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getAllByRole('button', { name: /Regenerate/ })[1]);
+    expect(onRegenerate).toHaveBeenCalledWith('m2');
+  });
+
+  it('marks the pending turn and disables regenerating while generating', () => {
+    render(<ConversationPanel messages={messages} activeResponseId={null} isProcessing onOpen={vi.fn()} onRegenerate={vi.fn()} />);
+    expect(screen.getByText('Working on it...')).toBeInTheDocument();
+    within(screen.getByRole('complementary', { name: 'Conversation' })).getAllByRole('button', { name: /Regenerate/ })
+      .forEach(button => expect(button).toBeDisabled());
+  });
+
+  it('follows the app language', () => {
+    updateSettings({ language: 'am' });
+    render(<ConversationPanel messages={[]} activeResponseId={null} isProcessing={false} onOpen={vi.fn()} onRegenerate={vi.fn()} />);
+    expect(screen.getByRole('complementary', { name: 'ውይይት' })).toBeInTheDocument();
+    expect(screen.getByText('ውይይቱን ለመጀመር ጥያቄ ይጠይቁ።')).toBeInTheDocument();
+    resetSettings();
+  });
+});
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef } from 'react';
+import { AppTab, ChatMessage } from '../types';
+import { MessagesSquare, FileText, Eye, FlaskConical, ShieldCheck, RotateCcw } from 'lucide-react';
+import { AttachmentChips } from './AttachmentChips';
+import { useTranslation } from '../hooks/useTranslation';
+
+export interface ConversationTurn {
+  prompt: ChatMessage;
+  response?: ChatMessage;
+}
+
+interface ConversationPanelProps {
+  messages: ChatMessage[];
+  /** Model message whose outputs are on screen. */
+  activeResponseId: string | null;
+  isProcessing: boolean;
+  onOpen: (messageId: string, tab: AppTab) => void;
+  onRegenerate: (promptId: string) => void;
+}
+
+/** Pairs each user message with the model reply that follows it, if any. */
+export const buildTurns = (messages: ChatMessage[]): ConversationTurn[] =>
+  messages.flatMap((message, index) => {
+    if (message.role !== 'user') return [];
+    const next = messages[index + 1];
+    return [{ prompt: message, response: next?.role === 'model' ? next : undefined }];
+  });
+
+/** The first paragraph of an explanation as plain text, e.g. its executive summary. */
+export const summarizeExplanation = (markdown: string, maxLength = 160): string => {
+  const paragraph = markdown
+    .split(/\n\s*\n/)
+    .map(block => block.split('\n').filter(line => !/^\s*#/.test(line)).join(' '))
+    .find(block => block.trim()) || '';
+  const plain = paragraph.replace(/\s*\[S\d+(?:,\s*S\d+)*\]/g, '').replace(/[*_`>]/g, '').replace(/\s+/g, ' ').trim();
+  return plain.length > maxLength ? `${plain.slice(0, maxLength).trimEnd()}…` : plain;
+};
+
+export const ConversationPanel: React.FC<ConversationPanelProps> = ({ messages, activeResponseId, isProcessing, onOpen, onRegenerate }) => {
+  const { t } = useTranslation();
+  const turns = buildTurns(messages);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ block: 'end' });
+  }, [messages.length]);
+
+  const renderOutputButton = (response: ChatMessage, tab: AppTab, label: string, icon: React.ReactNode, available: boolean) => available && (
+    <button
+      key={tab}
+      onClick={() => onOpen(response.id, tab)}
+      className="flex items-center gap-1 px-2 py-1 rounded-lg text-[11px] font-bold bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black transition-colors"
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <aside aria-label={t('conversation.title')} className="flex-1 min-h-0 flex flex-col bg-white dark:bg-black rounded-[2rem] shadow-xl border-4 border-gray-100 dark:border-gray-900 overflow-hidden">
+      <div className="px-5 py-4 border-b border-gray-100 dark:border-gray-900 flex items-center gap-2 font-black text-xs uppercase tracking-widest text-gray-500 dark:text-gray-400">
+        <MessagesSquare className="w-4 h-4" /> {t('conversation.title')}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        {turns.length === 0 && (
+          <p className="text-sm text-center text-gray-400 dark:text-gray-500 py-8">{t('conversation.empty')}</p>
+        )}
+
+        {turns.map(({ prompt, response }, index) => {
+          const outputs = response?.outputs;
+          const isPending = isProcessing && !response && index === turns.length - 1;
+          const isActive = !!response && response.id === activeResponseId;
+          return (
+            <div key={prompt.id} className="space-y-2">
+              <div className="ms-6 bg-black dark:bg-white text-white dark:text-black rounded-2xl rounded-se-sm px-4 py-2.5 text-sm">
+                {prompt.text && <p className="whitespace-pre-wrap break-words">{prompt.text}</p>}
+                {prompt.attachments && <AttachmentChips attachments={prompt.attachments} className={prompt.text ? 'mt-2' : ''} />}
+              </div>
+
+              <div className={`me-6 rounded-2xl rounded-ss-sm px-4 py-3 border-2 transition-colors ${isActive ? 'border-black dark:border-white' : 'border-gray-100 dark:border-gray-800'}`}>
+                {outputs ? (
+                  <>
+                    {outputs.explanation && (
+                      <button onClick={() => onOpen(response!.id, AppTab.EXPLANATION)} className="text-start text-sm text-gray-700 dark:text-gray-300 leading-relaxed mb-3 hover:underline">
+                        {summarizeExplanation(outputs.explanation)}
+                      </button>
+                    )}
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {renderOutputButton(response!, AppTab.EXPLANATION, t('output.explanation'), <FileText className="w-3 h-3" />, !!outputs.explanation)}
+                      {renderOutputButton(response!, AppTab.VISUALS, t('output.visual'), <Eye className="w-3 h-3" />, !!outputs.visual)}
+                      {renderOutputButton(response!, AppTab.SIMULATION, t('output.simulation'), <FlaskConical className="w-3 h-3" />, !!outputs.simulation)}
+                      {renderOutputButton(response!, AppTab.VERIFY, t('output.verification'), <ShieldCheck className="w-3 h-3" />, !!outputs.verification)}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">{isPending ? t('conversation.pending') : t('conversation.noAnswer')}</p>
+                )}
+                <button
+                  onClick={() => onRegenerate(prompt.id)}
+                  disabled={isProcessing}
+                  title={t('conversation.regenerateHint')}
+                  className="mt-3 flex items-center gap-1 text-[11px] font-bold text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-40 transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3" /> {t('conversation.regenerate')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={endRef} />
+      </div>
+    </aside>
+  );
+};
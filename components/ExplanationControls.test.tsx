@@ -0,0 +1,30 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ExplanationControls, describeExplanationOptions } from './ExplanationControls';
+import { DEFAULT_EXPLANATION_OPTIONS } from '../services/geminiService';
+
+describe('ExplanationControls', () => {
+  it('changes one option at a time', async () => {
+    const onChange = vi.fn();
+    render(<ExplanationControls options={DEFAULT_EXPLANATION_OPTIONS} onChange={onChange} canCompare={false} />);
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Style' }), 'Socratic');
+    expect(onChange).toHaveBeenCalledWith({ level: 'undergrad', style: 'socratic', length: 'standard' });
+  });
+
+  it('compares side by side only when allowed', async () => {
+    const onCompare = vi.fn();
+    const { rerender } = render(<ExplanationControls options={DEFAULT_EXPLANATION_OPTIONS} onChange={vi.fn()} onCompare={onCompare} canCompare={false} />);
+    expect(screen.getByRole('button', { name: /Compare side by side/ })).toBeDisabled();
+
+    rerender(<ExplanationControls options={DEFAULT_EXPLANATION_OPTIONS} onChange={vi.fn()} onCompare={onCompare} canCompare />);
+    await userEvent.click(screen.getByRole('button', { name: /Compare side by side/ }));
+    expect(onCompare).toHaveBeenCalled();
+  });
+
+  it('describes options for column labels', () => {
+    expect(describeExplanationOptions({ level: 'middle-school', style: 'eli5', length: 'brief' })).toBe('Middle school · ELI5 · Brief');
+  });
+});
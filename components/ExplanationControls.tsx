@@ -0,0 +1,73 @@
+import React from 'react';
+import { Columns2 } from 'lucide-react';
+import { ExplanationLength, ExplanationLevel, ExplanationOptions, ExplanationStyle } from '../types';
+import { MessageKey, translate, Translate } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+export const LEVEL_LABELS: Record<ExplanationLevel, MessageKey> = {
+  'middle-school': 'level.middle-school',
+  'undergrad': 'level.undergrad',
+  'expert': 'level.expert',
+};
+
+export const STYLE_LABELS: Record<ExplanationStyle, MessageKey> = {
+  'standard': 'style.standard',
+  'analogy': 'style.analogy',
+  'step-by-step': 'style.step-by-step',
+  'socratic': 'style.socratic',
+  'eli5': 'style.eli5',
+};
+
+export const LENGTH_LABELS: Record<ExplanationLength, MessageKey> = {
+  'brief': 'length.brief',
+  'standard': 'length.standard',
+  'detailed': 'length.detailed',
+};
+
+/** e.g. "Expert · Socratic · Brief" */
+export const describeExplanationOptions = (options: ExplanationOptions, t: Translate = (key) => translate('en', key)) =>
+  [t(LEVEL_LABELS[options.level]), t(STYLE_LABELS[options.style]), t(LENGTH_LABELS[options.length])].join(' · ');
+
+interface ExplanationControlsProps {
+  options: ExplanationOptions;
+  onChange: (options: ExplanationOptions) => void;
+  /** Regenerates the explanation on screen with `options`, shown next to it. */
+  onCompare?: () => void;
+  canCompare: boolean;
+}
+
+export const ExplanationControls: React.FC<ExplanationControlsProps> = ({ options, onChange, onCompare, canCompare }) => {
+  const { t } = useTranslation();
+  const selectClass = "bg-transparent border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5 text-xs font-bold text-gray-700 dark:text-gray-200 outline-none focus:border-black dark:focus:border-white";
+
+  const renderSelect = <K extends keyof ExplanationOptions>(key: K, label: string, labels: Record<ExplanationOptions[K], MessageKey>) => (
+    <label className="flex items-center gap-1.5 text-[11px] font-bold uppercase tracking-wide text-gray-400">
+      {label}
+      <select
+        value={options[key]}
+        onChange={(e) => onChange({ ...options, [key]: e.target.value })}
+        className={selectClass}
+      >
+        {(Object.keys(labels) as ExplanationOptions[K][]).map(value => <option key={value} value={value}>{t(labels[value])}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 sm:px-6 py-3 border-b border-gray-100 dark:border-gray-800 bg-white dark:bg-black">
+      {renderSelect('level', t('controls.level'), LEVEL_LABELS)}
+      {renderSelect('style', t('controls.style'), STYLE_LABELS)}
+      {renderSelect('length', t('controls.length'), LENGTH_LABELS)}
+      {onCompare && (
+        <button
+          onClick={onCompare}
+          disabled={!canCompare}
+          title={t('controls.compareHint')}
+          className="ms-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-black dark:bg-white text-white dark:text-black disabled:opacity-30 transition-opacity"
+        >
+          <Columns2 className="w-3.5 h-3.5" /> {t('controls.compare')}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ExplanationSection, getCitedNumbers, linkCitations, splitExplanationSections } from './ExplanationSection';
+import { RetrievedChunk } from '../types';
+import { streamExplanation } from '../services/geminiService';
+
+describe('splitExplanationSections', () => {
+  it('splits on #, ## and ### headings', () => {
+    const sections = splitExplanationSections('# Summary\nA\n\n## Key Concepts\n- B\n\n### Detail\nC');
+    expect(sections).toEqual(['# Summary\nA\n\n', '## Key Concepts\n- B\n\n', '### Detail\nC']);
+  });
+
+  it('keeps a preamble before the first heading as its own section', () => {
+    expect(splitExplanationSections('Intro\n# Summary\nA')).toEqual(['Intro\n', '# Summary\nA']);
+  });
+
+  it('does not split on deeper headings or inline hashes', () => {
+    expect(splitExplanationSections('# A\n#### deep\nC# sharp')).toHaveLength(1);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(splitExplanationSections('')).toEqual([]);
+  });
+});
+
+const citations: RetrievedChunk[] = [
+  { id: 'book#4', sourceId: 'book', sourceTitle: 'Chapter 4.pdf', chunkIndex: 4, text: 'Entropy of an isolated system never decreases.', heading: 'Entropy', pageStart: 12, pageEnd: 12, score: 3 },
+  { id: 'video#0', sourceId: 'video', sourceTitle: 'Entropy lecture', chunkIndex: 0, text: '[1:15] Heat flows from hot to cold.', startTime: 75, score: 1 },
+];
+
+describe('citation markers', () => {
+  it('links known passages and drops made-up ones', () => {
+    expect(linkCitations('Heat flows [S2]. Entropy grows [S1, S9].', 2)).toBe('Heat flows [2](#cite-2). Entropy grows [1](#cite-1).');
+    expect(getCitedNumbers('A [S2]. B [S1][S2]. C [S7].', 2)).toEqual([1, 2]);
+  });
+});
+
+describe('ExplanationSection', () => {
+  it('renders one card per section', () => {
+    render(<ExplanationSection explanation={'# Executive Summary\nText\n\n## Conclusion\nDone'} isLoading={false} />);
+    expect(screen.getByRole('heading', { name: 'Executive Summary' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Conclusion' })).toBeInTheDocument();
+  });
+
+  it('shows a stop button while streaming', async () => {
+    const onCancel = vi.fn();
+    render(<ExplanationSection explanation={'# Summary\nPartial'} isLoading={false} isStreaming onCancel={onCancel} />);
+    await userEvent.click(screen.getByRole('button', { name: /stop generating/i }));
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('shows a placeholder while a follow-up is being added', () => {
+    render(<ExplanationSection explanation={'# Executive Summary\nText'} isLoading={false} isAppending />);
+    expect(screen.getByRole('heading', { name: 'Executive Summary' })).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('Answering your follow-up...');
+  });
+
+  it('renders a streamed mock explanation', async () => {
+    let text = '';
+    for await (const chunk of streamExplanation('Thermodynamics')) text += chunk;
+    render(<ExplanationSection explanation={text} isLoading={false} />);
+    expect(splitExplanationSections(text)).toHaveLength(4);
+    expect(screen.getByRole('heading', { name: 'Key Concepts' })).toBeInTheDocument();
+  });
+
+  it('renders citations as footnotes that open their source', async () => {
+    const onOpenCitation = vi.fn();
+    render(
+      <ExplanationSection
+        explanation={'# Executive Summary\nEntropy never decreases in an isolated system [S1].\n\n## Conclusion\nNo citation here.'}
+        isLoading={false}
+        citations={citations}
+        onOpenCitation={onOpenCitation}
+      />
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: '1' }));
+    expect(onOpenCitation).toHaveBeenCalledWith(citations[0]);
+    expect(screen.getByRole('button', { name: '1' })).toHaveAttribute('title', 'Chapter 4.pdf, "Entropy", page 12');
+
+    // Only cited passages are listed.
+    await userEvent.click(screen.getByRole('button', { name: /Chapter 4\.pdf.*Entropy of an isolated/ }));
+    expect(onOpenCitation).toHaveBeenCalledTimes(2);
+    expect(screen.queryByText(/Entropy lecture/)).not.toBeInTheDocument();
+  });
+});
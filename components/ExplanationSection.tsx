@@ -1,24 +1,86 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { BookOpen, List, AlignLeft, Info, CheckCircle, Lightbulb, Zap, Anchor } from 'lucide-react';
+import { BookOpen, List, AlignLeft, Info, CheckCircle, Lightbulb, Zap, Anchor, Square, Quote } from 'lucide-react';
+import { RetrievedChunk } from '../types';
+import { describeChunk } from '../services/retrievalService';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface ExplanationSectionProps {
   explanation: string;
   isLoading: boolean;
+  isStreaming?: boolean;
+  onCancel?: () => void;
+  /** A follow-up answer is on its way and will be added as new sections. */
+  isAppending?: boolean;
+  /** The passages the explanation may cite; `[Sn]` refers to `citations[n - 1]`. */
+  citations?: RetrievedChunk[];
+  onOpenCitation?: (citation: RetrievedChunk) => void;
 }
 
-export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanation, isLoading }) => {
+const CITATION_MARKER = /\[(S\d+(?:\s*[,;]\s*S\d+)*)\]/g;
+const CITATION_HREF = '#cite-';
+
+const markerNumbers = (marker: string) => marker.split(/[,;]/).map(label => Number(label.trim().slice(1)));
+
+/**
+ * Turns `[S2]` / `[S1, S3]` markers into `#cite-n` links, dropping any that
+ * point past the `count` passages the model was given.
+ */
+export const linkCitations = (markdown: string, count: number): string =>
+  markdown.replace(CITATION_MARKER, (_, marker: string) =>
+    markerNumbers(marker)
+      .filter(n => n >= 1 && n <= count)
+      .map(n => `[${n}](${CITATION_HREF}${n})`)
+      .join(''));
+
+/** Passage numbers cited in `markdown`, ascending and without repeats. */
+export const getCitedNumbers = (markdown: string, count: number): number[] => {
+  const cited = new Set<number>();
+  for (const match of markdown.matchAll(CITATION_MARKER)) {
+    markerNumbers(match[1]).filter(n => n >= 1 && n <= count).forEach(n => cited.add(n));
+  }
+  return Array.from(cited).sort((a, b) => a - b);
+};
+
+/**
+ * Splits markdown into one chunk per #, ## or ### heading.
+ */
+export const splitExplanationSections = (explanation: string): string[] => {
+  if (!explanation) return [];
+  // Split by lookahead for #, ##, or ### at start of line
+  const chunks = explanation.split(/(?=^#{1,3} )/gm).filter(s => s.trim().length > 0);
   
-  const sections = useMemo(() => {
-    if (!explanation) return [];
-    // Split by lookahead for #, ##, or ### at start of line
-    const chunks = explanation.split(/(?=^#{1,3} )/gm).filter(s => s.trim().length > 0);
-    
-    if (chunks.length === 0 && explanation.trim().length > 0) {
-        return [explanation];
-    }
-    return chunks;
-  }, [explanation]);
+  if (chunks.length === 0 && explanation.trim().length > 0) {
+      return [explanation];
+  }
+  return chunks;
+};
+
+export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanation, isLoading, isStreaming = false, onCancel, isAppending = false, citations = [], onOpenCitation }) => {
+  const { t } = useTranslation();
+  const appendingRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isAppending) appendingRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'end' });
+  }, [isAppending]);
+
+  const sections = useMemo(() => splitExplanationSections(linkCitations(explanation, citations.length)), [explanation, citations]);
+  const cited = useMemo(() => getCitedNumbers(explanation, citations.length), [explanation, citations]);
+
+  const renderCitationLink = (n: number) => {
+    const citation = citations[n - 1];
+    return (
+      <sup key={n}>
+        <button
+          onClick={() => onOpenCitation?.(citation)}
+          title={describeChunk(citation)}
+          className="mx-0.5 px-1 rounded text-[11px] font-bold text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/40 hover:bg-indigo-100 dark:hover:bg-indigo-800"
+        >
+          {n}
+        </button>
+      </sup>
+    );
+  };
 
   if (isLoading) {
     return (
@@ -36,14 +98,16 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
         <div className="p-4 bg-gray-100 dark:bg-gray-700 rounded-full mb-4 transition-colors">
            <BookOpen className="w-8 h-8" />
         </div>
-        <p>No explanation generated yet.</p>
+        <p>{t('explanation.empty')}</p>
       </div>
     );
   }
 
-  const renderSection = (sectionText: string, index: number) => {
+  // While streaming, only the last section can still grow.
+  const renderSection = (sectionText: string, index: number, isInProgress: boolean) => {
     const textLower = sectionText.toLowerCase();
     
+    // Headings are matched in English and Amharic (see languageInstruction).
     // Default Style
     let icon = <AlignLeft className="w-5 h-5" />;
     let headerClass = "text-gray-800 dark:text-gray-100";
@@ -52,7 +116,7 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
     let iconBgClass = "bg-gray-100 dark:bg-gray-700 text-gray-500";
 
     // "Lumen" Color (Amber/Gold/Yellow) - Typically for Summary/Intro
-    if (textLower.includes('summary') || textLower.includes('introduction')) {
+    if (textLower.includes('summary') || textLower.includes('introduction') || sectionText.includes('ማጠቃለያ')) {
         icon = <Zap className="w-5 h-5" />;
         headerClass = "text-amber-700 dark:text-amber-300";
         borderClass = "border-amber-200 dark:border-amber-800";
@@ -60,7 +124,7 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
         iconBgClass = "bg-amber-100 dark:bg-amber-800 text-amber-600 dark:text-amber-300";
     } 
     // "Blue" Color - Typically for Key Concepts
-    else if (textLower.includes('concept') || textLower.includes('key point')) {
+    else if (textLower.includes('concept') || textLower.includes('key point') || sectionText.includes('ጽንሰ')) {
         icon = <Lightbulb className="w-5 h-5" />;
         headerClass = "text-blue-700 dark:text-blue-300";
         borderClass = "border-blue-200 dark:border-blue-800";
@@ -68,7 +132,7 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
         iconBgClass = "bg-blue-100 dark:bg-blue-800 text-blue-600 dark:text-blue-300";
     } 
     // "Brown" Color (Stone/Sepia) - Typically for Detailed Analysis
-    else if (textLower.includes('analysis') || textLower.includes('detail')) {
+    else if (textLower.includes('analysis') || textLower.includes('detail') || sectionText.includes('ትንተና')) {
         icon = <List className="w-5 h-5" />;
         headerClass = "text-stone-700 dark:text-stone-300";
         borderClass = "border-stone-200 dark:border-stone-700";
@@ -76,7 +140,7 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
         iconBgClass = "bg-stone-200 dark:bg-stone-800 text-stone-700 dark:text-stone-300";
     } 
     // Green/Conclusion
-    else if (textLower.includes('conclusion')) {
+    else if (textLower.includes('conclusion') || sectionText.includes('መደምደሚያ')) {
         icon = <CheckCircle className="w-5 h-5" />;
         headerClass = "text-emerald-700 dark:text-emerald-300";
         borderClass = "border-emerald-200 dark:border-emerald-800";
@@ -85,7 +149,7 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
     }
 
     return (
-      <div key={index} className={`rounded-xl border-l-4 shadow-sm mb-6 last:mb-0 overflow-hidden transition-all duration-300 hover:shadow-md ${borderClass} ${bgClass} border-r border-t border-b`}>
+      <div key={index} className={`rounded-xl border-s-4 shadow-sm mb-6 last:mb-0 overflow-hidden transition-all duration-300 hover:shadow-md ${borderClass} ${bgClass} border-e border-t border-b`}>
         <div className="p-6">
             <ReactMarkdown
             components={{
@@ -104,19 +168,23 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
                 ),
                 h3: ({node, ...props}) => <h3 className="text-base font-semibold text-gray-800 dark:text-gray-200 mt-4 mb-2" {...props} />,
                 p: ({node, ...props}) => <p className="text-gray-700 dark:text-gray-300 leading-relaxed mb-4 last:mb-0 font-light text-[15px]" {...props} />,
-                ul: ({node, ...props}) => <ul className="space-y-2 mb-4 pl-1" {...props} />,
+                ul: ({node, ...props}) => <ul className="space-y-2 mb-4 ps-1" {...props} />,
                 li: ({node, ...props}) => (
                     <li className="flex items-start gap-2 text-gray-700 dark:text-gray-300 text-[15px]">
                         <span className={`mt-2 w-1.5 h-1.5 rounded-full flex-shrink-0 ${headerClass.replace('text-', 'bg-').replace('700', '400')}`} />
                         <span className="flex-1">{props.children}</span>
                     </li>
                 ),
+                a: ({node, href, children, ...props}) => href?.startsWith(CITATION_HREF)
+                    ? renderCitationLink(Number(href.slice(CITATION_HREF.length)))
+                    : <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 dark:text-indigo-300 underline" {...props}>{children}</a>,
                 strong: ({node, ...props}) => <strong className="font-semibold text-gray-900 dark:text-gray-100" {...props} />,
-                blockquote: ({node, ...props}) => <blockquote className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic text-gray-600 dark:text-gray-400 my-4 bg-white/50 dark:bg-black/20 p-2 rounded-r" {...props} />
+                blockquote: ({node, ...props}) => <blockquote className="border-s-4 border-gray-300 dark:border-gray-600 ps-4 italic text-gray-600 dark:text-gray-400 my-4 bg-white/50 dark:bg-black/20 p-2 rounded-e" {...props} />
             }}
             >
             {sectionText}
             </ReactMarkdown>
+            {isInProgress && <span className="inline-block w-2 h-5 ms-1 align-text-bottom bg-gray-400 dark:bg-gray-500 animate-pulse" aria-hidden="true" />}
         </div>
       </div>
     );
@@ -125,7 +193,40 @@ export const ExplanationSection: React.FC<ExplanationSectionProps> = ({ explanat
   return (
     <div className="h-full overflow-y-auto bg-gray-50 dark:bg-gray-900 p-4 sm:p-6 transition-colors duration-200 custom-scrollbar">
       <div className="max-w-4xl mx-auto pb-8">
-         {sections.map((section, idx) => renderSection(section, idx))}
+         {isStreaming && onCancel && (
+            <div className="sticky top-0 z-10 flex justify-end mb-4">
+                <button
+                    onClick={onCancel}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 text-xs font-bold text-gray-600 dark:text-gray-300 hover:border-red-300 hover:text-red-600 dark:hover:text-red-400 transition-colors shadow-sm"
+                >
+                    <Square className="w-3 h-3 fill-current" /> {t('explanation.stop')}
+                </button>
+            </div>
+         )}
+         {sections.map((section, idx) => renderSection(section, idx, isStreaming && idx === sections.length - 1))}
+         {isAppending && (
+            <div ref={appendingRef} role="status" className="mb-6 rounded-xl border border-dashed border-gray-300 dark:border-gray-600 p-6 text-sm text-gray-500 dark:text-gray-400 animate-pulse">
+                {t('explanation.appending')}
+            </div>
+         )}
+         {cited.length > 0 && (
+            <div className="mt-6 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6">
+                <h2 className="text-sm font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400 flex items-center gap-2 mb-3"><Quote className="w-4 h-4" /> {t('explanation.sources')}</h2>
+                <ol className="space-y-2">
+                    {cited.map(n => (
+                        <li key={n}>
+                            <button onClick={() => onOpenCitation?.(citations[n - 1])} className="w-full text-start flex gap-3 p-2 -mx-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                                <span className="text-xs font-bold text-indigo-600 dark:text-indigo-300 mt-0.5">{n}</span>
+                                <span className="min-w-0">
+                                    <span className="block text-sm font-medium text-gray-800 dark:text-gray-200">{describeChunk(citations[n - 1])}</span>
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{citations[n - 1].text.replace(/\s+/g, ' ').slice(0, 160)}</span>
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+         )}
       </div>
     </div>
   );
@@ -0,0 +1,42 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { HistorySection, buildHistoryEntries, searchHistory } from './HistorySection';
+import { AppTab, ChatMessage, ChatSession } from '../types';
+
+const turn = (id: string, prompt: string, explanation: string, timestamp: number, visual: string | null = null): ChatMessage[] => [
+  { id, role: 'user', text: prompt, timestamp },
+  { id: `${id}-out`, role: 'model', text: explanation, timestamp: timestamp + 1, outputs: { explanation, visual, simulation: null, verification: null } },
+];
+
+const sessions: ChatSession[] = [
+  { id: 's1', title: 'Heat engines', createdAt: 0, messages: [...turn('m1', 'Carnot cycle', 'The **Carnot** engine is reversible.', 10)] },
+  { id: 's2', title: 'Waves', createdAt: 0, messages: [...turn('m2', 'Standing waves', 'Nodes never move.', 20, 'data:image/png;base64,AAAA')] },
+];
+
+describe('history search', () => {
+  it('pairs each output with its prompt, newest first', () => {
+    const entries = buildHistoryEntries(sessions);
+    expect(entries.map(e => e.prompt?.text)).toEqual(['Standing waves', 'Carnot cycle']);
+  });
+
+  it('matches every term across title, prompt and explanation', () => {
+    const entries = buildHistoryEntries(sessions);
+    expect(searchHistory(entries, 'heat reversible').map(e => e.session.id)).toEqual(['s1']);
+    expect(searchHistory(entries, 'NODES')).toHaveLength(1);
+    expect(searchHistory(entries, 'carnot nodes')).toHaveLength(0);
+    expect(searchHistory(entries, '  ')).toHaveLength(2);
+  });
+
+  it('reopens the chosen output on the matching tab', async () => {
+    const onReopen = vi.fn();
+    render(<HistorySection sessions={sessions} onReopen={onReopen} />);
+
+    await userEvent.type(screen.getByPlaceholderText(/Search titles/), 'waves');
+    expect(screen.queryByText('Carnot cycle')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByText('Visual'));
+    expect(onReopen).toHaveBeenCalledWith('s2', 'm2-out', AppTab.VISUALS);
+  });
+});
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { AppTab, ChatMessage, ChatSession } from '../types';
+import { Search, History, FileText, Eye, FlaskConical, ShieldCheck } from 'lucide-react';
+import { AttachmentChips } from './AttachmentChips';
+import { useTranslation } from '../hooks/useTranslation';
+
+export interface HistoryEntry {
+  session: ChatSession;
+  prompt?: ChatMessage;
+  response: ChatMessage;
+}
+
+interface HistorySectionProps {
+  sessions: ChatSession[];
+  onReopen: (sessionId: string, messageId: string, tab: AppTab) => void;
+}
+
+/**
+ * Pairs every model response that carries outputs with the user prompt
+ * before it, newest first.
+ */
+export const buildHistoryEntries = (sessions: ChatSession[]): HistoryEntry[] =>
+  sessions
+    .flatMap(session => session.messages.flatMap((message, index) => {
+      if (message.role !== 'model' || !message.outputs) return [];
+      const prompt = session.messages.slice(0, index).reverse().find(m => m.role === 'user');
+      return [{ session, prompt, response: message }];
+    }))
+    .sort((a, b) => b.response.timestamp - a.response.timestamp);
+
+const searchableText = (entry: HistoryEntry) =>
+  [entry.session.title, entry.prompt?.text, ...(entry.prompt?.attachments || []).map(a => a.name), entry.response.outputs?.explanation, entry.response.outputs?.verification?.explanation]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+/** Every whitespace-separated term in the query must appear somewhere in the entry. */
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+  return entries.filter(entry => {
+    const text = searchableText(entry);
+    return terms.every(term => text.includes(term));
+  });
+};
+
+const snippet = (text: string, query: string, radius = 80) => {
+  const plain = text.replace(/[#*_`>]/g, '').replace(/\s+/g, ' ').trim();
+  const term = query.toLowerCase().split(/\s+/).find(Boolean);
+  const at = term ? plain.toLowerCase().indexOf(term) : -1;
+  if (at < 0) return plain.slice(0, radius * 2) + (plain.length > radius * 2 ? '…' : '');
+  const start = Math.max(0, at - radius);
+  return (start > 0 ? '…' : '') + plain.slice(start, at + radius) + (at + radius < plain.length ? '…' : '');
+};
+
+export const HistorySection: React.FC<HistorySectionProps> = ({ sessions, onReopen }) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+
+  const entries = useMemo(() => buildHistoryEntries(sessions), [sessions]);
+  const results = useMemo(() => searchHistory(entries, query), [entries, query]);
+
+  const renderOutputButton = (entry: HistoryEntry, tab: AppTab, label: string, icon: React.ReactNode, available: boolean) => available && (
+    <button
+      key={tab}
+      onClick={() => onReopen(entry.session.id, entry.response.id, tab)}
+      className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-bold bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black transition-colors"
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col pt-8 px-4 w-full h-full animate-fade-in max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('sidebar.history')}</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('history.subtitle')}</p>
+      </div>
+
+      <div className="relative mb-8">
+        <Search className="w-5 h-5 absolute start-4 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('history.searchPlaceholder')}
+          className="w-full p-4 ps-12 border border-gray-300 dark:border-gray-700 rounded-xl outline-none focus:border-black dark:focus:border-white transition-colors shadow-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        />
+      </div>
+
+      <div className="space-y-4 pb-8">
+        {results.length === 0 && (
+          <div className="p-8 text-center text-gray-400 dark:text-gray-500 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl">
+            <History className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>{entries.length === 0 ? t('history.empty') : t('history.noMatches')}</p>
+          </div>
+        )}
+
+        {results.map(entry => {
+          const outputs = entry.response.outputs!;
+          return (
+            <div key={entry.response.id} className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl p-5 shadow-sm">
+              <div className="flex items-center justify-between gap-4 text-xs text-gray-500 dark:text-gray-400 mb-2">
+                <span className="font-bold uppercase tracking-wide truncate">{entry.session.title}</span>
+                <span className="shrink-0">{new Date(entry.response.timestamp).toLocaleString()}</span>
+              </div>
+              {entry.prompt?.text && <h3 className="font-bold text-gray-900 dark:text-white mb-2 line-clamp-2">{entry.prompt.text}</h3>}
+              {entry.prompt?.attachments && <AttachmentChips attachments={entry.prompt.attachments} className="mb-3" />}
+              {outputs.explanation && (
+                <p className="text-sm text-gray-600 dark:text-gray-300 leading-relaxed mb-4">{snippet(outputs.explanation, query)}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                {renderOutputButton(entry, AppTab.EXPLANATION, t('output.explanation'), <FileText className="w-3.5 h-3.5" />, !!outputs.explanation)}
+                {renderOutputButton(entry, AppTab.VISUALS, t('output.visual'), <Eye className="w-3.5 h-3.5" />, !!outputs.visual)}
+                {renderOutputButton(entry, AppTab.SIMULATION, t('output.simulation'), <FlaskConical className="w-3.5 h-3.5" />, !!outputs.simulation)}
+                {renderOutputButton(entry, AppTab.VERIFY, t('output.verification'), <ShieldCheck className="w-3.5 h-3.5" />, !!outputs.verification)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
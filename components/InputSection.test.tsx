@@ -0,0 +1,76 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { InputSection } from './InputSection';
+import { setAIProvider } from '../services/aiProvider';
+import { createOpenAICompatibleProvider } from '../services/providers/openAICompatibleProvider';
+import { AttachmentBlob } from '../types';
+
+// jsdom has no IndexedDB; the attachments store is kept in memory.
+vi.mock('../services/storageService', () => {
+  const blobs = new Map<string, AttachmentBlob>();
+  return {
+    attachmentBlobRepository: {
+      get: async (id: string) => blobs.get(id),
+      put: async (item: AttachmentBlob) => { blobs.set(item.id, item); },
+      removeMany: async (ids: string[]) => { ids.forEach(id => blobs.delete(id)); },
+    },
+  };
+});
+
+describe('InputSection', () => {
+  it('sends several attachments with the message and clears them', async () => {
+    const onSendMessage = vi.fn();
+    const { container } = render(<InputSection onSendMessage={onSendMessage} isProcessing={false} />);
+    const picker = container.querySelector('input[type="file"]') as HTMLInputElement;
+
+    await userEvent.upload(picker, [
+      new File(['Heat flows from hot to cold.'], 'notes.txt', { type: 'text/plain' }),
+      new File([new Uint8Array([1, 2])], 'diagram.png', { type: 'image/png' }),
+    ]);
+    await waitFor(() => expect(screen.getByText('diagram.png')).toBeInTheDocument());
+
+    await userEvent.click(screen.getByRole('button', { name: 'Remove notes.txt' }));
+    await userEvent.type(screen.getByPlaceholderText(/Ask questions about these files/), 'What is shown?{Enter}');
+
+    expect(onSendMessage).toHaveBeenCalledWith('What is shown?', [expect.objectContaining({ name: 'diagram.png', kind: 'image' })]);
+    expect(screen.queryByText('diagram.png')).not.toBeInTheDocument();
+  });
+
+  it('sends attachments without any text', async () => {
+    const onSendMessage = vi.fn();
+    const { container } = render(<InputSection onSendMessage={onSendMessage} isProcessing={false} />);
+
+    await userEvent.upload(container.querySelector('input[type="file"]') as HTMLInputElement, new File(['x'], 'notes.md', { type: 'text/markdown' }));
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Send' })).toBeEnabled());
+    await userEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(onSendMessage).toHaveBeenCalledWith('', [expect.objectContaining({ name: 'notes.md', text: 'x' })]);
+  });
+
+  it("turns away audio the provider can't take", async () => {
+    setAIProvider(createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', models: { fast: 'llama3.1', reasoning: 'llama3.1' } }));
+    const alert = vi.spyOn(window, 'alert').mockImplementation(() => {});
+    const { container } = render(<InputSection onSendMessage={vi.fn()} isProcessing={false} />);
+
+    await userEvent.upload(container.querySelector('input[type="file"]') as HTMLInputElement, [
+      new File([new Uint8Array([1])], 'memo.ogg', { type: 'audio/ogg' }),
+      new File([new Uint8Array([1])], 'lecture.mp3', { type: 'audio/mpeg' }),
+    ]);
+    await waitFor(() => expect(screen.getByText('lecture.mp3')).toBeInTheDocument());
+    expect(screen.queryByText('memo.ogg')).not.toBeInTheDocument();
+    expect(alert).toHaveBeenCalledWith("Couldn't attach memo.ogg: the current AI provider only accepts WAV, MP3 audio.");
+  });
+
+  it('offers follow-up mode once there is an explanation', async () => {
+    const onToggleFollowUp = vi.fn();
+    const { rerender } = render(<InputSection onSendMessage={vi.fn()} isProcessing={false} onToggleFollowUp={onToggleFollowUp} />);
+    expect(screen.queryByRole('button', { name: /Follow-up/ })).not.toBeInTheDocument();
+
+    rerender(<InputSection onSendMessage={vi.fn()} isProcessing={false} canFollowUp isFollowUp onToggleFollowUp={onToggleFollowUp} />);
+    expect(screen.getByPlaceholderText('Ask a follow-up about this explanation...')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /Follow-up/ }));
+    expect(onToggleFollowUp).toHaveBeenCalled();
+  });
+});
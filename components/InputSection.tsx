@@ -1,54 +1,64 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { extractTextFromPdf } from '../services/pdfUtils';
-import { ChatMessage, AppTab } from '../types';
+import { ATTACHMENT_ACCEPT, discardAttachments, readAttachment, unsupportedAudio } from '../services/attachmentService';
+import { ChatMessage, AppTab, ChatAttachment } from '../types';
+import { AttachmentChips } from './AttachmentChips';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface InputSectionProps {
-  onSendMessage: (text: string) => void;
+  onSendMessage: (text: string, attachments: ChatAttachment[]) => void;
   isProcessing: boolean;
+  /** Follow-up mode: questions extend the current explanation instead of starting over. */
+  isFollowUp?: boolean;
+  canFollowUp?: boolean;
+  onToggleFollowUp?: () => void;
 }
 
 export const InputSection: React.FC<InputSectionProps> = ({ 
   onSendMessage,
   isProcessing,
+  isFollowUp = false,
+  canFollowUp = false,
+  onToggleFollowUp,
 }) => {
+  const { t } = useTranslation();
   const [inputText, setInputText] = useState('');
-  const [attachedFile, setAttachedFile] = useState<{name: string, content: string} | null>(null);
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isReading, setIsReading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    try {
-      if (file.type === 'application/pdf') {
-        const text = await extractTextFromPdf(file);
-        setAttachedFile({ name: file.name, content: text });
-      } else if (file.type.startsWith('text/')) {
-        const text = await file.text();
-        setAttachedFile({ name: file.name, content: text });
-      } else {
-        alert("Please upload a PDF or text file.");
-      }
-    } catch (error) {
-      console.error(error);
-      alert("Failed to read file.");
-    } finally {
-      if (fileInputRef.current) fileInputRef.current.value = '';
+    const files: File[] = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    // Audio the provider can't take is turned away now rather than failing the question.
+    const unsupported = files.filter(file => unsupportedAudio(file));
+    const readable = files.filter(file => !unsupported.includes(file));
+
+    setIsReading(true);
+    const results = await Promise.allSettled(readable.map(readAttachment));
+    setAttachments(prev => [...prev, ...results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []))]);
+    const failed = readable.filter((_, i) => results[i].status === 'rejected').map(file => file.name);
+    if (unsupported.length > 0) {
+        const formats = unsupportedAudio(unsupported[0])!.map(format => format.toUpperCase()).join(', ');
+        alert(t('input.audioUnsupported', { files: unsupported.map(file => file.name).join(', '), formats }));
     }
+    if (failed.length > 0) alert(t('input.attachFailed', { files: failed.join(', ') }));
+    setIsReading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleSend = () => {
-    const text = inputText.trim();
-    if ((!text && !attachedFile) || isProcessing) return;
+  const removeAttachment = (id: string) => {
+    discardAttachments(attachments.filter(a => a.id === id)).catch(error => console.error("Attachment cleanup error:", error));
+    setAttachments(prev => prev.filter(a => a.id !== id));
+  };
 
-    let fullContent = text;
-    if (attachedFile) {
-      fullContent = `${attachedFile.content}\n\nUser Context/File: ${attachedFile.name}\n${text}`;
-    }
-    
-    onSendMessage(fullContent);
+  const hasContent = !!inputText.trim() || attachments.length > 0;
+
+  const handleSend = () => {
+    if (!hasContent || isProcessing || isReading) return;
+    onSendMessage(inputText.trim(), attachments);
     setInputText('');
-    setAttachedFile(null);
+    setAttachments([]);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -59,40 +69,57 @@ export const InputSection: React.FC<InputSectionProps> = ({
   };
 
   return (
-    <div className="absolute bottom-0 left-0 w-full p-4 sm:p-6 bg-gradient-to-t from-white via-white dark:from-black dark:via-black to-transparent pointer-events-none z-20">
+    <div className="absolute bottom-0 start-0 w-full p-4 sm:p-6 bg-gradient-to-t from-white via-white dark:from-black dark:via-black to-transparent pointer-events-none z-20">
         <div className="max-w-3xl mx-auto pointer-events-auto">
             
             {/* Quick Action Chips */}
             <div className="flex justify-center gap-3 mb-4 animate-fade-in opacity-90">
                 <button className="bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 px-3 py-1.5 rounded-full text-xs font-medium text-gray-600 dark:text-gray-300 hover:border-pink-300 hover:text-pink-600 dark:hover:text-pink-400 transition-all flex items-center gap-1.5 shadow-sm group">
                     <i className="ph ph-cards text-pink-400 group-hover:text-pink-600 text-lg"></i> 
-                    <span>Create Flashcards ✨</span>
+                    <span>{t('input.flashcards')}</span>
                 </button>
-                {attachedFile && (
-                     <button 
-                        onClick={() => setAttachedFile(null)}
-                        className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 px-3 py-1.5 rounded-full text-xs font-medium text-blue-600 dark:text-blue-300 flex items-center gap-1.5 shadow-sm"
-                     >
-                        <i className="ph ph-file-text text-lg"></i>
-                        {attachedFile.name}
-                        <i className="ph ph-x ml-1 hover:text-red-500"></i>
+                {canFollowUp && onToggleFollowUp && (
+                    <button
+                        onClick={onToggleFollowUp}
+                        aria-pressed={isFollowUp}
+                        className={`backdrop-blur-sm border px-3 py-1.5 rounded-full text-xs font-medium transition-all flex items-center gap-1.5 shadow-sm ${
+                            isFollowUp
+                            ? 'bg-black dark:bg-white border-black dark:border-white text-white dark:text-black'
+                            : 'bg-white/90 dark:bg-gray-800/90 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-indigo-300 hover:text-indigo-600 dark:hover:text-indigo-400'
+                        }`}
+                    >
+                        <i className="ph ph-arrow-bend-down-right text-lg"></i>
+                        <span>{t('input.followUp')}</span>
                     </button>
                 )}
             </div>
 
+            <AttachmentChips
+                attachments={attachments}
+                onRemove={removeAttachment}
+                className="justify-center mb-3"
+            />
+
             {/* Input Container */}
             <div className="bg-white dark:bg-[#1a1a1a] border-2 border-gray-200 dark:border-gray-800 shadow-xl dark:shadow-black/50 rounded-[2rem] flex items-center px-4 py-2 transition-all hover:shadow-2xl hover:border-gray-300 dark:hover:border-gray-700 focus-within:border-gray-400 dark:focus-within:border-gray-600">
                 <button 
                     onClick={() => fileInputRef.current?.click()}
+                    disabled={isReading}
+                    aria-label={t('input.attach')}
                     className="p-3 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
                 >
-                    <i className="ph ph-paperclip text-xl"></i>
+                    {isReading ? (
+                        <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                    ) : (
+                        <i className="ph ph-paperclip text-xl"></i>
+                    )}
                 </button>
                 <input
                     type="file"
                     ref={fileInputRef}
                     onChange={handleFileUpload}
-                    accept=".pdf,.txt,.md"
+                    accept={ATTACHMENT_ACCEPT}
+                    multiple
                     className="hidden"
                 />
                 
@@ -101,7 +128,7 @@ export const InputSection: React.FC<InputSectionProps> = ({
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    placeholder={attachedFile ? "Ask questions about this file..." : "Ask anything, paste a link, or upload a doc..."}
+                    placeholder={isFollowUp && canFollowUp ? t('input.placeholderFollowUp') : attachments.length > 0 ? t('input.placeholderAttachments') : t('input.placeholder')}
                     className="flex-1 mx-2 sm:mx-4 bg-transparent outline-none text-gray-700 dark:text-gray-200 placeholder-gray-400 dark:placeholder-gray-600 font-medium h-12"
                     disabled={isProcessing}
                 />
@@ -112,9 +139,10 @@ export const InputSection: React.FC<InputSectionProps> = ({
                 
                 <button 
                     onClick={handleSend}
-                    disabled={(!inputText.trim() && !attachedFile) || isProcessing}
+                    disabled={!hasContent || isProcessing || isReading}
+                    aria-label={t('input.send')}
                     className={`p-3 rounded-full transition-all duration-200 ${
-                        (!inputText.trim() && !attachedFile) || isProcessing
+                        !hasContent || isProcessing || isReading
                         ? 'bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-600'
                         : 'bg-black dark:bg-white text-white dark:text-black hover:scale-105 active:scale-95'
                     }`}
@@ -122,13 +150,13 @@ export const InputSection: React.FC<InputSectionProps> = ({
                     {isProcessing ? (
                          <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" />
                     ) : (
-                        <i className="ph ph-arrow-right text-xl font-bold"></i>
+                        <i className="ph ph-arrow-right text-xl font-bold rtl:-scale-x-100"></i>
                     )}
                 </button>
             </div>
             
             <div className="text-center mt-4">
-                <p className="text-[10px] sm:text-xs text-gray-400 dark:text-gray-600">Gemini can make mistakes. Please review generated results.</p>
+                <p className="text-[10px] sm:text-xs text-gray-400 dark:text-gray-600">{t('input.disclaimer')}</p>
             </div>
         </div>
     </div>
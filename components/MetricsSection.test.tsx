@@ -0,0 +1,102 @@
+import React from 'react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MetricsSection, deriveMetrics } from './MetricsSection';
+import { MistakeItem, QuizResult } from '../types';
+import { resetSettings, updateSettings } from '../services/settingsService';
+
+const quiz = (score: number, totalQuestions: number, difficulty = 'Medium'): QuizResult => ({
+  id: `${score}-${totalQuestions}-${difficulty}`,
+  topic: 'Thermodynamics',
+  difficulty,
+  score,
+  totalQuestions,
+  timestamp: 0,
+});
+
+const mistake = (category: string, note = 'short'): MistakeItem => ({
+  id: Math.random().toString(),
+  questionId: 'q',
+  questionText: 'Question',
+  userAnswer: 'a',
+  correctAnswer: 'b',
+  category,
+  note,
+  topic: 'Thermodynamics',
+  timestamp: 0,
+});
+
+const score = (metrics: ReturnType<typeof deriveMetrics>, label: string) =>
+  metrics.find(m => m.label === label)!.score;
+
+describe('deriveMetrics', () => {
+  it('uses baseline scores with no data', () => {
+    const metrics = deriveMetrics([], []);
+    expect(score(metrics, 'Direct Recall')).toBe(3);
+    expect(score(metrics, 'Conceptual Understanding')).toBe(3);
+    expect(score(metrics, 'Application')).toBe(2);
+    expect(score(metrics, 'Time Efficiency')).toBe(4);
+  });
+
+  it('maps overall accuracy to recall and procedural scores', () => {
+    expect(score(deriveMetrics([], [quiz(10, 10)]), 'Direct Recall')).toBe(5);
+    expect(score(deriveMetrics([], [quiz(8, 10)]), 'Procedural Mastery')).toBe(4);
+    expect(score(deriveMetrics([], [quiz(6, 10)]), 'Direct Recall')).toBe(3);
+    expect(score(deriveMetrics([], [quiz(2, 10)]), 'Direct Recall')).toBe(2);
+  });
+
+  it('rewards passing a hard quiz with application and critical thinking', () => {
+    const metrics = deriveMetrics([], [quiz(7, 10, 'Hard')]);
+    expect(score(metrics, 'Application')).toBe(4);
+    expect(score(metrics, 'Critical Thinking')).toBe(3);
+  });
+
+  it('raises time efficiency when recent quizzes beat the average', () => {
+    const history = [quiz(10, 10), quiz(9, 10), quiz(10, 10), quiz(1, 10)];
+    expect(score(deriveMetrics([], history), 'Time Efficiency')).toBe(5);
+  });
+
+  it('penalises repeated concept and calculation errors', () => {
+    const mistakes = [
+      ...Array.from({ length: 3 }, () => mistake('Concept Error')),
+      ...Array.from({ length: 3 }, () => mistake('Calculation')),
+    ];
+    const metrics = deriveMetrics(mistakes, [quiz(8, 10)]);
+    expect(score(metrics, 'Conceptual Understanding')).toBe(2);
+    expect(score(metrics, 'Procedural Mastery')).toBe(3);
+  });
+
+  it('boosts concept understanding when quizzes show no concept errors', () => {
+    expect(score(deriveMetrics([], [quiz(5, 10)]), 'Conceptual Understanding')).toBe(4);
+  });
+
+  it('credits error correction for detailed mistake notes', () => {
+    const mistakes = Array.from({ length: 3 }, () => mistake('Guessing', 'I confused heat with temperature'));
+    expect(score(deriveMetrics(mistakes, []), 'Error Correction')).toBe(4);
+  });
+});
+
+describe('MetricsSection', () => {
+  it('lists metrics below threshold as blind spots', () => {
+    render(<MetricsSection mistakes={[]} quizHistory={[quiz(10, 10, 'Hard')]} />);
+    expect(screen.getByText(/based on 1 completed quizzes/)).toBeInTheDocument();
+    expect(screen.getByText('The following areas are below the required threshold:')).toBeInTheDocument();
+  });
+
+  it('leaves retries of wrong questions out', () => {
+    render(<MetricsSection mistakes={[]} quizHistory={[{ ...quiz(1, 1), id: 'retry', isRetry: true }, quiz(2, 10)]} />);
+    expect(screen.getByText(/based on 1 completed quizzes/)).toBeInTheDocument();
+  });
+
+  describe('in Amharic', () => {
+    afterEach(() => resetSettings());
+
+    it('translates headings and metric names', () => {
+      updateSettings({ language: 'am' });
+      render(<MetricsSection mistakes={[]} quizHistory={[quiz(10, 10, 'Hard')]} />);
+      expect(screen.getByText('የትምህርት መለኪያዎች')).toBeInTheDocument();
+      expect(screen.getAllByText('ቀጥተኛ ማስታወስ').length).toBeGreaterThan(0);
+      expect(screen.queryByText('Direct Recall')).not.toBeInTheDocument();
+    });
+  });
+});
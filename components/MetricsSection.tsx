@@ -1,9 +1,11 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Target, AlertTriangle, CheckCircle, Brain, RefreshCw } from 'lucide-react';
 import { Button } from './Button';
-import { MistakeItem, QuizResult } from '../types';
+import { MistakeItem, Project, QuizResult } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey, Translate, translate } from '../services/i18n';
 
-interface Metric {
+export interface Metric {
   id: number;
   label: string;
   score: number; // 1-5
@@ -12,76 +14,92 @@ interface Metric {
   category: 'Core' | 'Advanced' | 'Performance';
 }
 
+const CATEGORY_LABELS: Record<Metric['category'], MessageKey> = {
+  Core: 'metrics.category.Core',
+  Advanced: 'metrics.category.Advanced',
+  Performance: 'metrics.category.Performance',
+};
+
 interface MetricsSectionProps {
   mistakes: MistakeItem[];
   quizHistory: QuizResult[];
+  projects?: Project[];
+  initialProjectId?: string | null;
 }
 
-export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHistory }) => {
+// --- REAL-TIME CALCULATION LOGIC ---
+export const deriveMetrics = (mistakes: MistakeItem[], quizHistory: QuizResult[], t: Translate = (key) => translate('en', key)): Metric[] => {
+  // Default Scores (start at 3)
+  let recall = 3;
+  let concept = 3;
+  let procedural = 3;
+  let application = 2;
+  let critical = 2;
+  let errorCorrection = 3;
+  let speed = 4; // Assume reasonable speed by default
+
+  const totalQuizzes = quizHistory.length;
   
-  // --- REAL-TIME CALCULATION LOGIC ---
-  const metrics = useMemo<Metric[]>(() => {
-    // Default Scores (start at 3)
-    let recall = 3;
-    let concept = 3;
-    let procedural = 3;
-    let application = 2;
-    let critical = 2;
-    let errorCorrection = 3;
-    let speed = 4; // Assume reasonable speed by default
+  if (totalQuizzes > 0) {
+      // Calculate average accuracy
+      const totalCorrect = quizHistory.reduce((acc, q) => acc + q.score, 0);
+      const totalQuestions = quizHistory.reduce((acc, q) => acc + q.totalQuestions, 0);
+      const accuracy = totalQuestions > 0 ? (totalCorrect / totalQuestions) : 0;
+
+      // Base scores on accuracy
+      if (accuracy > 0.9) { recall = 5; procedural = 5; }
+      else if (accuracy > 0.75) { recall = 4; procedural = 4; }
+      else if (accuracy > 0.5) { recall = 3; procedural = 3; }
+      else { recall = 2; procedural = 2; }
 
-    const totalQuizzes = quizHistory.length;
-    
-    if (totalQuizzes > 0) {
-        // Calculate average accuracy
-        const totalCorrect = quizHistory.reduce((acc, q) => acc + q.score, 0);
-        const totalQuestions = quizHistory.reduce((acc, q) => acc + q.totalQuestions, 0);
-        const accuracy = totalQuestions > 0 ? (totalCorrect / totalQuestions) : 0;
+      // Adjust based on Difficulty
+      const hardPasses = quizHistory.filter(q => q.difficulty === 'Hard' && (q.score / q.totalQuestions) > 0.6).length;
+      if (hardPasses > 0) {
+          application += 2;
+          critical += 1;
+      }
+      
+      // Adjust based on Recent Trend (Last 3)
+      const recent = quizHistory.slice(0, 3);
+      const recentAccuracy = recent.reduce((acc, q) => acc + q.score, 0) / recent.reduce((acc, q) => acc + q.totalQuestions, 0);
+      if (recentAccuracy > accuracy) speed += 1; // Improving implies efficiency
+  }
 
-        // Base scores on accuracy
-        if (accuracy > 0.9) { recall = 5; procedural = 5; }
-        else if (accuracy > 0.75) { recall = 4; procedural = 4; }
-        else if (accuracy > 0.5) { recall = 3; procedural = 3; }
-        else { recall = 2; procedural = 2; }
+  // Adjust based on Mistake Categories
+  const conceptErrors = mistakes.filter(m => m.category === 'Concept Error').length;
+  if (conceptErrors > 2) concept = Math.max(1, concept - 1);
+  if (conceptErrors === 0 && totalQuizzes > 0) concept = Math.min(5, concept + 1);
 
-        // Adjust based on Difficulty
-        const hardPasses = quizHistory.filter(q => q.difficulty === 'Hard' && (q.score / q.totalQuestions) > 0.6).length;
-        if (hardPasses > 0) {
-            application += 2;
-            critical += 1;
-        }
-        
-        // Adjust based on Recent Trend (Last 3)
-        const recent = quizHistory.slice(0, 3);
-        const recentAccuracy = recent.reduce((acc, q) => acc + q.score, 0) / recent.reduce((acc, q) => acc + q.totalQuestions, 0);
-        if (recentAccuracy > accuracy) speed += 1; // Improving implies efficiency
-    }
+  const calcErrors = mistakes.filter(m => m.category === 'Calculation').length;
+  if (calcErrors > 2) procedural = Math.max(1, procedural - 1);
+
+  // Error Correction: Do we have note content?
+  const detailedNotes = mistakes.filter(m => m.note.length > 10).length;
+  if (detailedNotes > 2) errorCorrection = Math.min(5, errorCorrection + 1);
 
-    // Adjust based on Mistake Categories
-    const conceptErrors = mistakes.filter(m => m.category === 'Concept Error').length;
-    if (conceptErrors > 2) concept = Math.max(1, concept - 1);
-    if (conceptErrors === 0 && totalQuizzes > 0) concept = Math.min(5, concept + 1);
+  return [
+    { id: 1, label: t('metrics.recall'), score: recall, required: 4, category: 'Core', description: t('metrics.recall.description') },
+    { id: 2, label: t('metrics.concept'), score: concept, required: 4, category: 'Core', description: t('metrics.concept.description') },
+    { id: 3, label: t('metrics.procedural'), score: procedural, required: 4, category: 'Core', description: t('metrics.procedural.description') },
+    { id: 4, label: t('metrics.application'), score: Math.min(5, application), required: 4, category: 'Core', description: t('metrics.application.description') },
+    { id: 5, label: t('metrics.creative'), score: 3, required: 3, category: 'Advanced', description: t('metrics.creative.description') },
+    { id: 6, label: t('metrics.critical'), score: Math.min(5, critical), required: 3, category: 'Advanced', description: t('metrics.critical.description') },
+    { id: 7, label: t('metrics.synthesis'), score: 2, required: 3, category: 'Advanced', description: t('metrics.synthesis.description') },
+    { id: 8, label: t('metrics.speed'), score: Math.min(5, speed), required: 3, category: 'Performance', description: t('metrics.speed.description') },
+    { id: 9, label: t('metrics.errorCorrection'), score: errorCorrection, required: 4, category: 'Core', description: t('metrics.errorCorrection.description') },
+    { id: 10, label: t('metrics.depth'), score: 4, required: 3, category: 'Performance', description: t('metrics.depth.description') },
+  ];
+};
 
-    const calcErrors = mistakes.filter(m => m.category === 'Calculation').length;
-    if (calcErrors > 2) procedural = Math.max(1, procedural - 1);
+export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes: allMistakes, quizHistory: allQuizHistory, projects = [], initialProjectId = null }) => {
+  const { t, language } = useTranslation();
+  const [projectFilter, setProjectFilter] = useState<string>(initialProjectId || 'all');
 
-    // Error Correction: Do we have note content?
-    const detailedNotes = mistakes.filter(m => m.note.length > 10).length;
-    if (detailedNotes > 2) errorCorrection = Math.min(5, errorCorrection + 1);
+  const mistakes = useMemo(() => projectFilter === 'all' ? allMistakes : allMistakes.filter(m => m.projectId === projectFilter), [allMistakes, projectFilter]);
+  // A retry reruns questions already counted in its quiz, so it isn't a quiz of its own.
+  const quizHistory = useMemo(() => allQuizHistory.filter(q => !q.isRetry && (projectFilter === 'all' || q.projectId === projectFilter)), [allQuizHistory, projectFilter]);
 
-    return [
-      { id: 1, label: 'Direct Recall', score: recall, required: 4, category: 'Core', description: 'Ability to retrieve specific facts without cues.' },
-      { id: 2, label: 'Conceptual Understanding', score: concept, required: 4, category: 'Core', description: 'Grasping the underlying principles and relationships.' },
-      { id: 3, label: 'Procedural Mastery', score: procedural, required: 4, category: 'Core', description: 'Executing steps or methods correctly.' },
-      { id: 4, label: 'Application', score: Math.min(5, application), required: 4, category: 'Core', description: 'Using knowledge in new, unfamiliar situations.' },
-      { id: 5, label: 'Creative Thinking', score: 3, required: 3, category: 'Advanced', description: 'Generating novel ideas or divergent solutions.' },
-      { id: 6, label: 'Critical Thinking', score: Math.min(5, critical), required: 3, category: 'Advanced', description: 'Evaluating arguments and identifying biases.' },
-      { id: 7, label: 'Synthesis', score: 2, required: 3, category: 'Advanced', description: 'Integrating separate elements into a coherent whole.' },
-      { id: 8, label: 'Time Efficiency', score: Math.min(5, speed), required: 3, category: 'Performance', description: 'Speed plus accuracy in execution.' },
-      { id: 9, label: 'Error Correction', score: errorCorrection, required: 4, category: 'Core', description: 'Ability to self-identify and fix mistakes.' },
-      { id: 10, label: 'Depth of Explanation', score: 4, required: 3, category: 'Performance', description: 'Richness and detail in articulated answers.' },
-    ];
-  }, [mistakes, quizHistory]);
+  const metrics = useMemo<Metric[]>(() => deriveMetrics(mistakes, quizHistory, t), [mistakes, quizHistory, language]);
 
   const blindSpots = useMemo(() => {
     return metrics.filter(m => m.score < m.required);
@@ -171,20 +189,34 @@ export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHi
         <div>
             <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-3">
                 <Target className="w-8 h-8 text-indigo-600" />
-                Learning Metrics
+                {t('metrics.title')}
             </h1>
             <p className="text-gray-500 dark:text-gray-400 mt-2 max-w-2xl">
-                Real-time analysis of your cognitive performance based on {quizHistory.length} completed quizzes.
+                {t('metrics.subtitle', { count: quizHistory.length })}
             </p>
         </div>
         <div className="flex items-center gap-4 bg-white dark:bg-gray-900 p-3 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm">
+            {projects.length > 0 && (
+                <>
+                    <select
+                        value={projectFilter}
+                        onChange={(e) => setProjectFilter(e.target.value)}
+                        aria-label={t('metrics.filterProject')}
+                        className="p-2 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg outline-none text-gray-700 dark:text-gray-200"
+                    >
+                        <option value="all">{t('metrics.allProjects')}</option>
+                        {projects.map(p => <option key={p.id} value={p.id}>{p.name}{p.isArchived ? t('metrics.archived') : ''}</option>)}
+                    </select>
+                    <div className="h-8 w-px bg-gray-200 dark:bg-gray-700"></div>
+                </>
+            )}
             <div className="text-right">
-                <div className="text-xs text-gray-500 uppercase font-bold tracking-wider">Overall</div>
+                <div className="text-xs text-gray-500 uppercase font-bold tracking-wider">{t('metrics.overall')}</div>
                 <div className="text-2xl font-bold text-gray-900 dark:text-white">{overallScore} <span className="text-sm text-gray-400 font-normal">/ 5.0</span></div>
             </div>
             <div className="h-8 w-px bg-gray-200 dark:bg-gray-700"></div>
             <Button variant="ghost" icon={<RefreshCw className="w-4 h-4" />}>
-                Live Data
+                {t('metrics.liveData')}
             </Button>
         </div>
       </div>
@@ -196,7 +228,7 @@ export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHi
             <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 shadow-sm border border-gray-200 dark:border-gray-800 flex flex-col items-center justify-center relative">
                 <h3 className="absolute top-6 left-6 font-bold text-gray-900 dark:text-white flex items-center gap-2">
                     <Brain className="w-4 h-4 text-purple-500" />
-                    Cognitive Profile
+                    {t('metrics.profile')}
                 </h3>
                 <div className="mt-8 mb-4">
                     {renderRadarChart()}
@@ -206,21 +238,21 @@ export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHi
             <div className="bg-white dark:bg-gray-900 rounded-2xl p-6 shadow-sm border border-gray-200 dark:border-gray-800">
                 <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2 mb-4">
                     <AlertTriangle className="w-5 h-5 text-amber-500" />
-                    Blind Spot Analysis
+                    {t('metrics.blindSpots')}
                 </h3>
                 
                 {blindSpots.length === 0 ? (
                     <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-xl border border-green-100 dark:border-green-800 text-center">
                         <CheckCircle className="w-8 h-8 text-green-500 mx-auto mb-2" />
-                        <h4 className="font-bold text-green-800 dark:text-green-300">All Systems Go!</h4>
+                        <h4 className="font-bold text-green-800 dark:text-green-300">{t('metrics.allClear')}</h4>
                         <p className="text-sm text-green-700 dark:text-green-400 mt-1">
-                            You are meeting or exceeding all required thresholds.
+                            {t('metrics.allClearHint')}
                         </p>
                     </div>
                 ) : (
                     <div className="space-y-3">
                         <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                            The following areas are below the required threshold:
+                            {t('metrics.belowThreshold')}
                         </p>
                         {blindSpots.map(metric => (
                             <div key={metric.id} className="p-3 bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 rounded-lg flex items-start gap-3">
@@ -230,7 +262,7 @@ export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHi
                                 <div>
                                     <div className="font-semibold text-red-800 dark:text-red-300 text-sm">{metric.label}</div>
                                     <div className="text-xs text-red-600 dark:text-red-400 mt-0.5">
-                                        Req: {metric.required} • {metric.category}
+                                        {t('metrics.required', { required: metric.required, category: t(CATEGORY_LABELS[metric.category]) })}
                                     </div>
                                 </div>
                             </div>
@@ -247,11 +279,7 @@ export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHi
                     <div key={score} className="flex items-center gap-2">
                         <div className={`w-3 h-3 rounded-full ${score < 3 ? 'bg-red-500' : score === 3 ? 'bg-amber-500' : 'bg-emerald-500'}`}></div>
                         <span className="text-xs font-medium text-gray-600 dark:text-gray-400">
-                            {score === 1 && "No Evidence"}
-                            {score === 2 && "Partial"}
-                            {score === 3 && "Passing"}
-                            {score === 4 && "Strong"}
-                            {score === 5 && "Fluent"}
+                            {t(`metrics.level.${score}` as MessageKey)}
                         </span>
                     </div>
                 ))}
@@ -270,7 +298,7 @@ export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHi
                                             metric.category === 'Advanced' ? 'bg-purple-50 text-purple-600 border-purple-100 dark:bg-purple-900/20 dark:border-purple-800' :
                                             'bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700'
                                         }`}>
-                                            {metric.category}
+                                            {t(CATEGORY_LABELS[metric.category])}
                                         </span>
                                     </h4>
                                     <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{metric.description}</p>
@@ -281,7 +309,7 @@ export const MetricsSection: React.FC<MetricsSectionProps> = ({ mistakes, quizHi
                             </div>
                             <div className="relative h-2.5 bg-gray-100 dark:bg-gray-800 rounded-full mt-3 overflow-hidden">
                                 <div className={`absolute top-0 left-0 h-full rounded-full transition-all duration-1000 ease-out ${getBarColor(metric.score, metric.required)}`} style={{ width: `${(metric.score / 5) * 100}%` }}></div>
-                                <div className="absolute top-0 bottom-0 w-0.5 bg-black/20 dark:bg-white/30 z-10" style={{ left: `${(metric.required / 5) * 100}%` }} title={`Required: ${metric.required}`}></div>
+                                <div className="absolute top-0 bottom-0 w-0.5 bg-black/20 dark:bg-white/30 z-10" style={{ left: `${(metric.required / 5) * 100}%` }} title={t('metrics.requiredTitle', { required: metric.required })}></div>
                             </div>
                         </div>
                     ))}
@@ -0,0 +1,92 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MistakeNotebook } from './MistakeNotebook';
+import { MistakeItem } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const choiceMistake: MistakeItem = {
+  id: 'm1',
+  questionId: 'c1',
+  questionText: 'Which law states that energy cannot be created or destroyed?',
+  userAnswer: 'Second Law',
+  correctAnswer: 'First Law',
+  category: 'Concept Error',
+  note: 'Mixed up the laws.',
+  topic: 'Thermodynamics',
+  timestamp: Date.now() - DAY_MS,
+  question: { type: 'choose', question: { id: 'c1', question: 'Which law states that energy cannot be created or destroyed?', options: ['First Law', 'Second Law'], correctAnswer: 'First Law' } },
+};
+
+const oldMistake: MistakeItem = {
+  id: 'm2',
+  questionId: 'f1',
+  questionText: 'Complete the statement.',
+  userAnswer: 'enthalpy',
+  correctAnswer: 'entropy',
+  category: 'Concept Error',
+  note: 'No note provided',
+  topic: 'Thermodynamics',
+  timestamp: Date.now() - DAY_MS,
+};
+
+const scheduledMistake: MistakeItem = {
+  ...oldMistake,
+  id: 'm3',
+  review: { easeFactor: 2.5, intervalDays: 6, repetitions: 2, dueAt: Date.now() + 6 * DAY_MS, lastReviewedAt: Date.now() },
+};
+
+const renderNotebook = (mistakes: MistakeItem[]) => {
+  const props = { mistakes, onBack: vi.fn(), onUpdateNote: vi.fn(), onDeleteMistake: vi.fn(), onReviewMistake: vi.fn() };
+  render(<MistakeNotebook {...props} />);
+  return { user: userEvent.setup(), props };
+};
+
+describe('MistakeNotebook review', () => {
+  it('queues only the cards due today and shows when the rest are due', () => {
+    renderNotebook([choiceMistake, scheduledMistake]);
+    expect(screen.getByRole('button', { name: /Review Due \(1\)/ })).toBeEnabled();
+    expect(screen.getByText('Due now')).toBeInTheDocument();
+    expect(screen.getByText('Due in 6 days')).toBeInTheDocument();
+  });
+
+  it('asks the original question again and schedules it from the answer', async () => {
+    const { user, props } = renderNotebook([choiceMistake]);
+    await user.click(screen.getByRole('button', { name: /Review Due/ }));
+    expect(screen.getByText('Card 1 of 1')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'First Law' }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText('Correct')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Again/ })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Good/ }));
+    expect(props.onReviewMistake).toHaveBeenCalledWith('m1', expect.objectContaining({ intervalDays: 1, repetitions: 1, easeFactor: 2.5 }));
+    expect(screen.getByText('Review complete')).toBeInTheDocument();
+  });
+
+  it('only offers Again after a wrong answer and brings the card back', async () => {
+    const { user, props } = renderNotebook([choiceMistake]);
+    await user.click(screen.getByRole('button', { name: /Review Due/ }));
+    await user.click(screen.getByRole('button', { name: 'Second Law' }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText('Incorrect')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Good/ })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Again/ }));
+    expect(props.onReviewMistake).toHaveBeenCalledWith('m1', expect.objectContaining({ intervalDays: 0, repetitions: 0 }));
+    expect(screen.getByText('Card 2 of 2')).toBeInTheDocument();
+  });
+
+  it('shows older mistakes as flashcards rated by hand', async () => {
+    const { user, props } = renderNotebook([oldMistake]);
+    await user.click(screen.getByRole('button', { name: /Review Due/ }));
+    await user.click(screen.getByRole('button', { name: 'Show Answer' }));
+    expect(screen.getByText('entropy')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Hard/ }));
+    expect(props.onReviewMistake).toHaveBeenCalledWith('m2', expect.objectContaining({ intervalDays: 1 }));
+  });
+});
@@ -1,19 +1,36 @@
 import React, { useState } from 'react';
-import { MistakeItem } from '../types';
+import { MistakeItem, ReviewSchedule } from '../types';
+import { describeDue, reviewQueue } from '../services/reviewService';
 import { Button } from './Button';
-import { ArrowLeft, Filter, Play, Sparkles, Trash2, Edit2 } from 'lucide-react';
+import { ReviewSession } from './ReviewSession';
+import { ArrowLeft, Filter, Play, Sparkles, Trash2, Edit2, CalendarClock } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../services/i18n';
+
+// Categories are saved on the mistake in English, so Metrics can group by them in any language.
+export const MISTAKE_CATEGORIES: Record<string, MessageKey> = {
+  'Concept Error': 'quiz.category.Concept Error',
+  'Calculation': 'quiz.category.Calculation',
+  'Misread Question': 'quiz.category.Misread Question',
+  'Guessing': 'quiz.category.Guessing',
+};
 
 interface MistakeNotebookProps {
   mistakes: MistakeItem[];
   onBack: () => void;
   onUpdateNote: (id: string, note: string) => void;
   onDeleteMistake: (id: string) => void;
+  onReviewMistake: (id: string, review: ReviewSchedule) => void;
 }
 
-export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBack, onUpdateNote, onDeleteMistake }) => {
+export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBack, onUpdateNote, onDeleteMistake, onReviewMistake }) => {
+  const { t } = useTranslation();
   const [filter, setFilter] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  // Cards of the running review session, if any
+  const [reviewCards, setReviewCards] = useState<MistakeItem[] | null>(null);
+  const dueToday = reviewQueue(mistakes);
 
   const handleEditStart = (item: MistakeItem) => {
     setEditingId(item.id);
@@ -25,6 +42,10 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBa
     setEditingId(null);
   };
 
+  if (reviewCards) {
+    return <ReviewSession cards={reviewCards} onReview={onReviewMistake} onExit={() => setReviewCards(null)} />;
+  }
+
   return (
     <div className="flex flex-col h-full animate-fade-in bg-gray-50/50 dark:bg-black/50 overflow-hidden">
       
@@ -35,13 +56,20 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBa
                 <ArrowLeft className="w-5 h-5" />
             </button>
             <div>
-                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Mistake Notebook</h1>
-                <p className="text-sm text-gray-500 dark:text-gray-400">Review and edit your error cards.</p>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('quiz.mistakeNotebook')}</h1>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('mistakes.subtitle')} {t('review.dueToday', { count: dueToday.length })}</p>
             </div>
         </div>
         <div className="flex gap-2">
-            <Button variant="secondary" icon={<Filter className="w-4 h-4"/>}>Filter</Button>
-            <Button className="bg-black dark:bg-white text-white dark:text-black" icon={<Play className="w-4 h-4 fill-current"/>}>Review All</Button>
+            <Button variant="secondary" icon={<Filter className="w-4 h-4"/>}>{t('mistakes.filter')}</Button>
+            <Button
+              onClick={() => setReviewCards(dueToday)}
+              disabled={dueToday.length === 0}
+              className="bg-black dark:bg-white text-white dark:text-black"
+              icon={<Play className="w-4 h-4 fill-current"/>}
+            >
+              {t('review.reviewDue', { count: dueToday.length })}
+            </Button>
         </div>
       </div>
 
@@ -52,7 +80,7 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBa
                 <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
                     <Sparkles className="w-8 h-8 opacity-50" />
                 </div>
-                <p>Great job! No mistakes recorded yet.</p>
+                <p>{t('mistakes.empty')}</p>
             </div>
         ) : (
             <div className="space-y-6 max-w-4xl mx-auto">
@@ -62,9 +90,12 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBa
                         {/* Card Header */}
                         <div className="bg-red-50 dark:bg-red-900/10 border-b border-red-100 dark:border-red-900/30 px-6 py-3 flex justify-between items-center">
                             <span className="text-xs font-bold text-red-600 dark:text-red-400 uppercase tracking-wider flex items-center gap-2">
-                                {item.topic} • {item.category}
+                                {item.topic} • {MISTAKE_CATEGORIES[item.category] ? t(MISTAKE_CATEGORIES[item.category]) : item.category}
                             </span>
-                            <div className="flex gap-2">
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1 me-2" title={item.review ? t('review.ease', { ease: item.review.easeFactor.toFixed(2) }) : t('review.notReviewed')}>
+                                    <CalendarClock className="w-3 h-3" /> {describeDue(item, Date.now(), t)}
+                                </span>
                                 <button onClick={() => handleEditStart(item)} className="text-gray-400 hover:text-blue-500 transition-colors"><Edit2 className="w-4 h-4"/></button>
                                 <button onClick={() => onDeleteMistake(item.id)} className="text-gray-400 hover:text-red-500 transition-colors"><Trash2 className="w-4 h-4"/></button>
                             </div>
@@ -74,12 +105,12 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBa
                             <h3 className="font-bold text-gray-900 dark:text-white text-lg mb-4">{item.questionText}</h3>
                             
                             <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg mb-6 text-sm">
-                                <div className="mb-2 text-red-600 dark:text-red-400 font-medium">Your Answer: <span className="text-gray-700 dark:text-gray-300 font-normal">{item.userAnswer}</span></div>
-                                <div className="text-green-600 dark:text-green-400 font-medium">Correct Answer: <span className="text-gray-700 dark:text-gray-300 font-normal">{item.correctAnswer}</span></div>
+                                <div className="mb-2 text-red-600 dark:text-red-400 font-medium">{t('mistakes.yourAnswer')} <span className="text-gray-700 dark:text-gray-300 font-normal">{item.userAnswer}</span></div>
+                                <div className="text-green-600 dark:text-green-400 font-medium">{t('mistakes.correctAnswer')} <span className="text-gray-700 dark:text-gray-300 font-normal">{item.correctAnswer}</span></div>
                             </div>
 
                             <div className="space-y-2">
-                                <label className="text-xs font-bold text-gray-500 uppercase">Your Mistake Note</label>
+                                <label className="text-xs font-bold text-gray-500 uppercase">{t('mistakes.note')}</label>
                                 {editingId === item.id ? (
                                     <div className="flex flex-col gap-2">
                                         <textarea 
@@ -89,8 +120,8 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBa
                                             rows={2}
                                         />
                                         <div className="flex justify-end gap-2">
-                                            <Button variant="ghost" onClick={() => setEditingId(null)} className="h-8 text-xs">Cancel</Button>
-                                            <Button onClick={() => handleSave(item.id)} className="h-8 text-xs">Save</Button>
+                                            <Button variant="ghost" onClick={() => setEditingId(null)} className="h-8 text-xs">{t('mistakes.cancel')}</Button>
+                                            <Button onClick={() => handleSave(item.id)} className="h-8 text-xs">{t('mistakes.save')}</Button>
                                         </div>
                                     </div>
                                 ) : (
@@ -102,7 +133,7 @@ export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ mistakes, onBa
 
                             <div className="mt-6 pt-4 border-t border-gray-100 dark:border-gray-800 flex justify-end">
                                 <button className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-xs font-medium text-gray-600 dark:text-gray-300 hover:border-pink-300 hover:text-pink-500 transition-colors shadow-sm">
-                                    Create Flashcards <Sparkles className="w-3 h-3 text-yellow-400" />
+                                    {t('mistakes.createFlashcards')} <Sparkles className="w-3 h-3 text-yellow-400" />
                                 </button>
                             </div>
                         </div>
@@ -0,0 +1,91 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PasteLinkSection } from './PasteLinkSection';
+import { SourceItem } from '../types';
+import { extractPdf } from '../services/pdfUtils';
+
+vi.mock('../services/pdfUtils', () => ({ extractPdf: vi.fn() }));
+
+const sources: SourceItem[] = [
+  { id: 's1', type: 'website', title: 'Heat article', url: 'https://example.com/heat', metadata: 'example.com', isSelected: true },
+  { id: 's2', type: 'pdf', title: 'Lecture notes.pdf', metadata: 'Local File', isSelected: false },
+];
+
+const renderSources = (onAddSource = vi.fn(() => null as SourceItem | null)) => {
+  const props = {
+    sources,
+    onAddSource,
+    onToggleSource: vi.fn(),
+    onDeleteSource: vi.fn(),
+    onDeleteSelected: vi.fn(),
+    onRenameSource: vi.fn(),
+    onReorderSource: vi.fn(),
+  };
+  render(<PasteLinkSection {...props} />);
+  return props;
+};
+
+const stubExtraction = (status: number, body: object) => {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('PasteLinkSection', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('imports the extracted text of a pasted link', async () => {
+    const fetchMock = stubExtraction(200, { type: 'youtube', title: 'Entropy in 5 minutes', metadata: 'youtube.com • 5 mins', content: '[0:00] Entropy' });
+    const props = renderSources();
+    await userEvent.type(screen.getByPlaceholderText(/Paste YouTube URL/), 'https://youtu.be/abc{Enter}');
+    expect(fetchMock).toHaveBeenCalledWith('/__extract?url=https%3A%2F%2Fyoutu.be%2Fabc');
+    expect(props.onAddSource).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'youtube', url: 'https://youtu.be/abc', title: 'Entropy in 5 minutes', content: '[0:00] Entropy',
+    }));
+    expect(screen.queryByText(/already in your sources/)).not.toBeInTheDocument();
+  });
+
+  it('keeps an unreadable link unselected and without text', async () => {
+    stubExtraction(502, { error: 'Fetching failed: 403' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const props = renderSources();
+    await userEvent.type(screen.getByPlaceholderText(/Paste YouTube URL/), 'https://youtu.be/abc{Enter}');
+    expect(props.onAddSource).toHaveBeenCalledWith(expect.objectContaining({ type: 'youtube', url: 'https://youtu.be/abc', isSelected: false, content: '' }));
+    expect(screen.getByText(/Couldn't read https:\/\/youtu.be\/abc/)).toBeInTheDocument();
+  });
+
+  it('downloads linked PDFs through the proxy and reads them like uploads', async () => {
+    const fetchMock = vi.fn(async () => new Response('%PDF-1.4', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.mocked(extractPdf).mockResolvedValue({ text: 'Carnot efficiency', chunks: [], numPages: 2 });
+    const props = renderSources();
+    await userEvent.type(screen.getByPlaceholderText(/Paste YouTube URL/), 'https://example.com/notes.pdf?dl=1{Enter}');
+    expect(fetchMock).toHaveBeenCalledWith('/__extract?raw=1&url=https%3A%2F%2Fexample.com%2Fnotes.pdf%3Fdl%3D1');
+    expect(vi.mocked(extractPdf).mock.calls[0][0].type).toBe('application/pdf');
+    expect(props.onAddSource).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'pdf', title: 'notes.pdf', url: 'https://example.com/notes.pdf?dl=1', isSelected: true, content: 'Carnot efficiency',
+    }));
+  });
+
+  it('tells the user when a link is already imported', async () => {
+    stubExtraction(200, { type: 'website', title: 'Heat', metadata: 'example.com', content: 'Heat' });
+    renderSources(vi.fn(() => sources[0]));
+    await userEvent.type(screen.getByPlaceholderText(/Paste YouTube URL/), 'example.com/heat{Enter}');
+    expect(screen.getByText(/"Heat article" is already in your sources/)).toBeInTheDocument();
+  });
+
+  it('renames and reorders sources', async () => {
+    const props = renderSources();
+    await userEvent.click(screen.getAllByTitle('Rename Source')[1]);
+    const field = screen.getByDisplayValue('Lecture notes.pdf');
+    await userEvent.clear(field);
+    await userEvent.type(field, 'Week 1 notes{Enter}');
+    expect(props.onRenameSource).toHaveBeenCalledWith('s2', 'Week 1 notes');
+
+    expect(screen.getAllByTitle('Move Up')[0]).toBeDisabled();
+    await userEvent.click(screen.getAllByTitle('Move Up')[1]);
+    expect(props.onReorderSource).toHaveBeenCalledWith('s2', 0);
+  });
+});
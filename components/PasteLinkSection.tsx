@@ -1,15 +1,45 @@
 import React, { useState, useRef } from 'react';
 import { SourceItem } from '../types';
 import { Button } from './Button';
-import { extractTextFromPdf } from '../services/pdfUtils';
-import { Youtube, FileText, Globe, Image as ImageIcon, Trash2, Upload, Link as LinkIcon, CheckSquare, Square } from 'lucide-react';
+import { extractPdf } from '../services/pdfUtils';
+import { extractImageContent } from '../services/ocrService';
+import { hashFile } from '../services/sourceUtils';
+import { extractUrlContent, fetchRemoteFile } from '../services/urlExtractionService';
+import { useTranslation } from '../hooks/useTranslation';
+import { Youtube, FileText, Globe, Image as ImageIcon, Trash2, Upload, Link as LinkIcon, CheckSquare, Square, Edit2, Check, X, ChevronUp, ChevronDown } from 'lucide-react';
+
+const LINKED_FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf', jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif'
+};
+
+// The MIME type of a link to a PDF or image, judged by its path so query strings don't matter.
+const linkedFileType = (url: string): string | undefined => {
+  try {
+    return LINKED_FILE_TYPES[new URL(url).pathname.match(/\.(\w+)$/)?.[1].toLowerCase() ?? ''];
+  } catch {
+    return undefined;
+  }
+};
+
+// Host and file name of a link, to describe a source whose link couldn't be read.
+const describeLink = (url: string) => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return { host: hostname.replace(/^www\./, ''), name: decodeURIComponent(pathname.split('/').pop() || '') };
+  } catch {
+    return { host: '', name: '' };
+  }
+};
 
 interface PasteLinkSectionProps {
   sources: SourceItem[];
-  onAddSource: (item: SourceItem) => void;
+  /** Returns the existing source when the item is a duplicate and was not added. */
+  onAddSource: (item: SourceItem) => SourceItem | null;
   onToggleSource: (id: string) => void;
   onDeleteSource: (id: string) => void;
   onDeleteSelected: () => void;
+  onRenameSource: (id: string, title: string) => void;
+  onReorderSource: (id: string, toIndex: number) => void;
 }
 
 export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
@@ -17,47 +47,100 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
   onAddSource,
   onToggleSource,
   onDeleteSource,
-  onDeleteSelected
+  onDeleteSelected,
+  onRenameSource,
+  onReorderSource
 }) => {
+  const { t } = useTranslation();
   const [inputValue, setInputValue] = useState('');
   const [isUploading, setIsUploading] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // --- HELPERS ---
 
-  const handleImport = () => {
-    if (!inputValue.trim()) return;
-    
-    // Simple heuristics to determine type (Mocking metadata extraction)
+  const addSource = (item: SourceItem, notice: string | null = null) => {
+    const duplicate = onAddSource(item);
+    setNotice(duplicate ? t('sources.duplicate', { title: duplicate.title }) : notice);
+  };
+
+  const handleRenameSave = (id: string) => {
+    if (editValue.trim()) onRenameSource(id, editValue.trim());
+    setEditingId(null);
+  };
+
+  // Reads a PDF, image or text file, whether uploaded or downloaded from a link.
+  const readFile = async (file: File) => {
     let type: SourceItem['type'] = 'website';
-    let title = inputValue;
-    let metadata = 'website.com';
-
-    if (inputValue.includes('youtube.com') || inputValue.includes('youtu.be')) {
-        type = 'youtube';
-        title = 'New YouTube Video';
-        metadata = 'youtube.com • Just Added';
-    } else if (inputValue.endsWith('.pdf')) {
+    let content = '';
+    let chunks: SourceItem['chunks'];
+    let details = '';
+
+    if (file.type === 'application/pdf') {
         type = 'pdf';
-        title = inputValue.split('/').pop() || 'Document.pdf';
-        metadata = 'Remote File';
-    } else if (inputValue.match(/\.(jpeg|jpg|png|gif)$/)) {
+        const pdf = await extractPdf(file, (pagesRead, numPages) => setProgress(t('sources.readingPage', { page: pagesRead, total: numPages })));
+        content = pdf.text;
+        chunks = pdf.chunks;
+        details = ` • ${pdf.numPages === 1 ? t('sources.onePage') : t('sources.pages', { count: pdf.numPages })}`;
+    } else if (file.type.startsWith('image/')) {
         type = 'image';
-        title = inputValue.split('/').pop() || 'Image';
-        metadata = 'Remote Image';
+        content = await extractImageContent(file, setProgress, t);
+    } else if (file.type.startsWith('text/') || file.name.endsWith('.md') || file.name.endsWith('.txt')) {
+        type = 'website'; // Generic text doc
+        content = await file.text();
     }
 
-    const newItem: SourceItem = {
-        id: Date.now().toString(),
-        type,
-        title,
-        url: inputValue,
-        metadata,
-        isSelected: true,
-        content: `Source URL: ${inputValue}` // Basic placeholder content for URLs
-    };
-
-    onAddSource(newItem);
+    return { type, content, chunks, details, size: `${(file.size / 1024 / 1024).toFixed(1)} MB` };
+  };
+
+  const handleImport = async () => {
+    const raw = inputValue.trim();
+    if (!raw) return;
+    const url = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+    const fileType = linkedFileType(url);
+
+    setIsUploading(true);
+    try {
+      // Everything is fetched through the dev-server proxy: articles and videos
+      // come back as text, PDFs and images are read like uploaded files.
+      if (fileType) {
+        const file = await fetchRemoteFile(url, fileType);
+        const read = await readFile(file);
+        addSource({
+            id: Date.now().toString(),
+            type: read.type,
+            title: file.name,
+            url,
+            metadata: `${t(read.type === 'image' ? 'sources.remoteImage' : 'sources.remoteFile')}${read.details} • ${read.size}`,
+            isSelected: true,
+            contentHash: await hashFile(file),
+            content: read.content,
+            chunks: read.chunks
+        });
+      } else {
+        const extracted = await extractUrlContent(url);
+        addSource({ id: Date.now().toString(), url, isSelected: true, ...extracted });
+      }
+    } catch {
+      // The link is kept to retry later, but without text there's nothing to send, so it starts unselected.
+      const { host, name } = describeLink(url);
+      const isVideo = /(^|\.)(youtube\.com|youtu\.be)$/i.test(host);
+      addSource({
+          id: Date.now().toString(),
+          type: isVideo ? 'youtube' : fileType === 'application/pdf' ? 'pdf' : fileType ? 'image' : 'website',
+          title: isVideo ? t('sources.newVideo') : name || raw,
+          url,
+          metadata: host,
+          isSelected: false,
+          content: ''
+      }, t('sources.readFailed', { url }));
+    } finally {
+      setIsUploading(false);
+      setProgress(null);
+    }
     setInputValue('');
   };
 
@@ -68,37 +151,26 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
       setIsUploading(true);
 
       try {
-        let type: SourceItem['type'] = 'website';
-        let extractedContent = '';
-
-        if (file.type === 'application/pdf') {
-            type = 'pdf';
-            extractedContent = await extractTextFromPdf(file);
-        } else if (file.type.startsWith('image/')) {
-            type = 'image';
-            // In a real app, we might OCR here. For now:
-            extractedContent = `[Image File: ${file.name}]`;
-        } else if (file.type.startsWith('text/') || file.name.endsWith('.md') || file.name.endsWith('.txt')) {
-            type = 'website'; // Generic text doc
-            extractedContent = await file.text();
-        }
-        
+        const read = await readFile(file);
         const newItem: SourceItem = {
             id: Date.now().toString(),
-            type,
+            type: read.type,
             title: file.name,
-            metadata: `Local File • ${(file.size / 1024 / 1024).toFixed(1)} MB`,
+            metadata: `${t('sources.localFile')}${read.details} • ${read.size}`,
             isSelected: true,
             file: file,
-            content: extractedContent
+            contentHash: await hashFile(file),
+            content: read.content,
+            chunks: read.chunks
         };
 
-        onAddSource(newItem);
+        addSource(newItem);
       } catch (error) {
         console.error("File processing failed", error);
-        alert("Failed to process file. Please try again.");
+        alert(t('sources.processFailed'));
       } finally {
         setIsUploading(false);
+        setProgress(null);
         if (fileInputRef.current) fileInputRef.current.value = '';
       }
   };
@@ -129,7 +201,7 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
 
   return (
     <div className="flex flex-col items-center pt-8 px-4 w-full h-full animate-fade-in max-w-4xl mx-auto">
-        <h1 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white self-start w-full">Manage Sources</h1>
+        <h1 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white self-start w-full">{t('sources.title')}</h1>
         
         {/* Input Area */}
         <div className="w-full flex gap-2 mb-8">
@@ -139,7 +211,7 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
                     value={inputValue}
                     onChange={(e) => setInputValue(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    placeholder="Paste YouTube URL, Article Link, or drop PDF..." 
+                    placeholder={t('sources.placeholder')}
                     className="w-full p-4 pr-12 border border-gray-300 dark:border-gray-700 rounded-xl outline-none focus:border-black dark:focus:border-white transition-colors shadow-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
                     disabled={isUploading}
                 />
@@ -147,7 +219,7 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
                 <button 
                     onClick={() => fileInputRef.current?.click()}
                     className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
-                    title="Upload File"
+                    title={t('sources.upload')}
                     disabled={isUploading}
                 >
                     {isUploading ? <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin" /> : <Upload className="w-5 h-5" />}
@@ -165,26 +237,37 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
                 disabled={isUploading}
                 className="bg-black dark:bg-white text-white dark:text-black px-8 rounded-xl font-bold hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors disabled:opacity-50"
              >
-                Import
+                {t('sources.import')}
              </button>
         </div>
 
+        {progress && (
+            <div role="status" className="w-full -mt-4 mb-6 text-sm text-gray-500 dark:text-gray-400">{progress}</div>
+        )}
+
+        {notice && (
+            <div className="w-full -mt-4 mb-6 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300 flex items-center justify-between gap-4">
+                <span>{notice}</span>
+                <button onClick={() => setNotice(null)} title={t('sources.dismiss')}><X className="w-4 h-4" /></button>
+            </div>
+        )}
+
         {/* Sources List */}
         <div className="w-full">
             <div className="flex justify-between items-end mb-3">
-                <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">Available Sources</h3>
-                <span className="text-xs text-gray-400">Select sources to include in context</span>
+                <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">{t('sources.available')}</h3>
+                <span className="text-xs text-gray-400">{t('sources.selectHint')}</span>
             </div>
 
             <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm overflow-hidden">
                 {sources.length === 0 && (
                     <div className="p-8 text-center text-gray-400 dark:text-gray-500">
                         <LinkIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                        <p>No sources added yet.</p>
+                        <p>{t('sources.empty')}</p>
                     </div>
                 )}
 
-                {sources.map((source) => (
+                {sources.map((source, index) => (
                     <div 
                         key={source.id} 
                         className={`flex items-center gap-4 p-4 border-b border-gray-100 dark:border-gray-800 last:border-0 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors group cursor-pointer ${!source.isSelected ? 'opacity-60 bg-gray-50/50 dark:bg-gray-900/50' : ''}`}
@@ -202,14 +285,34 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
                         </div>
                         
                         <div className="flex-1 min-w-0">
-                            <h4 className="font-bold text-sm text-gray-900 dark:text-gray-100 truncate">{source.title}</h4>
+                            {editingId === source.id ? (
+                                <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                                    <input
+                                        autoFocus
+                                        value={editValue}
+                                        onChange={(e) => setEditValue(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleRenameSave(source.id)}
+                                        className="flex-1 p-1 bg-white dark:bg-black border border-gray-300 dark:border-gray-700 rounded outline-none text-sm"
+                                    />
+                                    <button onClick={() => handleRenameSave(source.id)} className="text-green-600" title={t('sources.save')}><Check className="w-4 h-4" /></button>
+                                    <button onClick={() => setEditingId(null)} className="text-gray-400" title={t('sources.cancel')}><X className="w-4 h-4" /></button>
+                                </div>
+                            ) : (
+                                <h4 className="font-bold text-sm text-gray-900 dark:text-gray-100 truncate">{source.title}</h4>
+                            )}
                             <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{source.metadata}</p>
                         </div>
+
+                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                            <button onClick={() => { setEditingId(source.id); setEditValue(source.title); }} className="p-1.5 text-gray-400 hover:text-blue-500" title={t('sources.rename')}><Edit2 className="w-4 h-4" /></button>
+                            <button onClick={() => onReorderSource(source.id, index - 1)} disabled={index === 0} className="p-1.5 text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-30" title={t('sources.moveUp')}><ChevronUp className="w-4 h-4" /></button>
+                            <button onClick={() => onReorderSource(source.id, index + 1)} disabled={index === sources.length - 1} className="p-1.5 text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-30" title={t('sources.moveDown')}><ChevronDown className="w-4 h-4" /></button>
+                        </div>
                         
                         <button 
                             onClick={(e) => { e.stopPropagation(); onDeleteSource(source.id); }}
                             className="p-2 text-gray-300 dark:text-gray-600 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all" 
-                            title="Delete Source"
+                            title={t('sources.delete')}
                         >
                             <Trash2 className="w-5 h-5" />
                         </button>
@@ -225,7 +328,7 @@ export const PasteLinkSection: React.FC<PasteLinkSectionProps> = ({
                         className="bg-white dark:bg-gray-900 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 px-5 py-2.5 rounded-xl font-bold hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors flex items-center gap-2 shadow-sm text-sm"
                     >
                         <Trash2 className="w-4 h-4" />
-                        Delete Selected ({selectedCount})
+                        {t('sources.deleteSelected', { count: selectedCount })}
                     </button>
                 </div>
             )}
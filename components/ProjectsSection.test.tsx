@@ -0,0 +1,61 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ProjectsSection } from './ProjectsSection';
+import { ChatSession, Project } from '../types';
+
+const project = (id: string, name: string, isArchived = false): Project => ({ id, name, createdAt: 0, isArchived });
+
+const session = (id: string, title: string, projectId?: string): ChatSession => ({
+  id, title, messages: [], createdAt: 0, ...(projectId ? { projectId } : {}),
+});
+
+const renderProjects = (overrides: Partial<React.ComponentProps<typeof ProjectsSection>> = {}) => {
+  const props: React.ComponentProps<typeof ProjectsSection> = {
+    projects: [project('p1', 'Thermo 201'), project('p2', 'Old Course', true)],
+    activeProjectId: null,
+    sessions: [session('s1', 'Entropy', 'p1'), session('s2', 'Loose notes')],
+    sources: [],
+    mistakes: [],
+    quizHistory: [],
+    onCreateProject: vi.fn(),
+    onRenameProject: vi.fn(),
+    onToggleArchiveProject: vi.fn(),
+    onOpenProject: vi.fn(),
+    onMoveSession: vi.fn(),
+    onMoveSource: vi.fn(),
+    onSelectSession: vi.fn(),
+    onManageSources: vi.fn(),
+    ...overrides,
+  };
+  render(<ProjectsSection {...props} />);
+  return props;
+};
+
+describe('ProjectsSection', () => {
+  it('creates a project from the name field', async () => {
+    const props = renderProjects();
+    await userEvent.type(screen.getByPlaceholderText(/New project name/), 'Calculus{Enter}');
+    expect(props.onCreateProject).toHaveBeenCalledWith('Calculus');
+  });
+
+  it('hides archived projects until asked', async () => {
+    renderProjects();
+    expect(screen.queryByText('Old Course')).not.toBeInTheDocument();
+    await userEvent.click(screen.getByLabelText('Show archived'));
+    expect(screen.getByText('Old Course')).toBeInTheDocument();
+  });
+
+  it('lists only the selected project\'s sessions and can add others', async () => {
+    const props = renderProjects();
+    await userEvent.click(screen.getByText('Thermo 201'));
+    expect(screen.getByText('Entropy')).toBeInTheDocument();
+
+    await userEvent.selectOptions(screen.getByDisplayValue('+ Add an existing session...'), 's2');
+    expect(props.onMoveSession).toHaveBeenCalledWith('s2', 'p1');
+
+    await userEvent.click(screen.getByText('Open Project'));
+    expect(props.onOpenProject).toHaveBeenCalledWith('p1');
+  });
+});
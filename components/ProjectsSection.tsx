@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { ChatSession, MistakeItem, Project, QuizResult, SourceItem } from '../types';
+import { Button } from './Button';
+import { useTranslation } from '../hooks/useTranslation';
+import { Folder, FolderPlus, Archive, ArchiveRestore, Edit2, Check, X, FileText, MessageSquare, Target, AlertTriangle, ArrowRight } from 'lucide-react';
+
+interface ProjectsSectionProps {
+  projects: Project[];
+  activeProjectId: string | null;
+  sessions: ChatSession[];
+  sources: SourceItem[];
+  mistakes: MistakeItem[];
+  quizHistory: QuizResult[];
+  onCreateProject: (name: string) => void;
+  onRenameProject: (id: string, name: string) => void;
+  onToggleArchiveProject: (id: string) => void;
+  onOpenProject: (id: string | null) => void;
+  onMoveSession: (sessionId: string, projectId: string | null) => void;
+  onMoveSource: (sourceId: string, projectId: string | null) => void;
+  onSelectSession: (id: string) => void;
+  onManageSources: () => void;
+}
+
+export const ProjectsSection: React.FC<ProjectsSectionProps> = ({
+  projects,
+  activeProjectId,
+  sessions,
+  sources,
+  mistakes,
+  quizHistory,
+  onCreateProject,
+  onRenameProject,
+  onToggleArchiveProject,
+  onOpenProject,
+  onMoveSession,
+  onMoveSource,
+  onSelectSession,
+  onManageSources
+}) => {
+  const { t } = useTranslation();
+  const [newName, setNewName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(activeProjectId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const visibleProjects = projects.filter(p => showArchived || !p.isArchived);
+  const selected = projects.find(p => p.id === selectedId) || null;
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreateProject(newName.trim());
+    setNewName('');
+  };
+
+  const handleRenameSave = (id: string) => {
+    if (editValue.trim()) onRenameProject(id, editValue.trim());
+    setEditingId(null);
+  };
+
+  const statsFor = (projectId: string) => {
+    const quizzes = quizHistory.filter(q => q.projectId === projectId && !q.isRetry);
+    const totalQuestions = quizzes.reduce((acc, q) => acc + q.totalQuestions, 0);
+    return {
+      sessions: sessions.filter(s => s.projectId === projectId).length,
+      sources: sources.filter(s => s.projectId === projectId).length,
+      mistakes: mistakes.filter(m => m.projectId === projectId).length,
+      quizzes: quizzes.length,
+      accuracy: totalQuestions > 0 ? Math.round(quizzes.reduce((acc, q) => acc + q.score, 0) / totalQuestions * 100) : null,
+    };
+  };
+
+  const renderDetail = (project: Project) => {
+    const stats = statsFor(project.id);
+    const projectSessions = sessions.filter(s => s.projectId === project.id);
+    const projectSources = sources.filter(s => s.projectId === project.id);
+    const otherSessions = sessions.filter(s => s.projectId !== project.id);
+    const otherSources = sources.filter(s => s.projectId !== project.id);
+    const isActive = activeProjectId === project.id;
+
+    return (
+      <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-2xl shadow-sm p-6 space-y-8">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{project.name}</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {t('projects.created', { date: new Date(project.createdAt).toLocaleDateString() })}{project.isArchived ? t('projects.archivedSuffix') : ''}
+            </p>
+          </div>
+          {isActive ? (
+            <Button variant="secondary" onClick={() => onOpenProject(null)} icon={<X className="w-4 h-4" />}>{t('projects.close')}</Button>
+          ) : (
+            <Button onClick={() => onOpenProject(project.id)} disabled={project.isArchived} className="bg-black dark:bg-white text-white dark:text-black" icon={<ArrowRight className="w-4 h-4" />}>
+              {t('projects.open')}
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            { label: t('projects.sessions'), value: stats.sessions, icon: <MessageSquare className="w-4 h-4" /> },
+            { label: t('projects.sources'), value: stats.sources, icon: <FileText className="w-4 h-4" /> },
+            { label: t('projects.quizzes'), value: stats.accuracy !== null ? `${stats.quizzes} • ${stats.accuracy}%` : stats.quizzes, icon: <Target className="w-4 h-4" /> },
+            { label: t('projects.mistakes'), value: stats.mistakes, icon: <AlertTriangle className="w-4 h-4" /> },
+          ].map(stat => (
+            <div key={stat.label} className="p-3 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700">
+              <div className="flex items-center gap-2 text-xs font-bold text-gray-500 uppercase tracking-wide">{stat.icon}{stat.label}</div>
+              <div className="text-xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Sessions */}
+        <div>
+          <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide mb-3">{t('projects.sessions')}</h3>
+          <div className="border border-gray-200 dark:border-gray-800 rounded-xl overflow-hidden">
+            {projectSessions.length === 0 && <p className="p-4 text-sm text-gray-400">{t('projects.noSessions')}</p>}
+            {projectSessions.map(session => (
+              <div key={session.id} className="flex items-center gap-3 p-3 border-b border-gray-100 dark:border-gray-800 last:border-0">
+                <MessageSquare className="w-4 h-4 text-gray-400 shrink-0" />
+                <button onClick={() => onSelectSession(session.id)} className="flex-1 text-start text-sm font-medium text-gray-800 dark:text-gray-200 truncate hover:underline">{session.title}</button>
+                <button onClick={() => onMoveSession(session.id, null)} className="text-xs text-gray-400 hover:text-red-500" title={t('projects.removeFromProject')}>{t('projects.remove')}</button>
+              </div>
+            ))}
+          </div>
+          {otherSessions.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && onMoveSession(e.target.value, project.id)}
+              className="mt-2 w-full p-2 text-sm bg-white dark:bg-black border border-gray-300 dark:border-gray-700 rounded-lg outline-none"
+            >
+              <option value="">{t('projects.addSession')}</option>
+              {otherSessions.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+            </select>
+          )}
+        </div>
+
+        {/* Source Library */}
+        <div>
+          <div className="flex justify-between items-end mb-3">
+            <h3 className="font-bold text-gray-700 dark:text-gray-300 text-sm uppercase tracking-wide">{t('projects.sourceLibrary')}</h3>
+            {isActive && <button onClick={onManageSources} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:underline">{t('sources.title')}</button>}
+          </div>
+          <div className="border border-gray-200 dark:border-gray-800 rounded-xl overflow-hidden">
+            {projectSources.length === 0 && <p className="p-4 text-sm text-gray-400">{t('projects.noSources')}</p>}
+            {projectSources.map(source => (
+              <div key={source.id} className="flex items-center gap-3 p-3 border-b border-gray-100 dark:border-gray-800 last:border-0">
+                <FileText className="w-4 h-4 text-gray-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{source.title}</div>
+                  <div className="text-xs text-gray-500 truncate">{source.metadata}</div>
+                </div>
+                <button onClick={() => onMoveSource(source.id, null)} className="text-xs text-gray-400 hover:text-red-500" title={t('projects.removeFromProject')}>{t('projects.remove')}</button>
+              </div>
+            ))}
+          </div>
+          {otherSources.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && onMoveSource(e.target.value, project.id)}
+              className="mt-2 w-full p-2 text-sm bg-white dark:bg-black border border-gray-300 dark:border-gray-700 rounded-lg outline-none"
+            >
+              <option value="">{t('projects.addSource')}</option>
+              {otherSources.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+            </select>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col pt-8 px-4 w-full h-full animate-fade-in max-w-6xl mx-auto">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('sidebar.projects')}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('projects.subtitle')}</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="accent-indigo-600" />
+          {t('projects.showArchived')}
+        </label>
+      </div>
+
+      <div className="w-full flex gap-2 mb-8">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder={t('projects.namePlaceholder')}
+          className="flex-1 p-4 border border-gray-300 dark:border-gray-700 rounded-xl outline-none focus:border-black dark:focus:border-white transition-colors shadow-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="bg-black dark:bg-white text-white dark:text-black px-6 rounded-xl font-bold hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center gap-2"
+        >
+          <FolderPlus className="w-5 h-5" /> {t('projects.create')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 pb-8">
+        <div className="lg:col-span-5 space-y-3">
+          {visibleProjects.length === 0 && (
+            <div className="p-8 text-center text-gray-400 dark:text-gray-500 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl">
+              <Folder className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>{t('projects.empty')}</p>
+            </div>
+          )}
+          {visibleProjects.map(project => {
+            const stats = statsFor(project.id);
+            return (
+              <div
+                key={project.id}
+                onClick={() => setSelectedId(project.id)}
+                className={`p-4 rounded-xl border cursor-pointer transition-colors group ${
+                  selectedId === project.id
+                    ? 'border-black dark:border-white bg-gray-50 dark:bg-gray-800'
+                    : 'border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 hover:bg-gray-50 dark:hover:bg-gray-800'
+                } ${project.isArchived ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center gap-3">
+                  <Folder className={`w-5 h-5 shrink-0 ${activeProjectId === project.id ? 'text-indigo-600 dark:text-indigo-400 fill-current' : 'text-gray-400'}`} />
+                  {editingId === project.id ? (
+                    <div className="flex-1 flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        autoFocus
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRenameSave(project.id)}
+                        className="flex-1 p-1 bg-white dark:bg-black border border-gray-300 dark:border-gray-700 rounded outline-none text-sm"
+                      />
+                      <button onClick={() => handleRenameSave(project.id)} className="text-green-600" title={t('projects.save')}><Check className="w-4 h-4" /></button>
+                      <button onClick={() => setEditingId(null)} className="text-gray-400" title={t('projects.cancel')}><X className="w-4 h-4" /></button>
+                    </div>
+                  ) : (
+                    <>
+                      <span className="flex-1 font-bold text-sm text-gray-900 dark:text-gray-100 truncate">{project.name}</span>
+                      <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                        <button onClick={() => { setEditingId(project.id); setEditValue(project.name); }} className="text-gray-400 hover:text-blue-500" title={t('projects.rename')}><Edit2 className="w-4 h-4" /></button>
+                        <button onClick={() => onToggleArchiveProject(project.id)} className="text-gray-400 hover:text-amber-500" title={project.isArchived ? t('projects.restore') : t('projects.archive')}>
+                          {project.isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 ms-8">
+                  {t('projects.summary', { sessions: stats.sessions, sources: stats.sources, quizzes: stats.quizzes })}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="lg:col-span-7">
+          {selected ? renderDetail(selected) : (
+            <div className="h-full min-h-[200px] flex items-center justify-center text-center text-gray-400 dark:text-gray-500 border-2 border-dashed border-gray-200 dark:border-gray-800 rounded-2xl p-8">
+              {t('projects.selectHint')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
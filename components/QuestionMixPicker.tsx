@@ -0,0 +1,53 @@
+import React from 'react';
+import { QuestionMix, QuestionType } from '../types';
+import { MAX_MIX_WEIGHT, QUESTION_TYPES, splitQuestionCount } from '../services/quizService';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../services/i18n';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, MessageKey> = {
+  'choose': 'questionType.choose',
+  'fill-blank': 'questionType.fill-blank',
+  'match': 'questionType.match',
+  'answer': 'questionType.answer',
+};
+
+interface QuestionMixPickerProps {
+  mix: QuestionMix;
+  /** Total questions, used to show how many each type gets. */
+  count: number;
+  onChange: (mix: QuestionMix) => void;
+}
+
+export const QuestionMixPicker: React.FC<QuestionMixPickerProps> = ({ mix, count, onChange }) => {
+  const { t } = useTranslation();
+  const counts = splitQuestionCount(count, mix);
+
+  // At least one type has to stay in the quiz.
+  const handleChange = (type: QuestionType, weight: number) => {
+    const next = { ...mix, [type]: weight };
+    if (QUESTION_TYPES.some(other => next[other] > 0)) onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {QUESTION_TYPES.map(type => (
+        <div key={type} className="grid grid-cols-[8rem_1fr_5.5rem] items-center gap-3">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{t(QUESTION_TYPE_LABELS[type])}</span>
+          <input
+            type="range"
+            min="0"
+            max={MAX_MIX_WEIGHT}
+            step="1"
+            value={mix[type]}
+            onChange={(e) => handleChange(type, parseInt(e.target.value))}
+            aria-label={t('questionMix.share', { type: t(QUESTION_TYPE_LABELS[type]) })}
+            className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+          <span className={`text-xs text-end font-mono ${counts[type] > 0 ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-400'}`}>
+            {t(counts[type] === 1 ? 'questionMix.one' : 'questionMix.many', { count: counts[type] })}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { QuestionOutcome, QuizItem, QuizResponse } from '../types';
+import { QUESTION_TYPES, describeQuizAnswer, formatDuration } from '../services/quizService';
+import { formatGradeReason } from '../services/gradingService';
+import { Button } from './Button';
+import { QUESTION_TYPE_LABELS } from './QuestionMixPicker';
+import { useTranslation } from '../hooks/useTranslation';
+import { CheckCircle, CircleDashed, Clock, MinusCircle, Play, RotateCcw, XCircle } from 'lucide-react';
+
+interface QuizResultsProps {
+  topic: string;
+  run: QuizItem[];
+  /** Checked questions, keyed by their index in `run`. */
+  responses: Record<number, QuizResponse>;
+  onRetry: (items: QuizItem[]) => void;
+  onNewQuiz: () => void;
+}
+
+const credit = (outcome: QuestionOutcome) => outcome.credit ?? (outcome.isCorrect ? 1 : 0);
+
+const roundScore = (score: number) => Math.round(score * 10) / 10;
+
+const StatusBadge: React.FC<{ response?: QuizResponse }> = ({ response }) => {
+  const { t } = useTranslation();
+  if (!response) {
+    return <span className="inline-flex items-center gap-1 text-xs font-bold text-gray-400"><MinusCircle className="w-4 h-4" /> {t('results.skipped')}</span>;
+  }
+  const { outcome } = response;
+  if (outcome.isCorrect) {
+    return <span className="inline-flex items-center gap-1 text-xs font-bold text-green-700 dark:text-green-400"><CheckCircle className="w-4 h-4" /> {t('quiz.correct')}</span>;
+  }
+  if (credit(outcome) > 0) {
+    return <span className="inline-flex items-center gap-1 text-xs font-bold text-amber-700 dark:text-amber-400"><CircleDashed className="w-4 h-4" /> {t('results.partial', { percent: Math.round(credit(outcome) * 100) })}</span>;
+  }
+  return <span className="inline-flex items-center gap-1 text-xs font-bold text-red-700 dark:text-red-400"><XCircle className="w-4 h-4" /> {t('quiz.incorrect')}</span>;
+};
+
+export const QuizResults: React.FC<QuizResultsProps> = ({ topic, run, responses, onRetry, onNewQuiz }) => {
+  const { t } = useTranslation();
+  const answered = run.map((_, i) => responses[i]).filter(Boolean) as QuizResponse[];
+  const score = answered.reduce((sum, r) => sum + credit(r.outcome), 0);
+  const totalTime = answered.reduce((sum, r) => sum + r.outcome.timeTakenMs, 0);
+  const wrongItems = run.filter((_, i) => responses[i] && !responses[i].outcome.isCorrect);
+
+  const breakdown = QUESTION_TYPES.map(type => {
+    const indexes = run.map((item, i) => (item.type === type ? i : -1)).filter(i => i >= 0);
+    const checked = indexes.map(i => responses[i]).filter(Boolean) as QuizResponse[];
+    return {
+      type,
+      total: indexes.length,
+      answered: checked.length,
+      score: checked.reduce((sum, r) => sum + credit(r.outcome), 0),
+      averageMs: checked.length ? checked.reduce((sum, r) => sum + r.outcome.timeTakenMs, 0) / checked.length : 0,
+    };
+  }).filter(row => row.total > 0);
+
+  return (
+    <div className="flex flex-col items-center pt-8 px-4 w-full h-full overflow-y-auto animate-fade-in custom-scrollbar">
+      <div className="max-w-4xl w-full pb-20">
+        <div className="flex justify-between items-end mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('results.title')}</h1>
+            <p className="text-gray-500 dark:text-gray-400 mt-1">{t('quiz.topic')} <span className="font-semibold text-indigo-600 dark:text-indigo-400">{topic}</span></p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => onRetry(wrongItems)} disabled={wrongItems.length === 0} icon={<RotateCcw className="w-4 h-4" />}>
+              {t('results.retryWrong', { count: wrongItems.length })}
+            </Button>
+            <Button onClick={onNewQuiz} icon={<Play className="w-4 h-4" />}>
+              {t('results.newQuiz')}
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-4 mb-8">
+          <div className="p-4 rounded-2xl border-2 border-gray-200 dark:border-gray-800">
+            <div className="text-xs font-bold text-gray-500 uppercase mb-1">{t('results.score')}</div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">{roundScore(score)} / {answered.length}</div>
+            <div className="text-sm text-gray-500">{answered.length ? Math.round((score / answered.length) * 100) : 0}%</div>
+          </div>
+          <div className="p-4 rounded-2xl border-2 border-gray-200 dark:border-gray-800">
+            <div className="text-xs font-bold text-gray-500 uppercase mb-1">{t('results.answered')}</div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">{t('results.answeredOf', { answered: answered.length, total: run.length })}</div>
+            <div className="text-sm text-gray-500">{t('results.skippedCount', { count: run.length - answered.length })}</div>
+          </div>
+          <div className="p-4 rounded-2xl border-2 border-gray-200 dark:border-gray-800">
+            <div className="text-xs font-bold text-gray-500 uppercase mb-1">{t('results.time')}</div>
+            <div className="text-2xl font-bold font-mono text-gray-900 dark:text-white">{formatDuration(totalTime)}</div>
+            <div className="text-sm text-gray-500">{t('results.timeHint')}</div>
+          </div>
+        </div>
+
+        {/* Per-type breakdown */}
+        <h2 className="font-bold text-gray-700 dark:text-gray-300 mb-3 text-xs uppercase tracking-wider">{t('results.byType')}</h2>
+        <table className="w-full mb-8 text-sm">
+          <thead>
+            <tr className="text-start text-xs text-gray-500 border-b border-gray-200 dark:border-gray-800">
+              <th className="py-2 text-start font-medium">{t('results.type')}</th>
+              <th className="py-2 text-start font-medium">{t('results.score')}</th>
+              <th className="py-2 text-start font-medium">{t('results.skipped')}</th>
+              <th className="py-2 text-start font-medium">{t('results.averageTime')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.map(row => (
+              <tr key={row.type} className="border-b border-gray-100 dark:border-gray-800/50">
+                <td className="py-2 font-medium text-gray-800 dark:text-gray-200">{t(QUESTION_TYPE_LABELS[row.type])}</td>
+                <td className="py-2 font-mono">{roundScore(row.score)} / {row.answered}</td>
+                <td className="py-2 font-mono">{row.total - row.answered}</td>
+                <td className="py-2 font-mono">{row.answered ? formatDuration(row.averageMs) : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Review */}
+        <h2 className="font-bold text-gray-700 dark:text-gray-300 mb-3 text-xs uppercase tracking-wider">{t('results.review')}</h2>
+        <ol className="space-y-3">
+          {run.map((item, i) => {
+            const response = responses[i];
+            const { questionText, userAnswer, correctAnswer } = describeQuizAnswer(item, response || { selectedOption: '', textInput: '', matchSelections: {} });
+            const reason = response?.blankGrade?.reason || response?.grade?.feedback;
+            return (
+              <li key={`${item.type}:${item.question.id}`} className="p-4 rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-black">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs font-bold text-gray-500 uppercase">{i + 1}. {t(QUESTION_TYPE_LABELS[item.type])}</span>
+                  <div className="flex items-center gap-3">
+                    {response && (
+                      <span className="inline-flex items-center gap-1 text-xs font-mono text-gray-400"><Clock className="w-3 h-3" /> {formatDuration(response.outcome.timeTakenMs)}</span>
+                    )}
+                    <StatusBadge response={response} />
+                  </div>
+                </div>
+                <p className="font-medium text-gray-800 dark:text-gray-100 mb-2">{item.type === 'fill-blank' ? item.question.sentence : questionText}</p>
+                <dl className="grid grid-cols-[8rem_1fr] gap-x-3 gap-y-1 text-sm">
+                  <dt className="text-gray-500">{t('results.yourAnswer')}</dt>
+                  <dd className={response ? (response.outcome.isCorrect ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400') : 'text-gray-400'}>
+                    {response ? userAnswer || t('results.noAnswer') : t('results.notAnswered')}
+                  </dd>
+                  <dt className="text-gray-500">{t('results.correctAnswer')}</dt>
+                  <dd className="text-gray-800 dark:text-gray-200">{correctAnswer}</dd>
+                </dl>
+                {reason && <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">{formatGradeReason(reason, t)}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { GradeReason, MistakeItem, QuizAnswerInput, ReviewRating, ReviewSchedule } from '../types';
+import { describeQuizAnswer } from '../services/quizService';
+import { formatGradeReason, gradeQuizAnswer } from '../services/gradingService';
+import { scheduleReview } from '../services/reviewService';
+import { Button } from './Button';
+import { QUESTION_TYPE_LABELS } from './QuestionMixPicker';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey, Translate } from '../services/i18n';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2, PartyPopper, XCircle } from 'lucide-react';
+
+interface ReviewSessionProps {
+  /** Cards to review, in order; taken once when the session starts. */
+  cards: MistakeItem[];
+  onReview: (id: string, review: ReviewSchedule) => void;
+  onExit: () => void;
+}
+
+const RATINGS: { rating: ReviewRating; label: MessageKey; className: string }[] = [
+  { rating: 'again', label: 'review.again', className: 'border-red-300 text-red-700 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/20' },
+  { rating: 'hard', label: 'review.hard', className: 'border-amber-300 text-amber-700 hover:bg-amber-50 dark:border-amber-800 dark:text-amber-400 dark:hover:bg-amber-900/20' },
+  { rating: 'good', label: 'review.good', className: 'border-green-300 text-green-700 hover:bg-green-50 dark:border-green-800 dark:text-green-400 dark:hover:bg-green-900/20' },
+  { rating: 'easy', label: 'review.easy', className: 'border-indigo-300 text-indigo-700 hover:bg-indigo-50 dark:border-indigo-800 dark:text-indigo-400 dark:hover:bg-indigo-900/20' },
+];
+
+const describeInterval = (schedule: ReviewSchedule, t: Translate) =>
+  schedule.intervalDays === 0 ? t('review.today') : t(schedule.intervalDays === 1 ? 'review.inDay' : 'review.inDays', { count: schedule.intervalDays });
+
+const EMPTY_INPUT: QuizAnswerInput = { selectedOption: '', textInput: '', matchSelections: {} };
+
+/**
+ * Works through a review queue. Cards that kept their question ask it again
+ * and are graded; older cards are shown as flashcards and rated by hand.
+ * A wrong answer can only be rated Again, and forgotten cards come back at
+ * the end of the session.
+ */
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ cards, onReview, onExit }) => {
+  const { t } = useTranslation();
+  const [queue, setQueue] = useState<MistakeItem[]>(cards);
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState<QuizAnswerInput>(EMPTY_INPUT);
+  const [revealed, setRevealed] = useState(false);
+  const [verdict, setVerdict] = useState<{ isCorrect: boolean; feedback: GradeReason } | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradingError, setGradingError] = useState('');
+  const [ratings, setRatings] = useState<ReviewRating[]>([]);
+
+  const card = queue[index];
+
+  const handleCheck = async () => {
+    if (!card?.question) return;
+    setIsGrading(true);
+    setGradingError('');
+    try {
+      setVerdict(await gradeQuizAnswer(card.question, input));
+    } catch (error) {
+      console.error("Review grading error:", error);
+      setGradingError(t('review.gradingFailed'));
+    } finally {
+      setIsGrading(false);
+      setRevealed(true);
+    }
+  };
+
+  const handleRate = (rating: ReviewRating) => {
+    const review = scheduleReview(card.review, rating);
+    onReview(card.id, review);
+    setRatings(prev => [...prev, rating]);
+    if (rating === 'again') setQueue(prev => [...prev, { ...card, review }]);
+    setIndex(prev => prev + 1);
+    setInput(EMPTY_INPUT);
+    setRevealed(false);
+    setVerdict(null);
+    setGradingError('');
+  };
+
+  const header = (
+    <div className="p-6 sm:px-8 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-black flex items-center justify-between shrink-0">
+      <div className="flex items-center gap-4">
+        <button onClick={onExit} aria-label={t('review.back')} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors text-gray-500">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('review.title')}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{card ? t('review.progress', { n: index + 1, total: queue.length }) : t('review.allDone')}</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!card) {
+    const recalled = ratings.filter(r => r !== 'again').length;
+    return (
+      <div className="flex flex-col h-full animate-fade-in bg-gray-50/50 dark:bg-black/50 overflow-hidden">
+        {header}
+        <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
+          <PartyPopper className="w-12 h-12 text-indigo-500 mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{t('review.complete')}</h2>
+          <p className="text-gray-500 dark:text-gray-400 mb-6">
+            {t(ratings.length === 1 ? 'review.summaryOne' : 'review.summaryMany', { count: ratings.length, recalled })}
+          </p>
+          <Button onClick={onExit}>{t('review.backToNotebook')}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const item = card.question;
+  const answerText = item ? describeQuizAnswer(item, input) : null;
+  // Wrong answers were forgotten by definition; otherwise the learner says how hard it was.
+  const allowedRatings = verdict && !verdict.isCorrect ? RATINGS.filter(r => r.rating === 'again') : verdict ? RATINGS.filter(r => r.rating !== 'again') : RATINGS;
+
+  const renderQuestion = () => {
+    if (!item) return <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">{card.questionText}</h3>;
+    switch (item.type) {
+      case 'choose':
+        return (
+          <div className="space-y-4">
+            <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">{item.question.question}</h3>
+            <div className="space-y-2">
+              {item.question.options.map(opt => (
+                <button
+                  key={opt}
+                  onClick={() => setInput({ ...input, selectedOption: opt })}
+                  disabled={revealed}
+                  className={`w-full text-start p-3 rounded-xl border-2 transition-all
+                    ${input.selectedOption === opt ? 'border-black dark:border-white bg-gray-50 dark:bg-gray-800' : 'border-gray-200 dark:border-gray-700 hover:border-gray-300'}
+                    ${revealed && opt === item.question.correctAnswer ? '!bg-green-100 !border-green-500 text-green-800' : ''}
+                  `}
+                >
+                  {opt}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      case 'fill-blank': {
+        const [before, after] = item.question.sentence.split('___');
+        return (
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-500 dark:text-gray-400">{item.question.question}</h3>
+            <div className="text-2xl font-serif leading-relaxed text-gray-800 dark:text-gray-100">
+              {before}
+              <input
+                type="text"
+                value={input.textInput}
+                onChange={(e) => setInput({ ...input, textInput: e.target.value })}
+                disabled={revealed || isGrading}
+                className="mx-2 min-w-[120px] bg-transparent border-b-2 border-gray-400 focus:border-black dark:focus:border-white outline-none text-center font-bold px-2"
+                placeholder={t('quiz.blankPlaceholder')}
+              />
+              {after}
+            </div>
+          </div>
+        );
+      }
+      case 'match': {
+        const rightOptions = item.question.pairs.map(p => p.right).sort();
+        return (
+          <div className="space-y-4">
+            <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">{item.question.question}</h3>
+            {item.question.pairs.map(pair => (
+              <div key={pair.left} className="flex items-center gap-4 p-3 border border-gray-200 dark:border-gray-700 rounded-xl bg-gray-50 dark:bg-gray-800/50">
+                <div className="flex-1 font-medium text-gray-700 dark:text-gray-200">{pair.left}</div>
+                <select
+                  value={input.matchSelections[pair.left] || ''}
+                  onChange={(e) => setInput({ ...input, matchSelections: { ...input.matchSelections, [pair.left]: e.target.value } })}
+                  disabled={revealed}
+                  className="flex-1 p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-black outline-none"
+                >
+                  <option value="">{t('quiz.selectMatch')}</option>
+                  {rightOptions.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        );
+      }
+      case 'answer':
+        return (
+          <div className="space-y-4">
+            <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">{item.question.question}</h3>
+            <textarea
+              className="w-full h-32 p-4 rounded-xl border-2 border-gray-200 dark:border-gray-700 focus:border-black dark:focus:border-white outline-none bg-transparent resize-none"
+              placeholder={t('quiz.answerPlaceholder')}
+              value={input.textInput}
+              onChange={(e) => setInput({ ...input, textInput: e.target.value })}
+              disabled={revealed || isGrading}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full animate-fade-in bg-gray-50/50 dark:bg-black/50 overflow-hidden">
+      {header}
+      <div className="flex-1 overflow-y-auto p-6 sm:p-8 custom-scrollbar">
+        <div key={index} className="max-w-3xl mx-auto bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm animate-fade-in">
+          <div className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-4">
+            {card.topic} • {item ? t(QUESTION_TYPE_LABELS[item.type]) : t('review.flashcard')}
+          </div>
+
+          {renderQuestion()}
+
+          {gradingError && (
+            <p className="mt-4 text-sm text-red-600 dark:text-red-400 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {gradingError}</p>
+          )}
+
+          {revealed && (
+            <div className="mt-6 space-y-3">
+              {verdict && (
+                <p className={`flex items-center gap-2 font-bold ${verdict.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                  {verdict.isCorrect ? <><CheckCircle className="w-5 h-5" /> {t('quiz.correct')}</> : <><XCircle className="w-5 h-5" /> {t('quiz.incorrect')}</>}
+                </p>
+              )}
+              {verdict?.feedback && <p className="text-sm text-gray-600 dark:text-gray-300">{formatGradeReason(verdict.feedback, t)}</p>}
+              <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg text-sm">
+                <div className="text-green-600 dark:text-green-400 font-medium">{t('mistakes.correctAnswer')} <span className="text-gray-700 dark:text-gray-300 font-normal">{answerText?.correctAnswer ?? card.correctAnswer}</span></div>
+                {!item && <div className="mt-2 text-red-600 dark:text-red-400 font-medium">{t('review.lastAnswer')} <span className="text-gray-700 dark:text-gray-300 font-normal">{card.userAnswer}</span></div>}
+              </div>
+              <div className="p-4 bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-100 dark:border-yellow-900/20 rounded-lg text-gray-700 dark:text-gray-300 italic text-sm">
+                "{card.note}"
+              </div>
+            </div>
+          )}
+
+          <div className="mt-6 pt-4 border-t border-gray-100 dark:border-gray-800 flex justify-end gap-2">
+            {!revealed ? (
+              item ? (
+                <button
+                  onClick={handleCheck}
+                  disabled={isGrading}
+                  className="bg-black dark:bg-white text-white dark:text-black px-6 py-2 rounded-lg font-bold shadow-lg disabled:opacity-60 flex items-center gap-2"
+                >
+                  {isGrading ? <><Loader2 className="w-4 h-4 animate-spin" /> {t('quiz.grading')}</> : t('quiz.check')}
+                </button>
+              ) : (
+                <Button onClick={() => setRevealed(true)}>{t('review.showAnswer')}</Button>
+              )
+            ) : (
+              allowedRatings.map(({ rating, label, className }) => (
+                <button
+                  key={rating}
+                  onClick={() => handleRate(rating)}
+                  className={`px-4 py-2 rounded-lg border-2 text-sm font-bold transition-colors flex flex-col items-center ${className}`}
+                >
+                  {t(label)}
+                  <span className="text-xs font-normal opacity-80">{describeInterval(scheduleReview(card.review, rating), t)}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { Settings, Cpu, KeyRound, GraduationCap, Target, Eye, EyeOff, RotateCcw, Library, Languages } from 'lucide-react';
+import { Button } from './Button';
+import { useSettings } from '../hooks/useSettings';
+import { useTranslation } from '../hooks/useTranslation';
+import { Language, LANGUAGES, MessageKey } from '../services/i18n';
+import { AI_PROVIDER_OPTIONS, AIProviderId, getAIProviderId, getFixtureMode, resetAISettings, setAIProviderId, setAPIKey, setRecordFixtures } from '../services/aiProvider';
+import { DEFAULT_SETTINGS, ModelTask, QuizDifficulty, TeachLanguage } from '../services/settingsService';
+import { StudentType } from '../services/geminiService';
+import { QuestionMixPicker } from './QuestionMixPicker';
+import { GEMINI_FLASH_MODEL, GEMINI_IMAGE_MODEL, GEMINI_PRO_MODEL, SEARCH_TOOL_MODEL, TTS_VOICES } from '../constants';
+
+const MODEL_TASKS: { task: ModelTask; label: MessageKey; geminiDefault: string }[] = [
+  { task: 'explanation', label: 'output.explanation', geminiDefault: GEMINI_PRO_MODEL },
+  { task: 'quiz', label: 'settings.modelQuiz', geminiDefault: GEMINI_FLASH_MODEL },
+  { task: 'visual', label: 'output.visual', geminiDefault: GEMINI_IMAGE_MODEL },
+  { task: 'simulation', label: 'output.simulation', geminiDefault: GEMINI_PRO_MODEL },
+  { task: 'verification', label: 'output.verification', geminiDefault: SEARCH_TOOL_MODEL },
+];
+
+export const DIFFICULTY_LABELS: Record<QuizDifficulty, MessageKey> = {
+  Easy: 'difficulty.Easy',
+  Medium: 'difficulty.Medium',
+  Hard: 'difficulty.Hard',
+};
+
+const STUDENTS: { type: StudentType; name: string }[] = [
+  { type: 'normal', name: 'Alex' },
+  { type: 'argumentative', name: 'Blake' },
+  { type: 'creative', name: 'Charlie' },
+];
+
+const inputClass = "w-full p-2.5 text-sm bg-white dark:bg-black border border-gray-300 dark:border-gray-700 rounded-lg outline-none focus:border-black dark:focus:border-white transition-colors text-gray-900 dark:text-gray-100";
+const labelClass = "block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1.5";
+
+export const SettingsSection: React.FC = () => {
+  const [settings, updateSettings] = useSettings();
+  const { t } = useTranslation();
+  const [providerId, setProviderId] = useState<AIProviderId>(getAIProviderId);
+  const [isRecording, setIsRecording] = useState(() => getFixtureMode() === 'record');
+  const [keyDraft, setKeyDraft] = useState('');
+  const [showKey, setShowKey] = useState(false);
+
+  const storedKey = settings.apiKeys[providerId];
+
+  const handleProviderChange = (id: AIProviderId) => {
+    setAIProviderId(id);
+    setProviderId(id);
+    setIsRecording(getFixtureMode() === 'record');
+    setKeyDraft('');
+  };
+
+  const handleRecordToggle = (enabled: boolean) => {
+    setRecordFixtures(enabled);
+    setIsRecording(enabled);
+  };
+
+  // Teach mode listens in the new language too; it can still be switched there.
+  const handleLanguageChange = (language: Language) =>
+    updateSettings({ language, teachLanguage: LANGUAGES[language].speechLocale });
+
+  const handleSaveKey = () => {
+    setAPIKey(providerId, keyDraft);
+    setKeyDraft('');
+  };
+
+  const renderCard = (title: string, icon: React.ReactNode, children: React.ReactNode) => (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-2xl shadow-sm p-6">
+      <h2 className="font-bold text-gray-900 dark:text-white flex items-center gap-2 mb-5">{icon}{title}</h2>
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col pt-8 px-4 w-full h-full animate-fade-in max-w-4xl mx-auto">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2"><Settings className="w-6 h-6" /> {t('settings.title')}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.savedLocally')}</p>
+        </div>
+        <Button variant="ghost" onClick={resetAISettings} icon={<RotateCcw className="w-4 h-4" />}>{t('settings.reset')}</Button>
+      </div>
+
+      <div className="space-y-6 pb-8">
+        {renderCard(t('settings.language'), <Languages className="w-5 h-5 text-rose-500" />, (
+          <div>
+            <label htmlFor="settings-app-language" className={labelClass}>{t('settings.languageLabel')}</label>
+            <select id="settings-app-language" value={settings.language} onChange={(e) => handleLanguageChange(e.target.value as Language)} className={inputClass}>
+              {Object.values(LANGUAGES).map(language => (
+                <option key={language.code} value={language.code}>{language.code === 'en' ? language.name : `${language.name} (${language.nativeName})`}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1.5">{t('settings.languageHint')}</p>
+          </div>
+        ))}
+
+        {renderCard(t('settings.provider'), <KeyRound className="w-5 h-5 text-indigo-600" />, (
+          <div className="space-y-5">
+            <div>
+              <label htmlFor="settings-provider" className={labelClass}>{t('settings.providerLabel')}</label>
+              <select id="settings-provider" value={providerId} onChange={(e) => handleProviderChange(e.target.value as AIProviderId)} className={inputClass}>
+                {AI_PROVIDER_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+              </select>
+            </div>
+
+            {providerId !== 'mock' && (
+              <div>
+                <label htmlFor="settings-api-key" className={labelClass}>{t('settings.apiKey')}</label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <input
+                      id="settings-api-key"
+                      type={showKey ? 'text' : 'password'}
+                      value={keyDraft}
+                      onChange={(e) => setKeyDraft(e.target.value)}
+                      placeholder={storedKey ? t('settings.apiKeySaved', { last: storedKey.slice(-4) }) : t('settings.apiKeyFromEnv')}
+                      className={`${inputClass} pr-10`}
+                      autoComplete="off"
+                    />
+                    <button onClick={() => setShowKey(!showKey)} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-black dark:hover:text-white" title={showKey ? t('settings.hide') : t('settings.show')}>
+                      {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <Button onClick={handleSaveKey} disabled={!keyDraft.trim()} className="bg-black dark:bg-white text-white dark:text-black">
+                    {storedKey ? t('settings.rotate') : t('settings.save')}
+                  </Button>
+                  {storedKey && <Button variant="secondary" onClick={() => setAPIKey(providerId, '')}>{t('settings.clear')}</Button>}
+                </div>
+              </div>
+            )}
+
+            {providerId !== 'mock' && (
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={isRecording} onChange={(e) => handleRecordToggle(e.target.checked)} className="accent-indigo-600" />
+                {t('settings.record')}
+              </label>
+            )}
+          </div>
+        ))}
+
+        {renderCard(t('settings.models'), <Cpu className="w-5 h-5 text-purple-500" />, (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {MODEL_TASKS.map(({ task, label, geminiDefault }) => (
+              <div key={task}>
+                <label htmlFor={`settings-model-${task}`} className={labelClass}>{t(label)}</label>
+                <input
+                  id={`settings-model-${task}`}
+                  type="text"
+                  value={settings.models[task]}
+                  onChange={(e) => updateSettings({ models: { ...settings.models, [task]: e.target.value } })}
+                  placeholder={providerId === 'gemini' ? geminiDefault : t('settings.providerDefault')}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            <div>
+              <label htmlFor="settings-thinking" className={labelClass}>{t('settings.thinkingBudget')}</label>
+              <input
+                id="settings-thinking"
+                type="number"
+                min={0}
+                step={256}
+                value={settings.thinkingBudget}
+                onChange={(e) => updateSettings({ thinkingBudget: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        ))}
+
+        {renderCard(t('settings.sourceContext'), <Library className="w-5 h-5 text-blue-500" />, (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+            <div>
+              <label htmlFor="settings-context-budget" className={labelClass}>{t('settings.contextBudget')}</label>
+              <input
+                id="settings-context-budget"
+                type="number"
+                min={500}
+                step={500}
+                value={settings.contextTokenBudget}
+                onChange={(e) => updateSettings({ contextTokenBudget: Math.max(500, Number(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer pb-2.5">
+              <input type="checkbox" checked={settings.semanticRetrieval} onChange={(e) => updateSettings({ semanticRetrieval: e.target.checked })} className="accent-indigo-600" />
+              {t('settings.semanticRetrieval')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer sm:col-span-2">
+              <input type="checkbox" checked={settings.describeImages} onChange={(e) => updateSettings({ describeImages: e.target.checked })} className="accent-indigo-600" />
+              {t('settings.describeImages')}
+            </label>
+          </div>
+        ))}
+
+        {renderCard(t('settings.quizDefaults'), <Target className="w-5 h-5 text-emerald-500" />, (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="settings-difficulty" className={labelClass}>{t('settings.difficulty')}</label>
+              <select id="settings-difficulty" value={settings.quizDifficulty} onChange={(e) => updateSettings({ quizDifficulty: e.target.value as QuizDifficulty })} className={inputClass}>
+                {(['Easy', 'Medium', 'Hard'] as QuizDifficulty[]).map(level => <option key={level} value={level}>{t(DIFFICULTY_LABELS[level])}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="settings-count" className={labelClass}>{t('settings.questionCount')}</label>
+              <select id="settings-count" value={settings.quizCount} onChange={(e) => updateSettings({ quizCount: Number(e.target.value) })} className={inputClass}>
+                {[5, 10, 20].map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <span className={labelClass}>{t('settings.questionTypes')}</span>
+              <QuestionMixPicker mix={settings.quizMix} count={settings.quizCount} onChange={(quizMix) => updateSettings({ quizMix })} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer sm:col-span-2">
+              <input type="checkbox" checked={settings.judgeBlankAnswers} onChange={(e) => updateSettings({ judgeBlankAnswers: e.target.checked })} className="accent-indigo-600" />
+              {t('settings.judgeBlankAnswers')}
+            </label>
+          </div>
+        ))}
+
+        {renderCard(t('settings.teachMode'), <GraduationCap className="w-5 h-5 text-amber-500" />, (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="settings-language" className={labelClass}>{t('settings.teachLanguage')}</label>
+              <select id="settings-language" value={settings.teachLanguage} onChange={(e) => updateSettings({ teachLanguage: e.target.value as TeachLanguage })} className={inputClass}>
+                <option value="en-US">English</option>
+                <option value="am-ET">Amharic (አማርኛ)</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="settings-rate" className={labelClass}>{t('settings.speechRate', { rate: settings.ttsPlaybackRate.toFixed(2) })}</label>
+              <input
+                id="settings-rate"
+                type="range"
+                min={0.5}
+                max={2}
+                step={0.05}
+                value={settings.ttsPlaybackRate}
+                onChange={(e) => updateSettings({ ttsPlaybackRate: Number(e.target.value) })}
+                className="w-full accent-indigo-600 mt-2"
+              />
+            </div>
+            {STUDENTS.map(({ type, name }) => (
+              <div key={type}>
+                <label htmlFor={`settings-voice-${type}`} className={labelClass}>{t('settings.studentVoice', { name })}</label>
+                <select
+                  id={`settings-voice-${type}`}
+                  value={settings.studentVoices[type]}
+                  onChange={(e) => updateSettings({ studentVoices: { ...settings.studentVoices, [type]: e.target.value } })}
+                  className={inputClass}
+                >
+                  {TTS_VOICES.map(voice => (
+                    <option key={voice} value={voice}>{voice === DEFAULT_SETTINGS.studentVoices[type] ? t('settings.defaultVoice', { voice }) : voice}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
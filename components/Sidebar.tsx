@@ -1,5 +1,6 @@
 import React from 'react';
 import { ChatSession, MainView } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -10,6 +11,7 @@ interface SidebarProps {
   onSelectSession: (id: string) => void;
   onNewSession: () => void;
   toggleSidebar: () => void;
+  activeProjectName?: string;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
@@ -20,13 +22,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
   currentSessionId,
   onSelectSession,
   onNewSession,
-  toggleSidebar
+  toggleSidebar,
+  activeProjectName
 }) => {
-  
+  const { t } = useTranslation();
+
   const renderButton = (view: MainView, iconClass: string, label: string) => (
     <button 
       onClick={() => onViewChange(view)}
-      className={`w-full sidebar-btn flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors group text-left overflow-hidden ${
+      className={`w-full sidebar-btn flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors group text-start overflow-hidden ${
         activeView === view 
           ? 'bg-gray-100 dark:bg-gray-800 text-black dark:text-white' 
           : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-900 hover:text-black dark:hover:text-white'
@@ -52,11 +56,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
       <aside 
         className={`
-          fixed lg:relative inset-y-0 left-0 z-50
-          bg-white dark:bg-black border-r border-gray-200 dark:border-gray-800 
+          fixed lg:relative inset-y-0 start-0 z-50
+          bg-white dark:bg-black border-e border-gray-200 dark:border-gray-800 
           flex flex-col justify-between p-4 flex-shrink-0 
           transition-all duration-300 ease-in-out
-          ${isOpen ? 'w-64 translate-x-0' : 'w-20 -translate-x-full lg:translate-x-0 lg:w-20'}
+          ${isOpen ? 'w-64 translate-x-0' : 'w-20 -translate-x-full rtl:translate-x-full lg:translate-x-0 lg:rtl:translate-x-0 lg:w-20'}
         `}
       >
         <div className="space-y-6">
@@ -81,26 +85,32 @@ export const Sidebar: React.FC<SidebarProps> = ({
                    w-full flex items-center bg-black dark:bg-white text-white dark:text-black rounded-xl font-semibold transition-all shadow-lg shadow-gray-200 dark:shadow-none overflow-hidden
                    ${isOpen ? 'px-4 py-3 gap-3' : 'p-3 justify-center'}
                 `}
-                title="New Session"
+                title={t('sidebar.newSession')}
             >
                 <i className="ph ph-plus text-lg flex-shrink-0"></i>
                 {isOpen && (
                    <>
-                    <span className="sidebar-label transition-opacity duration-200">New Session</span>
-                    <i className="ph ph-sparkle ml-auto text-yellow-300"></i>
+                    <span className="sidebar-label transition-opacity duration-200">{t('sidebar.newSession')}</span>
+                    <i className="ph ph-sparkle ms-auto text-yellow-300"></i>
                    </>
                 )}
             </button>
 
             {/* Sidebar Navigation */}
             <nav className="space-y-1">
-                {renderButton('paste-link', 'ph-link', 'Paste Link')}
-                {renderButton('metrics', 'ph-chart-bar', 'Metrics')}
-                {renderButton('projects', 'ph-folder', 'Projects')}
+                {renderButton('paste-link', 'ph-link', t('sidebar.pasteLink'))}
+                {renderButton('metrics', 'ph-chart-bar', t('sidebar.metrics'))}
+                {renderButton('projects', 'ph-folder', t('sidebar.projects'))}
+                {renderButton('history', 'ph-magnifying-glass', t('sidebar.history'))}
                 
                 {/* History Section - Adapted for Sessions */}
                 <div className="pt-4">
-                  {isOpen && <div className="px-4 pb-2 text-xs font-bold text-gray-400 uppercase tracking-wider">Recent</div>}
+                  {isOpen && (
+                    <div className="px-4 pb-2 text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2 overflow-hidden">
+                      <span>{t('sidebar.recent')}</span>
+                      {activeProjectName && <span className="truncate normal-case tracking-normal text-indigo-500 dark:text-indigo-400" title={activeProjectName}>· {activeProjectName}</span>}
+                    </div>
+                  )}
                   {sessions.slice(0, 5).map(session => (
                       <button
                         key={session.id}
@@ -123,11 +133,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </div>
 
         <div className="border-t border-gray-100 dark:border-gray-800 pt-4 space-y-2">
-            {renderButton('settings', 'ph-gear', 'Settings')}
+            {renderButton('settings', 'ph-gear', t('sidebar.settings'))}
             
             <div className={`flex items-center gap-3 px-4 py-2 mt-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 rounded-lg overflow-hidden ${!isOpen ? 'justify-center px-0' : ''}`}>
                 <div className="w-8 h-8 bg-gradient-to-tr from-blue-500 to-purple-500 rounded-full flex-shrink-0"></div>
-                {isOpen && <div className="text-sm font-medium text-gray-700 dark:text-gray-200">User Profile</div>}
+                {isOpen && <div className="text-sm font-medium text-gray-700 dark:text-gray-200">{t('sidebar.profile')}</div>}
             </div>
         </div>
       </aside>
@@ -3,6 +3,9 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Mic, Send, Square, Volume2, VolumeX, GraduationCap, User, Brain, Hand, ChevronLeft, Globe } from 'lucide-react';
 import { createStudentSession, sendMessageToStudent, StudentType, generateSpeech } from '../services/geminiService';
 import { Button } from './Button';
+import { useSettings } from '../hooks/useSettings';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../services/i18n';
 
 interface TeachSectionProps {
   initialTopic?: string;
@@ -23,8 +26,8 @@ interface StudentState {
   isHandRaised: boolean;
   isSpeaking: boolean;
   avatar: string;
-  description: string;
-  identity: string;
+  description: MessageKey;
+  identity: MessageKey;
   voice: string;
   session: any;
 }
@@ -59,6 +62,8 @@ async function decodeAudioData(
 }
 
 export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' }) => {
+  const [settings] = useSettings();
+  const { t } = useTranslation();
   const [topic, setTopic] = useState(initialTopic);
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
@@ -66,24 +71,24 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isTTSEnabled, setIsTTSEnabled] = useState(true);
-  const [language, setLanguage] = useState<'en-US' | 'am-ET'>('en-US');
+  const [language, setLanguage] = useState<'en-US' | 'am-ET'>(settings.teachLanguage);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const [students, setStudents] = useState<StudentState[]>([
     { 
         id: '1', name: 'ALEX', type: 'normal', isEnabled: true, isHandRaised: false, isSpeaking: false,
-        avatar: '🎓', description: 'Logical Learner', voice: 'Zephyr',
-        identity: 'Asks for facts and data-driven explanations.', session: null 
+        avatar: '🎓', description: 'teach.logical', voice: settings.studentVoices.normal,
+        identity: 'teach.logicalIdentity', session: null 
     },
     { 
         id: '2', name: 'BLAKE', type: 'argumentative', isEnabled: true, isHandRaised: false, isSpeaking: false,
-        avatar: '🧐', description: 'Critical Skeptic', voice: 'Puck',
-        identity: 'Challenges assumptions and looks for errors.', session: null 
+        avatar: '🧐', description: 'teach.skeptic', voice: settings.studentVoices.argumentative,
+        identity: 'teach.skepticIdentity', session: null 
     },
     { 
         id: '3', name: 'CHARLIE', type: 'creative', isEnabled: true, isHandRaised: false, isSpeaking: false,
-        avatar: '🎨', description: 'Critical Creative', voice: 'Kore',
-        identity: 'Deconstructs ideas from first principles and asks provocative questions.', session: null 
+        avatar: '🎨', description: 'teach.creative', voice: settings.studentVoices.creative,
+        identity: 'teach.creativeIdentity', session: null 
     }
   ]);
 
@@ -129,7 +134,7 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
       const audioBuffer = await decodeAudioData(audioBytes, ctx, 24000, 1);
       const source = ctx.createBufferSource();
       source.buffer = audioBuffer;
-      source.playbackRate.value = 1.15;
+      source.playbackRate.value = settings.ttsPlaybackRate;
       source.connect(ctx.destination);
       source.onended = () => setStudents(prev => prev.map(s => s.id === studentId ? { ...s, isSpeaking: false } : s));
       source.start();
@@ -189,7 +194,7 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
   };
 
   const toggleLiveTeaching = () => {
-    if (!recognitionRef.current) return alert("STT not supported.");
+    if (!recognitionRef.current) return alert(t('teach.sttUnsupported'));
     if (isRecording) {
         recognitionRef.current.stop();
         setIsRecording(false);
@@ -208,18 +213,20 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
                       <div className="w-16 h-16 bg-black dark:bg-white rounded-2xl mx-auto flex items-center justify-center">
                           <GraduationCap className="w-8 h-8 text-white dark:text-black" />
                       </div>
-                      <h1 className="text-3xl font-black uppercase tracking-tighter text-black dark:text-white">Live Virtual Classroom</h1>
-                      <p className="text-gray-500 font-bold uppercase tracking-widest text-[10px]">Select your students</p>
+                      <h1 className="text-3xl font-black uppercase tracking-tighter text-black dark:text-white">{t('teach.title')}</h1>
+                      <p className="text-gray-500 font-bold uppercase tracking-widest text-[10px]">{t('teach.selectStudents')}</p>
                   </div>
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                       {students.map(student => (
                           <div 
                             key={student.id}
                             onClick={() => setStudents(prev => prev.map(s => s.id === student.id ? { ...s, isEnabled: !s.isEnabled } : s))}
+                            title={t(student.identity)}
                             className={`flex flex-col items-center p-6 rounded-[2rem] border transition-all cursor-pointer group ${student.isEnabled ? 'border-black dark:border-white bg-gray-50 dark:bg-gray-900 shadow-md' : 'opacity-20 grayscale'}`}
                           >
                               <span className="text-4xl mb-3">{student.avatar}</span>
                               <span className="font-black text-xs uppercase tracking-widest text-black dark:text-white">{student.name}</span>
+                              <span className="mt-1 text-[10px] font-bold text-gray-500">{t(student.description)}</span>
                           </div>
                       ))}
                   </div>
@@ -228,10 +235,10 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
                         type="text"
                         value={topic}
                         onChange={(e) => setTopic(e.target.value)}
-                        placeholder="What are you teaching?"
+                        placeholder={t('teach.topicPlaceholder')}
                         className="w-full bg-gray-100 dark:bg-gray-950 rounded-full px-6 py-4 text-center text-lg font-black outline-none border-2 border-transparent focus:border-black dark:focus:border-white text-black dark:text-white"
                       />
-                      <Button onClick={startSession} className="w-full py-4 text-sm bg-black dark:bg-white text-white dark:text-black rounded-full font-black uppercase tracking-widest shadow-xl">Start Class</Button>
+                      <Button onClick={startSession} className="w-full py-4 text-sm bg-black dark:bg-white text-white dark:text-black rounded-full font-black uppercase tracking-widest shadow-xl">{t('teach.start')}</Button>
                   </div>
               </div>
           </div>
@@ -256,7 +263,7 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
                   <button onClick={() => setIsTTSEnabled(!isTTSEnabled)} className="text-gray-400 hover:text-black dark:hover:text-white">
                       {isTTSEnabled ? <Volume2 className="w-3.5 h-3.5"/> : <VolumeX className="w-3.5 h-3.5"/>}
                   </button>
-                  <button onClick={() => setIsSessionActive(false)} className="text-red-500 text-[8px] font-black uppercase tracking-widest">END CLASS</button>
+                  <button onClick={() => setIsSessionActive(false)} className="text-red-500 text-[8px] font-black uppercase tracking-widest">{t('teach.end')}</button>
               </div>
           </header>
 
@@ -275,7 +282,7 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
 
           {/* Chat Messages */}
           <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-4 custom-scrollbar bg-white dark:bg-black">
-              {messages.length === 0 && <div className="h-full flex flex-col items-center justify-center opacity-5 select-none grayscale"><Brain className="w-10 h-10 mb-3" /><p className="font-black uppercase tracking-[0.4em] text-[10px]">Waiting to Learn</p></div>}
+              {messages.length === 0 && <div className="h-full flex flex-col items-center justify-center opacity-5 select-none grayscale"><Brain className="w-10 h-10 mb-3" /><p className="font-black uppercase tracking-[0.4em] text-[10px]">{t('teach.waiting')}</p></div>}
               {messages.map((msg) => {
                   const isModel = msg.role === 'model';
                   return (
@@ -283,7 +290,7 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
                         <div className={`flex gap-2.5 max-w-[90%] ${isModel ? 'flex-row' : 'flex-row-reverse'}`}>
                             {isModel && <div className="w-6 h-6 rounded bg-gray-100 dark:bg-gray-800 flex items-center justify-center mt-1 text-[9px] border border-gray-200 dark:border-gray-700">🎓</div>}
                             <div className="min-w-0">
-                                {isModel && <span className="text-[6px] font-black text-gray-400 uppercase tracking-widest ml-1 mb-1 block">{msg.studentName} IS RESPONDING</span>}
+                                {isModel && <span className="text-[6px] font-black text-gray-400 uppercase tracking-widest ml-1 mb-1 block">{t('teach.responding', { name: msg.studentName })}</span>}
                                 <div className={`p-3 rounded-xl text-[13px] font-bold leading-relaxed shadow-sm ${isModel ? 'bg-gray-50 dark:bg-[#121212] text-black dark:text-white rounded-tl-none border border-gray-100 dark:border-gray-800' : 'bg-black dark:bg-white text-white dark:text-black rounded-tr-none'}`}>{msg.text}</div>
                             </div>
                         </div>
@@ -300,14 +307,14 @@ export const TeachSection: React.FC<TeachSectionProps> = ({ initialTopic = '' })
                   <div className="w-full px-4 mb-2">
                       <div className="w-full flex items-center gap-2 bg-gray-50 dark:bg-[#0c0c0c] p-1.5 pr-4 rounded-full border border-gray-200 dark:border-gray-800 focus-within:border-gray-400 dark:focus-within:border-gray-700 transition-all shadow-sm">
                           <button onClick={toggleLiveTeaching} className={`w-8 h-8 rounded-full flex items-center justify-center transition-all flex-shrink-0 ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-white dark:bg-gray-800 text-black dark:text-white shadow-sm'}`}>{isRecording ? <Square className="w-3 h-3 fill-current" /> : <Mic className="w-3 h-3" />}</button>
-                          <textarea rows={1} value={inputText} onChange={(e) => setInputText(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && (e.preventDefault(), handleTeacherInput(inputText), setInputText(''))} placeholder={isRecording ? "Listening..." : "Teach clearly..." } className="flex-1 bg-transparent outline-none text-black dark:text-white font-bold text-[11px] placeholder-gray-500 py-2 resize-none px-1" />
+                          <textarea rows={1} value={inputText} onChange={(e) => setInputText(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && (e.preventDefault(), handleTeacherInput(inputText), setInputText(''))} placeholder={isRecording ? t('teach.listening') : t('teach.inputPlaceholder')} className="flex-1 bg-transparent outline-none text-black dark:text-white font-bold text-[11px] placeholder-gray-500 py-2 resize-none px-1" />
                           <button onClick={() => { handleTeacherInput(inputText); setInputText(''); }} disabled={!inputText.trim() || isProcessing} className={`p-1.5 transition-all ${!inputText.trim() || isProcessing ? 'opacity-20' : 'text-black dark:text-white'}`}><Send className="w-3.5 h-3.5" /></button>
                       </div>
                   </div>
                   {/* Status Bar - ABSOLUTELY LAST, NO SPACE BELOW */}
                   <div className="w-full py-2 bg-gray-50/80 dark:bg-[#050505]/80 flex flex-col items-center">
                       <p className="text-[8px] font-black uppercase tracking-[0.15em] text-gray-400 text-center leading-none">
-                        {students.some(s => s.isHandRaised) ? <span className="text-indigo-500 animate-pulse">A student has a question! Call on them.</span> : "VOICE TEACHING ACTIVE. EXPLAIN CLEARLY, STUDENTS ARE LISTENING."}
+                        {students.some(s => s.isHandRaised) ? <span className="text-indigo-500 animate-pulse">{t('teach.handRaised')}</span> : t('teach.active')}
                       </p>
                   </div>
               </div>
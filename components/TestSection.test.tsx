@@ -0,0 +1,250 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TestSection } from './TestSection';
+import { setAIProvider } from '../services/aiProvider';
+import { createFixtureProvider } from '../services/providers/fixtureProvider';
+
+const renderQuiz = async () => {
+  const user = userEvent.setup();
+  const props = {
+    contextText: 'Thermodynamics',
+    mistakes: [],
+    onAddMistake: vi.fn(),
+    onUpdateMistake: vi.fn(),
+    onDeleteMistake: vi.fn(),
+    onReviewMistake: vi.fn(),
+    onQuizComplete: vi.fn(),
+  };
+  render(<TestSection {...props} />);
+  await user.click(screen.getByRole('button', { name: /start quiz/i }));
+  await screen.findByText('Active Assessment');
+  return { user, props };
+};
+
+// The default quiz interleaves the types: choose, fill-blank, match, answer, choose, ...
+const goToQuestion = (user: ReturnType<typeof userEvent.setup>, number: number) =>
+  user.click(screen.getByRole('button', { name: `Question ${number}` }));
+
+const expectCorrect = () => expect(screen.getByText('Correct')).toBeInTheDocument();
+const expectIncorrect = () => expect(screen.getByText(/Incorrect Answer/)).toBeInTheDocument();
+
+describe('TestSection grading', () => {
+  it('grades multiple choice by exact option', async () => {
+    const { user } = await renderQuiz();
+    await user.click(screen.getByRole('button', { name: /First Law/ }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expectCorrect();
+  });
+
+  it('flags a wrong multiple choice option and captures the mistake', async () => {
+    const { user, props } = await renderQuiz();
+    await user.click(screen.getByRole('button', { name: /Second Law/ }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expectIncorrect();
+
+    await user.click(screen.getByRole('button', { name: /Save Analysis/ }));
+    expect(props.onAddMistake).toHaveBeenCalledWith(expect.objectContaining({
+      questionText: 'Which law states that energy cannot be created or destroyed?',
+      userAnswer: 'Second Law',
+      correctAnswer: 'First Law',
+      question: expect.objectContaining({ type: 'choose', question: expect.objectContaining({ id: 'c1' }) }),
+    }));
+  });
+
+  it('grades fill-in-the-blank case-insensitively', async () => {
+    const { user } = await renderQuiz();
+    await goToQuestion(user, 2);
+    await user.type(screen.getByPlaceholderText('type answer...'), '  Entropy ');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText('Correct')).toBeInTheDocument();
+    expect(screen.getByText('Matches the answer.')).toBeInTheDocument();
+  });
+
+  it('accepts a fill-in-the-blank answer with a small typo and says why', async () => {
+    const { user } = await renderQuiz();
+    await goToQuestion(user, 2);
+    await user.type(screen.getByPlaceholderText('type answer...'), 'entorpy');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText('Accepted despite a small spelling difference from "entropy".')).toBeInTheDocument();
+    expectCorrect();
+  });
+
+  it('rejects a wrong fill-in-the-blank answer', async () => {
+    const { user } = await renderQuiz();
+    await goToQuestion(user, 2);
+    await user.type(screen.getByPlaceholderText('type answer...'), 'enthalpy');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText(/Incorrect Answer/)).toBeInTheDocument();
+    expect(screen.getByText('That names a related idea, but not the one this sentence describes.')).toBeInTheDocument();
+  });
+
+  it('requires every match pair to be correct', async () => {
+    const { user } = await renderQuiz();
+    await goToQuestion(user, 3);
+    const selects = screen.getAllByRole('combobox');
+    await user.selectOptions(selects[0], 'Thermal equilibrium is transitive');
+    await user.selectOptions(selects[1], 'Energy is conserved');
+    await user.selectOptions(selects[2], 'Entropy never decreases');
+    await user.selectOptions(selects[3], 'Entropy approaches a minimum at absolute zero');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expectCorrect();
+  });
+
+  it('fails a match set with one wrong pair', async () => {
+    const { user } = await renderQuiz();
+    await goToQuestion(user, 3);
+    const selects = screen.getAllByRole('combobox');
+    await user.selectOptions(selects[0], 'Energy is conserved');
+    await user.selectOptions(selects[1], 'Thermal equilibrium is transitive');
+    await user.selectOptions(selects[2], 'Entropy never decreases');
+    await user.selectOptions(selects[3], 'Entropy approaches a minimum at absolute zero');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expectIncorrect();
+  });
+
+  it('grades short answers against a rubric and shows the sample answer', async () => {
+    const { user } = await renderQuiz();
+    await goToQuestion(user, 4);
+    await user.type(screen.getByPlaceholderText('Type your answer here...'), 'Some heat always goes to the cold side because of entropy.');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText('Correct')).toBeInTheDocument();
+    expect(screen.getByText('83%')).toBeInTheDocument();
+    expect(screen.getByText('You hint at a limit but do not say what sets it.')).toBeInTheDocument();
+    expect(screen.getByText('AI Sample Answer')).toBeInTheDocument();
+  });
+
+  it('gives partial credit and prefills the mistake note with missed points', async () => {
+    const provider = createFixtureProvider({ mode: 'replay' });
+    const generateJSON = provider.generateJSON;
+    provider.generateJSON = (async (prompt, schema, options) => options?.task === 'grading'
+      ? { keyPoints: [{ point: 'Heat is rejected', status: 'covered' }, { point: 'Entropy never decreases', status: 'missing' }], feedback: 'Half there.' }
+      : generateJSON(prompt, schema, options)) as typeof generateJSON;
+    setAIProvider(provider);
+
+    const { user, props } = await renderQuiz();
+    await goToQuestion(user, 4);
+    await user.type(screen.getByPlaceholderText('Type your answer here...'), 'Heat goes to the cold side.');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText('50%')).toBeInTheDocument();
+    expectIncorrect();
+    expect(screen.getByPlaceholderText('I thought that...')).toHaveValue('Missing: Entropy never decreases');
+
+    await user.click(screen.getByRole('button', { name: /Save Analysis/ }));
+    expect(props.onAddMistake).toHaveBeenCalledWith(expect.objectContaining({
+      questionId: 'a1',
+      userAnswer: 'Heat goes to the cold side.',
+      note: 'Missing: Entropy never decreases',
+    }));
+
+    await user.click(screen.getByRole('button', { name: /End Quiz/ }));
+    expect(props.onQuizComplete.mock.calls[0][0]).toMatchObject({ score: 0.5, totalQuestions: 1 });
+  });
+});
+
+describe('TestSection results', () => {
+  it('reports per-question outcomes when the quiz ends', async () => {
+    const { user, props } = await renderQuiz();
+    await user.click(screen.getByRole('button', { name: /First Law/ }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    await goToQuestion(user, 5);
+    await user.click(screen.getByRole('button', { name: /Always decreases/ }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    await user.click(screen.getByRole('button', { name: /Save Analysis/ }));
+    await user.click(screen.getByRole('button', { name: /End Quiz/ }));
+
+    expect(props.onQuizComplete).toHaveBeenCalledTimes(1);
+    const result = props.onQuizComplete.mock.calls[0][0];
+    expect(result).toMatchObject({ score: 1, totalQuestions: 2 });
+    expect(result.outcomes).toEqual([
+      expect.objectContaining({ questionId: 'c1', type: 'choose', isCorrect: true }),
+      expect.objectContaining({ questionId: 'c2', type: 'choose', isCorrect: false }),
+    ]);
+    expect(result.outcomes[0].timeTakenMs).toBeGreaterThanOrEqual(0);
+    expect(props.onAddMistake).toHaveBeenCalledWith(expect.objectContaining({ questionId: 'c2' }));
+  });
+
+  it('does not record a quiz ended before any answer', async () => {
+    const { user, props } = await renderQuiz();
+    await user.click(screen.getByRole('button', { name: /End Quiz/ }));
+    expect(props.onQuizComplete).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /start quiz/i })).toBeInTheDocument();
+  });
+
+  const answerTwoAndEnd = async () => {
+    const session = await renderQuiz();
+    const { user } = session;
+    await user.click(screen.getByRole('button', { name: /First Law/ }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    await user.type(screen.getByPlaceholderText('type answer...'), 'enthalpy');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    await user.click(await screen.findByRole('button', { name: /Save Analysis/ }));
+    await user.click(screen.getByRole('button', { name: /End Quiz/ }));
+    return session;
+  };
+
+  it('shows a results screen with a per-type breakdown and every question', async () => {
+    await answerTwoAndEnd();
+
+    expect(screen.getByText('Quiz Results')).toBeInTheDocument();
+    expect(screen.getByText('2 of 10')).toBeInTheDocument();
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent(/Choose\s*1 \/ 1\s*3/);
+    expect(rows[2]).toHaveTextContent(/Fill the Blank\s*0 \/ 1\s*1/);
+
+    const review = within(screen.getByRole('list'));
+    expect(review.getAllByRole('listitem')).toHaveLength(10);
+    expect(review.getByText('The measure of disorder in a system is called ___.')).toBeInTheDocument();
+    expect(review.getByText('enthalpy')).toBeInTheDocument();
+    expect(review.getByText('That names a related idea, but not the one this sentence describes.')).toBeInTheDocument();
+    expect(review.getAllByText('Skipped')).toHaveLength(8);
+  });
+
+  it('retries only the wrong questions from the results screen', async () => {
+    const { user, props } = await answerTwoAndEnd();
+
+    await user.click(screen.getByRole('button', { name: 'Retry wrong questions (1)' }));
+    expect(screen.getByText('/ 1')).toBeInTheDocument();
+    await user.type(screen.getByPlaceholderText('type answer...'), 'entropy');
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    expect(await screen.findByText('Correct')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Finish Quiz' }));
+
+    expect(props.onQuizComplete).toHaveBeenCalledTimes(2);
+    expect(props.onQuizComplete.mock.calls[0][0]).toMatchObject({ isRetry: false });
+    expect(props.onQuizComplete.mock.calls[1][0]).toMatchObject({ score: 1, totalQuestions: 1, isRetry: true, outcomes: [expect.objectContaining({ questionId: 'f1' })] });
+    expect(screen.getByRole('button', { name: 'Retry wrong questions (0)' })).toBeDisabled();
+  });
+});
+
+describe('TestSection navigation', () => {
+  it('interleaves every question type in one run', async () => {
+    const { user } = await renderQuiz();
+    // Ten questions by default: 4 choose and 2 of each other type.
+    expect(screen.getByText('/ 10')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByPlaceholderText('type answer...')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getAllByRole('combobox')).toHaveLength(4);
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByPlaceholderText('Type your answer here...')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByRole('button', { name: /Always decreases/ })).toBeInTheDocument();
+
+    await goToQuestion(user, 10);
+    expect(screen.getByRole('button', { name: 'Finish Quiz' })).toBeInTheDocument();
+  });
+
+  it('shows a checked answer again when going back to it', async () => {
+    const { user } = await renderQuiz();
+    await user.click(screen.getByRole('button', { name: /First Law/ }));
+    await user.click(screen.getByRole('button', { name: 'Check Answer' }));
+    await user.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByRole('button', { name: 'Check Answer' })).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Previous' }));
+    expectCorrect();
+    expect(screen.getByRole('button', { name: /First Law/ })).toBeDisabled();
+  });
+});
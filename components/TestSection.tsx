@@ -1,10 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { QuizData, QuestionType, MistakeItem, QuizResult } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { QuizData, MistakeItem, ReviewSchedule, QuizResult, QuestionOutcome, QuizConfig, ShortAnswerGrade, RubricPointStatus, BlankGrade, QuizItem, QuizResponse, MultipleChoiceQuestion, FillBlankQuestion, MatchQuestion, ShortAnswerQuestion } from '../types';
 import { generateQuiz } from '../services/geminiService';
+import { buildQuizRun, describeQuizAnswer, formatDuration } from '../services/quizService';
+import { describeGaps, formatGradeReason, gradeBlankAnswer, gradeShortAnswer } from '../services/gradingService';
 import { Button } from './Button';
-import { CheckCircle, AlertCircle, RefreshCcw, Sparkles, BookOpen } from 'lucide-react';
+import { CheckCircle, AlertCircle, RefreshCcw, Sparkles, BookOpen, Loader2, CircleDashed, XCircle, Clock } from 'lucide-react';
 import { AdaptiveQuizSetup } from './AdaptiveQuizSetup';
-import { MistakeNotebook } from './MistakeNotebook';
+import { MISTAKE_CATEGORIES, MistakeNotebook } from './MistakeNotebook';
+import { QUESTION_TYPE_LABELS } from './QuestionMixPicker';
+import { QuizResults } from './QuizResults';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface TestSectionProps {
   contextText: string;
@@ -12,10 +17,21 @@ interface TestSectionProps {
   onAddMistake: (mistake: MistakeItem) => void;
   onUpdateMistake: (id: string, note: string) => void;
   onDeleteMistake: (id: string) => void;
+  onReviewMistake: (id: string, review: ReviewSchedule) => void;
   onQuizComplete: (result: QuizResult) => void;
 }
 
-type ViewState = 'setup' | 'quiz' | 'mistake_review';
+type ViewState = 'setup' | 'quiz' | 'results' | 'mistake_review';
+
+const RUBRIC_STYLES: Record<RubricPointStatus, { icon: React.ReactNode; className: string }> = {
+  covered: { icon: <CheckCircle className="w-4 h-4 shrink-0" />, className: 'text-green-700 dark:text-green-400' },
+  partial: { icon: <CircleDashed className="w-4 h-4 shrink-0" />, className: 'text-amber-700 dark:text-amber-400' },
+  missing: { icon: <XCircle className="w-4 h-4 shrink-0" />, className: 'text-red-700 dark:text-red-400' },
+  incorrect: { icon: <AlertCircle className="w-4 h-4 shrink-0" />, className: 'text-red-700 dark:text-red-400' },
+};
+
+/** Points earned by one outcome: its partial credit, or all or nothing. */
+const outcomeCredit = (outcome: QuestionOutcome) => outcome.credit ?? (outcome.isCorrect ? 1 : 0);
 
 export const TestSection: React.FC<TestSectionProps> = ({ 
   contextText, 
@@ -23,24 +39,37 @@ export const TestSection: React.FC<TestSectionProps> = ({
   onAddMistake,
   onUpdateMistake,
   onDeleteMistake,
+  onReviewMistake,
   onQuizComplete
 }) => {
+  const { t } = useTranslation();
   const [viewState, setViewState] = useState<ViewState>('setup');
   
   const [quizData, setQuizData] = useState<QuizData | null>(null);
   const [quizConfig, setQuizConfig] = useState<{difficulty: string}>({difficulty: 'Medium'});
   const [isLoading, setIsLoading] = useState(false);
-  const [activeType, setActiveType] = useState<QuestionType>('choose');
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  // Every question type in one ordered run; a retry runs just the wrong ones.
+  const [run, setRun] = useState<QuizItem[]>([]);
+  const [isRetryRun, setIsRetryRun] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
 
   // State for user answers
   const [selectedOption, setSelectedOption] = useState<string>('');
   const [textInput, setTextInput] = useState<string>('');
   const [matchSelections, setMatchSelections] = useState<Record<string, string>>({}); 
   const [showResult, setShowResult] = useState(false);
-
-  // Score tracking for current session
-  const [correctCount, setCorrectCount] = useState(0);
+  const [grade, setGrade] = useState<ShortAnswerGrade | null>(null);
+  const [blankGrade, setBlankGrade] = useState<BlankGrade | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradingError, setGradingError] = useState('');
+
+  // Checked questions of the current run, keyed by run index, so going back
+  // to one shows its answer instead of asking again
+  const [responses, setResponses] = useState<Record<number, QuizResponse>>({});
+  const questionShownAtRef = useRef(Date.now());
+  const [elapsedMs, setElapsedMs] = useState(0);
+  // Short answers can earn partial credit, so the score may be fractional.
+  const score = Object.values<QuizResponse>(responses).reduce((sum, r) => sum + outcomeCredit(r.outcome), 0);
 
   // Mistake Capture State
   const [mistakeCategory, setMistakeCategory] = useState('Concept Error');
@@ -51,9 +80,16 @@ export const TestSection: React.FC<TestSectionProps> = ({
     // Reset if context significantly changes? (optional)
   }, [contextText]);
 
+  // The question timer ticks until the answer is checked.
+  useEffect(() => {
+    if (viewState !== 'quiz' || showResult) return;
+    const timer = setInterval(() => setElapsedMs(Date.now() - questionShownAtRef.current), 1000);
+    return () => clearInterval(timer);
+  }, [viewState, showResult, currentIndex]);
+
   // --- Handlers ---
 
-  const handleStartQuiz = async (config: { topics: string[], difficulty: string, count: number }) => {
+  const handleStartQuiz = async (config: QuizConfig) => {
     setIsLoading(true);
     setQuizConfig({ difficulty: config.difficulty });
     try {
@@ -62,12 +98,9 @@ export const TestSection: React.FC<TestSectionProps> = ({
         ? `Focus topics: ${config.topics.join(', ')}. \nContext: ${contextText}` 
         : contextText;
         
-      const data = await generateQuiz(focusText || "General Knowledge", config.difficulty, config.count);
+      const data = await generateQuiz(focusText || "General Knowledge", config.difficulty, config.count, config.mix);
       setQuizData(data);
-      setCurrentQuestionIndex(0);
-      setCorrectCount(0);
-      resetInteraction();
-      setViewState('quiz');
+      startRun(buildQuizRun(data));
     } catch (e) {
       console.error(e);
     } finally {
@@ -75,114 +108,174 @@ export const TestSection: React.FC<TestSectionProps> = ({
     }
   };
 
+  const startRun = (items: QuizItem[], isRetry = false) => {
+    setRun(items);
+    setIsRetryRun(isRetry);
+    setCurrentIndex(0);
+    setResponses({});
+    resetInteraction();
+    setViewState('quiz');
+  };
+
   const resetInteraction = () => {
     setSelectedOption('');
     setTextInput('');
     setMatchSelections({});
     setShowResult(false);
+    setGrade(null);
+    setBlankGrade(null);
+    setGradingError('');
     setShowMistakeForm(false);
     setMistakeNote('');
     setMistakeCategory('Concept Error');
+    setElapsedMs(0);
+    questionShownAtRef.current = Date.now();
   };
 
-  const handleTypeChange = (type: QuestionType) => {
-    setActiveType(type);
-    setCurrentQuestionIndex(0);
+  const goToQuestion = (index: number) => {
+    setCurrentIndex(index);
     resetInteraction();
+    const saved = responses[index];
+    if (saved) {
+      setSelectedOption(saved.selectedOption);
+      setTextInput(saved.textInput);
+      setMatchSelections(saved.matchSelections);
+      setGrade(saved.grade || null);
+      setBlankGrade(saved.blankGrade || null);
+      setShowResult(true);
+    }
   };
 
+  // Scores only the questions actually answered and shows the results; a
+  // quiz ended before any answer is checked is not recorded.
   const finishQuiz = () => {
-    if (quizData) {
-        // Calculate final result
+    const answered = run.map((_, i) => responses[i]?.outcome).filter(Boolean) as QuestionOutcome[];
+    if (quizData && answered.length > 0) {
         const result: QuizResult = {
             id: Date.now().toString(),
             topic: quizData.topic,
             difficulty: quizConfig.difficulty,
-            score: correctCount,
-            totalQuestions: 5, // Currently hardcoded to 5 per type section in UI flow, need to adapt if we change navigation
-            timestamp: Date.now()
+            score,
+            totalQuestions: answered.length,
+            timestamp: Date.now(),
+            outcomes: answered,
+            isRetry: isRetryRun
         };
         onQuizComplete(result);
+        setViewState('results');
+    } else {
+        setViewState('setup');
     }
-    setViewState('setup');
   };
 
+  const currentItem: QuizItem | undefined = run[currentIndex];
+  const currentResponse: QuizResponse | undefined = responses[currentIndex];
+  const isLastQuestion = currentIndex >= run.length - 1;
+
   const handleNext = () => {
     if (showMistakeForm) {
         handleSaveMistake();
     }
     
-    if (currentQuestionIndex < 4) { 
-      setCurrentQuestionIndex(prev => prev + 1);
-      resetInteraction();
+    if (!isLastQuestion) { 
+      goToQuestion(currentIndex + 1);
     } else {
-      // End of section
       finishQuiz();
     }
   };
 
   const handlePrevious = () => {
-    if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(prev => prev - 1);
-      resetInteraction();
+    if (currentIndex > 0) {
+      goToQuestion(currentIndex - 1);
     }
   };
 
+  const recordOutcome = (index: number, isCorrect: boolean, timeTakenMs: number, graded: Pick<QuizResponse, 'grade' | 'blankGrade'> & { credit?: number } = {}) => {
+      const item = run[index];
+      if (!item) return;
+      const { credit, ...grades } = graded;
+      const outcome: QuestionOutcome = { questionId: item.question.id, type: item.type, isCorrect, ...(credit !== undefined ? { credit } : {}), timeTakenMs };
+      setResponses(prev => ({
+          ...prev,
+          [index]: { selectedOption, textInput, matchSelections, ...grades, outcome }
+      }));
+
+      if (!isCorrect) {
+          setShowMistakeForm(true);
+      }
+  };
+
+  // Short answers are graded against the sample answer's key points; the
+  // points missed become the starting note of the mistake form.
+  const handleGradeAnswer = async (index: number, q: ShortAnswerQuestion) => {
+      const timeTakenMs = Date.now() - questionShownAtRef.current;
+      setIsGrading(true);
+      setGradingError('');
+      try {
+          const result = await gradeShortAnswer(q, textInput);
+          setGrade(result);
+          setShowResult(true);
+          if (!result.isCorrect) setMistakeNote(describeGaps(result.rubric, t) || formatGradeReason(result.feedback, t));
+          recordOutcome(index, result.isCorrect, timeTakenMs, { credit: result.score, grade: result });
+      } catch (error) {
+          console.error("Short answer grading error:", error);
+          setGradingError(t('quiz.gradingFailed'));
+      } finally {
+          setIsGrading(false);
+      }
+  };
+
+  // Fill-in-the-blank answers may be checked by the model when nothing
+  // matches locally, so they are graded asynchronously too.
+  const handleGradeBlank = async (index: number, q: FillBlankQuestion) => {
+      const timeTakenMs = Date.now() - questionShownAtRef.current;
+      setIsGrading(true);
+      try {
+          const result = await gradeBlankAnswer(q, textInput);
+          setBlankGrade(result);
+          setShowResult(true);
+          recordOutcome(index, result.isCorrect, timeTakenMs, { blankGrade: result });
+      } finally {
+          setIsGrading(false);
+      }
+  };
+
   const handleCheckAnswer = () => {
+      const item = currentItem;
+      if (!item) return;
+      if (item.type === 'answer') {
+          handleGradeAnswer(currentIndex, item.question);
+          return;
+      }
+      if (item.type === 'fill-blank') {
+          handleGradeBlank(currentIndex, item.question);
+          return;
+      }
       setShowResult(true);
       
-      let isCorrect = false;
-      if (activeType === 'choose') {
-          const q = quizData?.choose[currentQuestionIndex];
-          if (q) isCorrect = selectedOption === q.correctAnswer;
-      } else if (activeType === 'fill-blank') {
-          const q = quizData?.fillBlank[currentQuestionIndex];
-          if (q) isCorrect = textInput.toLowerCase().trim() === q.correctAnswer.toLowerCase().trim();
-      } else if (activeType === 'match') {
-          const q = quizData?.match[currentQuestionIndex];
-          if (q) {
-             isCorrect = q.pairs.every(p => matchSelections[p.left] === p.right);
-          }
-      } else if (activeType === 'answer') {
-          isCorrect = true; // Auto-pass short answer for now
-      }
+      const isCorrect = item.type === 'choose'
+          ? selectedOption === item.question.correctAnswer
+          : item.question.pairs.every(p => matchSelections[p.left] === p.right);
 
-      if (isCorrect) {
-          setCorrectCount(prev => prev + 1);
-      } else {
-          setShowMistakeForm(true);
-      }
+      recordOutcome(currentIndex, isCorrect, Date.now() - questionShownAtRef.current);
   };
 
   const handleSaveMistake = () => {
-      if (!quizData) return;
+      if (!quizData || !currentItem) return;
       
-      let qText = "";
-      let cAnswer = "";
-      let uAnswer = "";
-
-      if (activeType === 'choose') {
-          const q = quizData.choose[currentQuestionIndex];
-          qText = q.question;
-          cAnswer = q.correctAnswer;
-          uAnswer = selectedOption;
-      } else if (activeType === 'fill-blank') {
-          const q = quizData.fillBlank[currentQuestionIndex];
-          qText = q.question;
-          cAnswer = q.correctAnswer;
-          uAnswer = textInput;
-      }
+      const { questionText, userAnswer, correctAnswer } = describeQuizAnswer(currentItem, { selectedOption, textInput, matchSelections });
 
       onAddMistake({
           id: Date.now().toString(),
-          questionId: currentQuestionIndex.toString(),
-          questionText: qText || "Question",
-          userAnswer: uAnswer || "No Answer",
-          correctAnswer: cAnswer || "Answer",
+          questionId: currentItem.question.id,
+          questionText: questionText || "Question",
+          userAnswer: userAnswer || "No Answer",
+          correctAnswer: correctAnswer || "Answer",
           category: mistakeCategory,
           note: mistakeNote || "No note provided",
           topic: quizData.topic,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          question: currentItem
       });
       
       setShowMistakeForm(false);
@@ -194,17 +287,17 @@ export const TestSection: React.FC<TestSectionProps> = ({
       return (
           <div className="h-full relative">
               {mistakes.length > 0 && (
-                  <div className="absolute top-4 right-4 z-10">
+                  <div className="absolute top-4 end-4 z-10">
                       <Button variant="secondary" onClick={() => setViewState('mistake_review')} icon={<BookOpen className="w-4 h-4"/>}>
-                          Mistake Notebook
+                          {t('quiz.mistakeNotebook')}
                       </Button>
                   </div>
               )}
               {isLoading ? (
                   <div className="flex flex-col items-center justify-center h-full animate-pulse">
                         <div className="w-16 h-16 bg-gray-200 dark:bg-gray-800 rounded-full mb-4"></div>
-                        <h2 className="text-xl font-bold text-gray-400">Generating Assessment...</h2>
-                        <p className="text-gray-400 mt-2">Crafting questions based on your config.</p>
+                        <h2 className="text-xl font-bold text-gray-400">{t('quiz.generating')}</h2>
+                        <p className="text-gray-400 mt-2">{t('quiz.generatingHint')}</p>
                   </div>
               ) : (
                   <AdaptiveQuizSetup 
@@ -217,6 +310,18 @@ export const TestSection: React.FC<TestSectionProps> = ({
       );
   }
 
+  if (viewState === 'results' && quizData) {
+      return (
+          <QuizResults
+            topic={quizData.topic}
+            run={run}
+            responses={responses}
+            onRetry={(items) => startRun(items, true)}
+            onNewQuiz={() => setViewState('setup')}
+          />
+      );
+  }
+
   if (viewState === 'mistake_review') {
       return (
           <MistakeNotebook 
@@ -224,19 +329,14 @@ export const TestSection: React.FC<TestSectionProps> = ({
             onBack={() => setViewState('setup')} 
             onUpdateNote={onUpdateMistake}
             onDeleteMistake={onDeleteMistake}
+            onReviewMistake={onReviewMistake}
           />
       );
   }
 
   // QUIZ VIEW LOGIC
 
-  const renderChoose = () => {
-    if (!quizData) return null;
-    const q = quizData.choose[currentQuestionIndex];
-    if (!q) return <div>No question data</div>;
-
-    const isCorrect = selectedOption === q.correctAnswer;
-
+  const renderChoose = (q: MultipleChoiceQuestion) => {
     return (
       <div className="space-y-6">
         <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">{q.question}</h3>
@@ -246,7 +346,7 @@ export const TestSection: React.FC<TestSectionProps> = ({
               key={idx}
               onClick={() => { if(!showResult) setSelectedOption(opt); }}
               disabled={showResult}
-              className={`w-full text-left p-4 rounded-xl border-2 transition-all flex items-center justify-between
+              className={`w-full text-start p-4 rounded-xl border-2 transition-all flex items-center justify-between
                 ${selectedOption === opt 
                   ? 'border-black dark:border-white bg-gray-50 dark:bg-gray-800' 
                   : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'}
@@ -267,11 +367,7 @@ export const TestSection: React.FC<TestSectionProps> = ({
     );
   };
 
-  const renderFillBlank = () => {
-    if (!quizData) return null;
-    const q = quizData.fillBlank[currentQuestionIndex];
-    if (!q) return null;
-
+  const renderFillBlank = (q: FillBlankQuestion) => {
     const parts = q.sentence.split('___');
 
     return (
@@ -284,32 +380,34 @@ export const TestSection: React.FC<TestSectionProps> = ({
                 type="text" 
                 value={textInput}
                 onChange={(e) => setTextInput(e.target.value)}
-                disabled={showResult}
+                disabled={showResult || isGrading}
                 className={`w-full bg-transparent border-b-2 outline-none text-center font-bold px-2
                    ${showResult 
-                      ? (textInput.toLowerCase().trim() === q.correctAnswer.toLowerCase().trim() ? 'border-green-500 text-green-600' : 'border-red-500 text-red-600')
+                      ? (blankGrade?.isCorrect ? 'border-green-500 text-green-600' : 'border-red-500 text-red-600')
                       : 'border-gray-400 focus:border-black dark:focus:border-white'
                    }
                 `}
-                placeholder="type answer..."
+                placeholder={t('quiz.blankPlaceholder')}
               />
-              {showResult && textInput.toLowerCase().trim() !== q.correctAnswer.toLowerCase().trim() && (
-                 <div className="absolute top-full left-0 w-full text-xs text-green-600 font-sans mt-1 text-center bg-green-50 px-1 py-0.5 rounded">
-                    Ans: {q.correctAnswer}
+              {showResult && !blankGrade?.isCorrect && (
+                 <div className="absolute top-full start-0 w-full text-xs text-green-600 font-sans mt-1 text-center bg-green-50 px-1 py-0.5 rounded">
+                    {t('quiz.blankAnswer', { answer: q.correctAnswer })}
                  </div>
               )}
            </span>
            {parts[1]}
         </div>
+        {showResult && blankGrade && (
+            <p className={`pt-4 text-sm flex items-center gap-2 ${blankGrade.isCorrect ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                {blankGrade.isCorrect ? <CheckCircle className="w-4 h-4 shrink-0" /> : <AlertCircle className="w-4 h-4 shrink-0" />}
+                {formatGradeReason(blankGrade.reason, t)}
+            </p>
+        )}
       </div>
     );
   };
 
-  const renderMatch = () => {
-    if (!quizData) return null;
-    const q = quizData.match[currentQuestionIndex];
-    if (!q) return null;
-
+  const renderMatch = (q: MatchQuestion) => {
     const rightOptions = q.pairs.map(p => p.right).sort(); 
 
     return (
@@ -332,13 +430,13 @@ export const TestSection: React.FC<TestSectionProps> = ({
                                 onChange={(e) => setMatchSelections({...matchSelections, [pair.left]: e.target.value})}
                                 disabled={showResult}
                             >
-                                <option value="">Select match...</option>
+                                <option value="">{t('quiz.selectMatch')}</option>
                                 {rightOptions.map((opt, i) => (
                                     <option key={i} value={opt}>{opt}</option>
                                 ))}
                             </select>
                             {showResult && matchSelections[pair.left] !== pair.right && (
-                                <div className="text-xs text-green-600 mt-1">Correct: {pair.right}</div>
+                                <div className="text-xs text-green-600 mt-1">{t('quiz.matchAnswer', { answer: pair.right })}</div>
                             )}
                         </div>
                     </div>
@@ -348,25 +446,48 @@ export const TestSection: React.FC<TestSectionProps> = ({
     );
   };
 
-  const renderAnswer = () => {
-     if (!quizData) return null;
-     const q = quizData.answer[currentQuestionIndex];
-     if (!q) return null;
-
+  const renderAnswer = (q: ShortAnswerQuestion) => {
      return (
         <div className="space-y-6">
             <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">{q.question}</h3>
             <textarea 
                 className="w-full h-32 p-4 rounded-xl border-2 border-gray-200 dark:border-gray-700 focus:border-black dark:focus:border-white outline-none bg-transparent resize-none"
-                placeholder="Type your answer here..."
+                placeholder={t('quiz.answerPlaceholder')}
                 value={textInput}
                 onChange={(e) => setTextInput(e.target.value)}
-                disabled={showResult}
+                disabled={showResult || isGrading}
             />
+            {gradingError && (
+                <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {gradingError}</p>
+            )}
+            {showResult && grade && (
+                <div className="p-4 rounded-xl border-2 border-gray-200 dark:border-gray-700">
+                    <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-sm font-bold text-gray-700 dark:text-gray-200">{t('quiz.rubric')}</h4>
+                        <span className={`px-2 py-0.5 rounded-lg text-sm font-mono font-bold ${grade.isCorrect ? 'bg-green-100 text-green-700' : grade.score > 0 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'}`}>
+                            {Math.round(grade.score * 100)}%
+                        </span>
+                    </div>
+                    {grade.rubric.length > 0 && (
+                        <ul className="space-y-2 mb-3">
+                            {grade.rubric.map((point, idx) => (
+                                <li key={idx} className={`flex items-start gap-2 text-sm ${RUBRIC_STYLES[point.status].className}`}>
+                                    {RUBRIC_STYLES[point.status].icon}
+                                    <span>
+                                        <span className="font-medium">{point.point}</span>
+                                        {point.comment && <span className="block text-xs opacity-80">{point.comment}</span>}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {grade.feedback && <p className="text-sm text-gray-600 dark:text-gray-300">{formatGradeReason(grade.feedback, t)}</p>}
+                </div>
+            )}
             {showResult && (
                 <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-xl border border-blue-100 dark:border-blue-800">
                     <h4 className="text-sm font-bold text-blue-700 dark:text-blue-300 mb-2 flex items-center gap-2">
-                        <Sparkles className="w-4 h-4"/> AI Sample Answer
+                        <Sparkles className="w-4 h-4"/> {t('quiz.sampleAnswer')}
                     </h4>
                     <p className="text-blue-900 dark:text-blue-100 text-sm">{q.sampleAnswer}</p>
                 </div>
@@ -375,7 +496,7 @@ export const TestSection: React.FC<TestSectionProps> = ({
      );
   };
 
-  if (!quizData) return null; 
+  if (!quizData || !currentItem) return null;
 
   return (
     <div className="flex flex-col items-center pt-8 px-4 w-full h-full animate-fade-in">
@@ -384,15 +505,15 @@ export const TestSection: React.FC<TestSectionProps> = ({
             {/* Header */}
             <div className="flex justify-between items-end mb-6 shrink-0">
                 <div>
-                    <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Active Assessment</h1>
-                    <p className="text-gray-500 dark:text-gray-400 mt-1">Topic: <span className="font-semibold text-indigo-600 dark:text-indigo-400">{quizData.topic}</span></p>
+                    <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('quiz.title')}</h1>
+                    <p className="text-gray-500 dark:text-gray-400 mt-1">{t('quiz.topic')} <span className="font-semibold text-indigo-600 dark:text-indigo-400">{quizData.topic}</span></p>
                 </div>
                 <div className="flex gap-2">
                      <div className="px-3 py-1 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm font-mono">
-                        Score: {correctCount}/{currentQuestionIndex}
+                        {t('quiz.score', { score: Math.round(score * 10) / 10, total: Object.keys(responses).length })}
                      </div>
-                     <Button variant="secondary" onClick={() => setViewState('setup')} icon={<RefreshCcw className="w-4 h-4"/>}>
-                        End Quiz
+                     <Button variant="secondary" onClick={finishQuiz} icon={<RefreshCcw className="w-4 h-4"/>}>
+                        {t('quiz.end')}
                     </Button>
                 </div>
             </div>
@@ -406,52 +527,56 @@ export const TestSection: React.FC<TestSectionProps> = ({
                         <div className="flex justify-between items-start mb-8">
                             <div>
                                 <h2 className="text-xl font-bold text-gray-900 dark:text-white">
-                                    Question {currentQuestionIndex + 1}
-                                    <span className="text-gray-400 font-medium text-lg ml-1">/ 5</span>
+                                    {t('quiz.question', { n: currentIndex + 1 })}
+                                    <span className="text-gray-400 font-medium text-lg ms-1">/ {run.length}</span>
                                 </h2>
                                 <div className="h-1 w-12 bg-black dark:bg-white mt-2"></div>
+                                <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mt-3">{t(QUESTION_TYPE_LABELS[currentItem.type])}</p>
+                            </div>
+                            <div className="px-3 py-1 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm font-mono flex items-center gap-2" aria-label={t('quiz.questionTime')}>
+                                <Clock className="w-4 h-4 text-gray-400" />
+                                {formatDuration(currentResponse ? currentResponse.outcome.timeTakenMs : elapsedMs)}
                             </div>
                         </div>
 
-                        <div className="animate-fade-in">
-                            {activeType === 'choose' && renderChoose()}
-                            {activeType === 'fill-blank' && renderFillBlank()}
-                            {activeType === 'match' && renderMatch()}
-                            {activeType === 'answer' && renderAnswer()}
+                        <div key={currentIndex} className="animate-fade-in">
+                            {currentItem.type === 'choose' && renderChoose(currentItem.question)}
+                            {currentItem.type === 'fill-blank' && renderFillBlank(currentItem.question)}
+                            {currentItem.type === 'match' && renderMatch(currentItem.question)}
+                            {currentItem.type === 'answer' && renderAnswer(currentItem.question)}
                         </div>
 
                         {showMistakeForm && (
                              <div className="mt-8 p-6 bg-red-50 dark:bg-red-900/10 border-2 border-red-100 dark:border-red-900/30 rounded-xl animate-fade-in">
                                  <h4 className="text-red-800 dark:text-red-300 font-bold mb-4 flex items-center gap-2">
-                                     <AlertCircle className="w-5 h-5" /> Incorrect Answer. Analyze your mistake:
+                                     <AlertCircle className="w-5 h-5" /> {t('quiz.analyzeMistake')}
                                  </h4>
                                  <div className="grid sm:grid-cols-2 gap-4 mb-4">
                                      <div>
-                                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Category</label>
+                                         <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t('quiz.category')}</label>
                                          <select 
                                             value={mistakeCategory}
                                             onChange={(e) => setMistakeCategory(e.target.value)}
                                             className="w-full p-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg outline-none"
                                          >
-                                             <option>Concept Error</option>
-                                             <option>Calculation</option>
-                                             <option>Misread Question</option>
-                                             <option>Guessing</option>
+                                             {Object.entries(MISTAKE_CATEGORIES).map(([category, label]) => (
+                                                 <option key={category} value={category}>{t(label)}</option>
+                                             ))}
                                          </select>
                                      </div>
                                  </div>
                                  <div>
-                                      <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Why did you miss this?</label>
+                                      <label className="block text-xs font-bold text-gray-500 uppercase mb-1">{t('quiz.whyMissed')}</label>
                                       <textarea 
                                         value={mistakeNote}
                                         onChange={(e) => setMistakeNote(e.target.value)}
                                         className="w-full p-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg outline-none"
                                         rows={2}
-                                        placeholder="I thought that..."
+                                        placeholder={t('quiz.whyMissedPlaceholder')}
                                       />
                                  </div>
                                  <div className="flex justify-end mt-4">
-                                     <Button onClick={handleSaveMistake} className="text-xs">Save Analysis & Continue</Button>
+                                     <Button onClick={handleSaveMistake} className="text-xs">{t('quiz.saveMistake')}</Button>
                                  </div>
                              </div>
                         )}
@@ -463,66 +588,77 @@ export const TestSection: React.FC<TestSectionProps> = ({
                         <div className="flex gap-2">
                              <button 
                                 onClick={handlePrevious} 
-                                disabled={currentQuestionIndex === 0 || showMistakeForm}
+                                disabled={currentIndex === 0 || showMistakeForm || isGrading}
                                 className="px-4 py-2 text-sm font-bold text-gray-500 hover:text-black dark:hover:text-white disabled:opacity-30 transition-colors"
                              >
-                                Previous
+                                {t('quiz.previous')}
                              </button>
                              <button 
                                 onClick={handleNext}
-                                disabled={showMistakeForm}
+                                disabled={showMistakeForm || isGrading}
                                 className="px-4 py-2 text-sm font-bold text-gray-500 hover:text-black dark:hover:text-white disabled:opacity-30 transition-colors"
                              >
-                                {currentQuestionIndex === 4 ? "Finish Quiz" : "Next"}
+                                {isLastQuestion ? t('quiz.finish') : t('quiz.next')}
                              </button>
                         </div>
                         
                         {!showResult ? (
                             <button 
                                 onClick={handleCheckAnswer}
-                                className="bg-black dark:bg-white text-white dark:text-black px-6 py-2 rounded-lg font-bold shadow-lg hover:transform hover:scale-105 transition-all"
+                                disabled={isGrading}
+                                className="bg-black dark:bg-white text-white dark:text-black px-6 py-2 rounded-lg font-bold shadow-lg hover:transform hover:scale-105 transition-all disabled:opacity-60 disabled:hover:scale-100 flex items-center gap-2"
                             >
-                                Check Answer
+                                {isGrading ? <><Loader2 className="w-4 h-4 animate-spin" /> {t('quiz.grading')}</> : t('quiz.check')}
                             </button>
                         ) : (
-                             !showMistakeForm && (
-                                <div className="flex items-center gap-2 text-green-600 font-bold px-4">
-                                    <CheckCircle className="w-5 h-5"/> Correct
-                                </div>
+                             !showMistakeForm && currentResponse && (
+                                currentResponse.outcome.isCorrect ? (
+                                    <div className="flex items-center gap-2 text-green-600 font-bold px-4">
+                                        <CheckCircle className="w-5 h-5"/> {t('quiz.correct')}
+                                    </div>
+                                ) : (
+                                    <div className="flex items-center gap-2 text-red-600 font-bold px-4">
+                                        <XCircle className="w-5 h-5"/> {t('quiz.incorrect')}
+                                    </div>
+                                )
                              )
                         )}
                     </div>
                 </div>
 
-                {/* Right: Type Sidebar */}
-                <div className="w-64 bg-gray-50 dark:bg-gray-900/30 border-l border-gray-200 dark:border-gray-800 p-6 flex flex-col rounded-r-2xl hidden md:flex shrink-0">
-                    <h3 className="font-bold text-gray-700 dark:text-gray-300 mb-6 text-xs uppercase tracking-wider">Question Type</h3>
+                {/* Right: Question List */}
+                <div className="w-64 bg-gray-50 dark:bg-gray-900/30 border-s border-gray-200 dark:border-gray-800 p-6 flex flex-col rounded-e-2xl hidden md:flex shrink-0 overflow-y-auto custom-scrollbar">
+                    <h3 className="font-bold text-gray-700 dark:text-gray-300 mb-6 text-xs uppercase tracking-wider">{t('quiz.questions')}</h3>
                     
-                    <div className="space-y-2 relative">
-                         <div className="absolute left-[7px] top-2 bottom-2 w-0.5 bg-gray-200 dark:bg-gray-700 -z-10"></div>
-                         {[
-                             { id: 'choose', label: 'Choose' },
-                             { id: 'fill-blank', label: 'Fill the Blank' },
-                             { id: 'match', label: 'Match' },
-                             { id: 'answer', label: 'Answer Question' }
-                         ].map((type) => (
-                             <div 
-                                key={type.id}
-                                onClick={() => handleTypeChange(type.id as QuestionType)}
-                                className="flex items-center gap-3 relative cursor-pointer group py-2"
-                             >
-                                <div className={`w-4 h-4 rounded-full border-2 transition-colors z-10
-                                    ${activeType === type.id 
-                                        ? 'bg-black dark:bg-white border-black dark:border-white' 
-                                        : 'bg-white dark:bg-black border-gray-300 dark:border-gray-600 group-hover:border-gray-500'}
-                                `}></div>
-                                <span className={`text-sm font-medium transition-colors
-                                     ${activeType === type.id ? 'text-black dark:text-white font-bold' : 'text-gray-500 dark:text-gray-400 group-hover:text-gray-700'}
-                                `}>
-                                    {type.label}
-                                </span>
-                             </div>
-                         ))}
+                    <div className="space-y-1 relative">
+                         <div className="absolute start-[7px] top-2 bottom-2 w-0.5 bg-gray-200 dark:bg-gray-700 -z-10"></div>
+                         {run.map((item, index) => {
+                             const outcome = responses[index]?.outcome;
+                             return (
+                                 <button 
+                                    key={`${item.type}:${item.question.id}`}
+                                    onClick={() => goToQuestion(index)}
+                                    disabled={showMistakeForm || isGrading}
+                                    aria-label={t('quiz.question', { n: index + 1 })}
+                                    aria-current={currentIndex === index ? 'step' : undefined}
+                                    className="w-full flex items-center gap-3 relative cursor-pointer group py-1.5 text-start disabled:cursor-not-allowed"
+                                 >
+                                    <div className={`w-4 h-4 rounded-full border-2 transition-colors z-10 shrink-0
+                                        ${currentIndex === index 
+                                            ? 'bg-black dark:bg-white border-black dark:border-white' 
+                                            : outcome
+                                                ? (outcome.isCorrect ? 'bg-green-500 border-green-500' : 'bg-red-500 border-red-500')
+                                                : 'bg-white dark:bg-black border-gray-300 dark:border-gray-600 group-hover:border-gray-500'}
+                                    `}></div>
+                                    <span className="text-xs font-mono text-gray-400 w-5">{index + 1}</span>
+                                    <span className={`text-sm font-medium transition-colors
+                                         ${currentIndex === index ? 'text-black dark:text-white font-bold' : 'text-gray-500 dark:text-gray-400 group-hover:text-gray-700'}
+                                    `}>
+                                        {t(QUESTION_TYPE_LABELS[item.type])}
+                                    </span>
+                                 </button>
+                             );
+                         })}
                     </div>
                 </div>
 
@@ -2,6 +2,7 @@ import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import { ShieldCheck, ExternalLink } from 'lucide-react';
 import { GroundingSource } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface VerifySectionProps {
   data: { explanation: string; sources: GroundingSource[] } | null;
@@ -11,6 +12,8 @@ interface VerifySectionProps {
 }
 
 export const VerifySection: React.FC<VerifySectionProps> = ({ data, isLoading, onVerify, hasInput }) => {
+  const { t } = useTranslation();
+
   if (isLoading) {
     return (
       <div className="p-8 space-y-4 animate-pulse bg-white dark:bg-gray-800 h-full transition-colors">
@@ -31,16 +34,16 @@ export const VerifySection: React.FC<VerifySectionProps> = ({ data, isLoading, o
         <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-full mb-4 text-green-600 dark:text-green-400">
            <ShieldCheck className="w-12 h-12" />
         </div>
-        <h3 className="text-xl font-medium text-gray-800 dark:text-gray-100 mb-2">Verify Facts</h3>
+        <h3 className="text-xl font-medium text-gray-800 dark:text-gray-100 mb-2">{t('verify.title')}</h3>
         <p className="text-gray-500 dark:text-gray-400 max-w-sm mb-6">
-          Use Gemini with Google Search to verify the claims in your document and find the latest information.
+          {t('verify.hint')}
         </p>
         <button
           onClick={onVerify}
           disabled={!hasInput}
           className="px-6 py-3 bg-green-600 text-white rounded-lg font-medium shadow-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
-          Check with Google Search
+          {t('verify.check')}
         </button>
       </div>
     );
@@ -51,7 +54,7 @@ export const VerifySection: React.FC<VerifySectionProps> = ({ data, isLoading, o
       <div className="p-6 border-b border-gray-100 dark:border-gray-700 bg-green-50/50 dark:bg-green-900/10">
         <h3 className="text-lg font-semibold text-green-800 dark:text-green-400 flex items-center gap-2">
           <ShieldCheck className="w-5 h-5" />
-          Verification Report
+          {t('verify.report')}
         </h3>
       </div>
       
@@ -62,7 +65,7 @@ export const VerifySection: React.FC<VerifySectionProps> = ({ data, isLoading, o
 
         {data.sources.length > 0 && (
           <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4 border border-gray-200 dark:border-gray-700">
-            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-3">Sources</h4>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-3">{t('verify.sources')}</h4>
             <div className="grid gap-2">
               {data.sources.map((source, idx) => (
                 <a 
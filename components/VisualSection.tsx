@@ -1,6 +1,7 @@
 import React from 'react';
 import { Sparkles, RefreshCcw, MessageSquare } from 'lucide-react';
 import { Button } from './Button';
+import { useTranslation } from '../hooks/useTranslation';
 
 interface VisualSectionProps {
   imageBase64: string | null;
@@ -13,14 +14,15 @@ export const VisualSection: React.FC<VisualSectionProps> = ({
   isLoading,
   regenerate
 }) => {
+  const { t } = useTranslation();
 
   if (isLoading) {
     return (
       <div className="h-full flex flex-col items-center justify-center p-8 text-center text-gray-500 dark:text-gray-400 animate-pulse bg-white dark:bg-gray-800 transition-colors">
         <Sparkles className="w-12 h-12 mb-4 text-purple-500 animate-bounce" />
-        <h3 className="text-xl font-medium text-gray-700 dark:text-gray-200">Generating Visuals...</h3>
+        <h3 className="text-xl font-medium text-gray-700 dark:text-gray-200">{t('visual.generating')}</h3>
         <p className="max-w-md mt-2">
-          Gemini is creating a custom infographic to explain your content. This uses the <span className="font-mono text-xs bg-gray-200 dark:bg-gray-700 px-1 rounded">flash-image</span> model.
+          {t('visual.generatingHint', { model: 'flash-image' })}
         </p>
       </div>
     );
@@ -32,7 +34,7 @@ export const VisualSection: React.FC<VisualSectionProps> = ({
         <div className="p-4 bg-gray-100 dark:bg-gray-700 rounded-full mb-4 transition-colors">
            <Sparkles className="w-8 h-8" />
         </div>
-        <p>Analyze text to generate a visual explanation.</p>
+        <p>{t('visual.empty')}</p>
       </div>
     );
   }
@@ -42,12 +44,12 @@ export const VisualSection: React.FC<VisualSectionProps> = ({
       <div className="flex-1 overflow-auto p-6 bg-gray-50 dark:bg-gray-900/50 flex items-center justify-center relative group">
         <img 
           src={imageBase64} 
-          alt="Generated Explanation" 
+          alt={t('visual.alt')} 
           className="max-w-full max-h-full object-contain rounded-lg shadow-md transition-transform duration-300"
         />
         <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity">
             <Button variant="secondary" onClick={regenerate} className="bg-white/90 dark:bg-gray-800/90 backdrop-blur" icon={<RefreshCcw className="w-4 h-4"/>}>
-                Regenerate
+                {t('visual.regenerate')}
             </Button>
         </div>
       </div>
@@ -55,10 +57,10 @@ export const VisualSection: React.FC<VisualSectionProps> = ({
       <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-purple-50/50 dark:bg-purple-900/10 transition-colors text-center">
         <div className="flex items-center justify-center gap-2 text-purple-700 dark:text-purple-300 text-sm font-medium animate-pulse">
             <MessageSquare className="w-4 h-4" />
-            <span>Use the main chat to edit this image</span>
+            <span>{t('visual.editHint')}</span>
         </div>
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            Example: "Add a robot", "Make the background blue", "Remove the text"
+            {t('visual.editExample')}
         </p>
       </div>
     </div>
@@ -1,7 +1,10 @@
-
 export const GEMINI_FLASH_MODEL = 'gemini-3-flash-preview';
 export const GEMINI_PRO_MODEL = 'gemini-3-pro-preview';
 export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
 export const SEARCH_TOOL_MODEL = 'gemini-3-flash-preview'; // Flash supports search well and is fast
 
+export const TTS_VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede'];
+
 export const INITIAL_PROMPT = "Summarize the text and explain the key concepts simply.";
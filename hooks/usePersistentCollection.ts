@@ -0,0 +1,54 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Repository } from '../services/storageService';
+
+/**
+ * React state backed by a storage repository. Items are loaded once on mount,
+ * then every state change is diffed against what was last written so only
+ * added/changed items are put and only removed ids are deleted.
+ *
+ * Items are compared by reference, so updates must replace the item object
+ * (the usual immutable `{ ...item, field }` pattern) to be persisted.
+ */
+export function usePersistentCollection<T extends { id: string }>(
+  repository: Repository<T>,
+  compare?: (a: T, b: T) => number
+): [T[], React.Dispatch<React.SetStateAction<T[]>>, boolean] {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const persistedRef = useRef<Map<string, T>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    repository.getAll()
+      .then(loaded => {
+        if (cancelled) return;
+        const sorted = compare ? [...loaded].sort(compare) : loaded;
+        persistedRef.current = new Map(sorted.map(item => [item.id, item]));
+        setItems(sorted);
+      })
+      .catch(error => console.error("Storage load error:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, [repository]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const previous = persistedRef.current;
+    const next = new Map(items.map(item => [item.id, item]));
+    const changed = items.filter(item => previous.get(item.id) !== item);
+    const removed = [...previous.keys()].filter(id => !next.has(id));
+    persistedRef.current = next;
+
+    if (changed.length > 0) {
+      repository.putMany(changed).catch(error => console.error("Storage save error:", error));
+    }
+    if (removed.length > 0) {
+      repository.removeMany(removed).catch(error => console.error("Storage delete error:", error));
+    }
+  }, [items, isLoaded, repository]);
+
+  return [items, setItems, isLoaded];
+}
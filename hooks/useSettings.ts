@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { AppSettings, getSettings, subscribeSettings, updateSettings } from '../services/settingsService';
+
+/**
+ * Settings as React state; every component using it re-renders on change.
+ */
+export function useSettings(): [AppSettings, (changes: Partial<AppSettings>) => void] {
+  const settings = useSyncExternalStore(subscribeSettings, getSettings);
+  return [settings, updateSettings];
+}
@@ -0,0 +1,12 @@
+import { useSettings } from './useSettings';
+import { LANGUAGES, LanguageInfo, translate, Translate } from '../services/i18n';
+
+/**
+ * `t` for the language chosen in Settings, plus that language's metadata.
+ */
+export function useTranslation(): { t: Translate; language: LanguageInfo } {
+  const [settings] = useSettings();
+  const language = LANGUAGES[settings.language] || LANGUAGES.en;
+  const t: Translate = (key, params) => translate(language.code, key, params);
+  return { t, language };
+}
@@ -0,0 +1,385 @@
+import type { MessageKey } from './en';
+
+/** Amharic (አማርኛ) UI strings. */
+export const am: Record<MessageKey, string> = {
+  'tab.learning': 'መማር',
+  'tab.test': 'ፈተና',
+  'tab.teach': 'ማስተማር',
+  'subtab.explanation': 'ማብራሪያ',
+  'subtab.visuals': 'ምስል',
+  'subtab.simulation': 'ማስመሰያ',
+  'subtab.verify': 'ማረጋገጫ',
+
+  'sidebar.newSession': 'አዲስ ክፍለ ጊዜ',
+  'sidebar.pasteLink': 'ሊንክ ለጥፍ',
+  'sidebar.metrics': 'መለኪያዎች',
+  'sidebar.projects': 'ፕሮጀክቶች',
+  'sidebar.history': 'ታሪክ',
+  'sidebar.recent': 'የቅርብ ጊዜ',
+  'sidebar.settings': 'ቅንብሮች',
+  'sidebar.profile': 'የተጠቃሚ መገለጫ',
+
+  'input.flashcards': 'ፍላሽካርዶች ፍጠር ✨',
+  'input.followUp': 'ተከታይ ጥያቄ',
+  'input.placeholder': 'ማንኛውንም ይጠይቁ፣ ሊንክ ይለጥፉ ወይም ሰነድ ይጫኑ...',
+  'input.placeholderAttachments': 'ስለእነዚህ ፋይሎች ይጠይቁ...',
+  'input.placeholderFollowUp': 'ስለዚህ ማብራሪያ ተከታይ ጥያቄ ይጠይቁ...',
+  'input.attach': 'ፋይሎችን አያይዝ',
+  'input.send': 'ላክ',
+  'input.disclaimer': 'Gemini ሊሳሳት ይችላል። እባክዎ የተፈጠሩትን ውጤቶች ይገምግሙ።',
+  'input.attachFailed': '{files} ማያያዝ አልተቻለም። እባክዎ PDF፣ ጽሑፍ፣ ምስል ወይም የድምፅ ፋይሎችን ይጠቀሙ።',
+  'input.audioUnsupported': '{files} ማያያዝ አልተቻለም፦ አሁን ያለው የAI አቅራቢ የሚቀበለው {formats} ድምፅ ብቻ ነው።',
+  'attachments.label': 'አባሪዎች',
+  'attachments.remove': '{name} አስወግድ',
+
+  'conversation.title': 'ውይይት',
+  'conversation.show': 'ውይይቱን አሳይ',
+  'conversation.hide': 'ውይይቱን ደብቅ',
+  'conversation.empty': 'ውይይቱን ለመጀመር ጥያቄ ይጠይቁ።',
+  'conversation.pending': 'በመስራት ላይ...',
+  'conversation.noAnswer': 'ለዚህ ጥያቄ የተቀመጠ መልስ የለም።',
+  'conversation.regenerate': 'እንደገና አመንጭ',
+  'conversation.regenerateHint': 'ይህን መልስ እንደገና ያመንጩ። ከዚህ በኋላ ያሉት ተራዎች ይወገዳሉ።',
+  'conversation.confirmRegenerateOne': 'ይህን መልስ እንደገና ማመንጨት ቀጣዩን ተራ ያስወግዳል። ይቀጥሉ?',
+  'conversation.confirmRegenerateMany': 'ይህን መልስ እንደገና ማመንጨት ቀጣዮቹን {count} ተራዎች ያስወግዳል። ይቀጥሉ?',
+  'output.explanation': 'ማብራሪያ',
+  'output.visual': 'ምስል',
+  'output.simulation': 'ማስመሰያ',
+  'output.verification': 'ማረጋገጫ',
+
+  'controls.level': 'ደረጃ',
+  'controls.style': 'ዘይቤ',
+  'controls.length': 'ርዝመት',
+  'controls.compare': 'ጎን ለጎን አወዳድር',
+  'controls.compareHint': 'በስክሪኑ ላይ ያለውን ማብራሪያ በእነዚህ ቅንብሮች እንደገና ይጻፉ እና ሁለቱንም ያሳዩ',
+  'controls.closeComparison': 'ንጽጽሩን ዝጋ',
+  'level.middle-school': 'መካከለኛ ደረጃ',
+  'level.undergrad': 'የመጀመሪያ ዲግሪ',
+  'level.expert': 'ባለሙያ',
+  'style.standard': 'መደበኛ',
+  'style.analogy': 'በምሳሌዎች',
+  'style.step-by-step': 'ደረጃ በደረጃ',
+  'style.socratic': 'በጥያቄ (ሶቅራጥሳዊ)',
+  'style.eli5': 'በጣም ቀላል',
+  'length.brief': 'አጭር',
+  'length.standard': 'መደበኛ',
+  'length.detailed': 'ዝርዝር',
+
+  'explanation.stop': 'ማመንጨት አቁም',
+  'explanation.appending': 'ተከታይ ጥያቄዎን በመመለስ ላይ...',
+  'explanation.sources': 'ምንጮች',
+  'explanation.empty': 'እስካሁን ምንም ማብራሪያ አልተዘጋጀም።',
+
+  'settings.language': 'ቋንቋ',
+  'settings.languageLabel': 'የመተግበሪያ ቋንቋ',
+  'settings.languageHint': 'ለበይነገጹ እና ለሚፈጠሩ ማብራሪያዎች፣ ፈተናዎች፣ ማረጋገጫዎች እና ማስመሰያዎች ያገለግላል።',
+
+  'settings.title': 'ቅንብሮች',
+  'settings.savedLocally': 'የሚቀመጠው በዚህ አሳሽ ውስጥ ብቻ ነው።',
+  'settings.reset': 'ወደ ነባሪ መልስ',
+  'settings.provider': 'የAI አቅራቢ',
+  'settings.providerLabel': 'አቅራቢ',
+  'settings.apiKey': 'የAPI ቁልፍ',
+  'settings.apiKeySaved': 'በ{last} የሚያልቅ የተቀመጠ ቁልፍ',
+  'settings.apiKeyFromEnv': 'ከ.env.local ያለውን ቁልፍ በመጠቀም ላይ',
+  'settings.show': 'አሳይ',
+  'settings.hide': 'ደብቅ',
+  'settings.rotate': 'ቀይር',
+  'settings.save': 'አስቀምጥ',
+  'settings.clear': 'አጽዳ',
+  'settings.record': 'ምላሾችን እንደ የሙከራ ፊክስቸር መዝግብ (በAI_FIXTURE_MODE=record የተጀመረ የልማት ሰርቨር)',
+  'settings.models': 'ሞዴሎች',
+  'settings.modelQuiz': 'ፈተና',
+  'settings.providerDefault': 'የአቅራቢው ነባሪ',
+  'settings.thinkingBudget': 'የማሰቢያ በጀት (ቶከኖች)',
+  'settings.sourceContext': 'የምንጭ አውድ',
+  'settings.contextBudget': 'የአውድ በጀት (ቶከኖች)',
+  'settings.semanticRetrieval': 'ምንባቦችን በኢምቤዲንግም ደርድር (ተጨማሪ የAPI ጥሪዎች)',
+  'settings.describeImages': 'የተሰቀሉ ምስሎችን ጽሑፋቸውን ከማንበብ በተጨማሪ በሞዴሉ አስገልጽ',
+  'settings.quizDefaults': 'የፈተና ነባሪዎች',
+  'settings.difficulty': 'ክብደት',
+  'settings.questionCount': 'የጥያቄዎች ብዛት',
+  'settings.questionTypes': 'የጥያቄ ዓይነቶች',
+  'settings.judgeBlankAnswers': 'ያልተዛመደ የባዶ ቦታ መልስ ተመሳሳይ ትርጉም እንዳለው ሞዴሉን ጠይቅ',
+  'settings.teachMode': 'የማስተማር ሁነታ',
+  'settings.teachLanguage': 'ነባሪ ቋንቋ',
+  'settings.speechRate': 'የንግግር ፍጥነት: {rate}×',
+  'settings.studentVoice': 'የ{name} ድምፅ',
+  'settings.defaultVoice': '{voice} (ነባሪ)',
+  'difficulty.Easy': 'ቀላል',
+  'difficulty.Medium': 'መካከለኛ',
+  'difficulty.Hard': 'ከባድ',
+
+  'quizSetup.title': 'ተለማማጅ ፈተና አዘጋጅ',
+  'quizSetup.aiGenerated': 'በAI የተፈጠረ',
+  'quizSetup.topics': 'ትኩረት የሚደረግባቸው ርዕሶች',
+  'quizSetup.addTopic': '+ ርዕስ ጨምር',
+  'quizSetup.removeTopic': '{topic}ን አስወግድ',
+  'quizSetup.difficulty': 'የክብደት ደረጃ:',
+  'quizSetup.recall': 'ማስታወስ',
+  'quizSetup.application': 'መተግበር',
+  'quizSetup.synthesis': 'ማቀናጀት',
+  'quizSetup.count.5': '(ፈጣን)',
+  'quizSetup.count.10': '(መደበኛ)',
+  'quizSetup.count.20': '(ጥልቅ)',
+  'quizSetup.start': 'ፈተና ጀምር',
+
+  'quiz.mistakeNotebook': 'የስህተት ማስታወሻ',
+  'quiz.generating': 'ፈተና በመዘጋጀት ላይ...',
+  'quiz.generatingHint': 'በቅንብሮችዎ መሠረት ጥያቄዎች እየተዘጋጁ ነው።',
+  'quiz.title': 'ንቁ ፈተና',
+  'quiz.topic': 'ርዕስ:',
+  'quiz.score': 'ውጤት: {score}/{total}',
+  'quiz.end': 'ፈተናውን ጨርስ',
+  'quiz.question': 'ጥያቄ {n}',
+  'quiz.questionTime': 'በዚህ ጥያቄ ላይ የወሰደው ጊዜ',
+  'quiz.blankPlaceholder': 'መልስ ይጻፉ...',
+  'quiz.blankAnswer': 'መልስ: {answer}',
+  'quiz.selectMatch': 'ተዛማጁን ይምረጡ...',
+  'quiz.matchAnswer': 'ትክክለኛው: {answer}',
+  'quiz.answerPlaceholder': 'መልስዎን እዚህ ይጻፉ...',
+  'quiz.gradingFailed': 'ይህን መልስ ማረም አልተቻለም። እባክዎ እንደገና ይሞክሩ።',
+  'quiz.rubric': 'የማረሚያ መስፈርት',
+  'quiz.sampleAnswer': 'የAI ናሙና መልስ',
+  'quiz.analyzeMistake': 'የተሳሳተ መልስ። ስህተትዎን ይተንትኑ:',
+  'quiz.category': 'ምድብ',
+  'quiz.category.Concept Error': 'የጽንሰ ሐሳብ ስህተት',
+  'quiz.category.Calculation': 'የስሌት ስህተት',
+  'quiz.category.Misread Question': 'ጥያቄውን በስህተት ማንበብ',
+  'quiz.category.Guessing': 'ግምት',
+  'quiz.whyMissed': 'ለምን ተሳሳቱ?',
+  'quiz.whyMissedPlaceholder': 'ያሰብኩት...',
+  'quiz.saveMistake': 'ትንተናውን አስቀምጥና ቀጥል',
+  'quiz.previous': 'ቀዳሚ',
+  'quiz.next': 'ቀጣይ',
+  'quiz.finish': 'ፈተናውን አጠናቅ',
+  'quiz.check': 'መልሱን አረጋግጥ',
+  'quiz.grading': 'በማረም ላይ...',
+  'quiz.correct': 'ትክክል',
+  'quiz.incorrect': 'ስህተት',
+  'quiz.questions': 'ጥያቄዎች',
+
+  'mistakes.subtitle': 'የስህተት ካርዶችዎን ይገምግሙ እና ያስተካክሉ።',
+  'mistakes.filter': 'አጣራ',
+  'mistakes.empty': 'በጣም ጥሩ! እስካሁን ምንም ስህተት አልተመዘገበም።',
+  'mistakes.yourAnswer': 'የእርስዎ መልስ:',
+  'mistakes.correctAnswer': 'ትክክለኛው መልስ:',
+  'mistakes.note': 'የስህተት ማስታወሻዎ',
+  'mistakes.cancel': 'ሰርዝ',
+  'mistakes.save': 'አስቀምጥ',
+  'mistakes.createFlashcards': 'ፍላሽ ካርዶችን ፍጠር',
+
+  'teach.title': 'የቀጥታ ምናባዊ ክፍል',
+  'teach.selectStudents': 'ተማሪዎችዎን ይምረጡ',
+  'teach.topicPlaceholder': 'ምን እያስተማሩ ነው?',
+  'teach.start': 'ክፍሉን ጀምር',
+  'teach.end': 'ክፍሉን ጨርስ',
+  'teach.waiting': 'ለመማር በመጠባበቅ ላይ',
+  'teach.responding': '{name} እየመለሰ ነው',
+  'teach.listening': 'በማዳመጥ ላይ...',
+  'teach.inputPlaceholder': 'በግልጽ ያስተምሩ...',
+  'teach.handRaised': 'አንድ ተማሪ ጥያቄ አለው! ዕድል ይስጡት።',
+  'teach.active': 'የድምፅ ማስተማር ንቁ ነው። በግልጽ ያብራሩ፣ ተማሪዎች እያዳመጡ ነው።',
+  'teach.sttUnsupported': 'ንግግርን ወደ ጽሑፍ መቀየር አይደገፍም።',
+  'teach.logical': 'አመክንዮአዊ ተማሪ',
+  'teach.logicalIdentity': 'እውነታዎችን እና በመረጃ የተደገፉ ማብራሪያዎችን ይጠይቃል።',
+  'teach.skeptic': 'ተጠራጣሪ ተቺ',
+  'teach.skepticIdentity': 'ግምቶችን ይሞግታል፣ ስህተቶችንም ይፈልጋል።',
+  'teach.creative': 'ፈጠራዊ ተቺ',
+  'teach.creativeIdentity': 'ሃሳቦችን ከመሠረታዊ መርሆች ይተነትናል፣ አነቃቂ ጥያቄዎችንም ይጠይቃል።',
+
+  'sources.title': 'ምንጮችን አስተዳድር',
+  'sources.placeholder': 'የYouTube ሊንክ፣ የጽሑፍ ሊንክ ይለጥፉ ወይም PDF ይጣሉ...',
+  'sources.upload': 'ፋይል ስቀል',
+  'sources.import': 'አስገባ',
+  'sources.dismiss': 'ዝጋ',
+  'sources.available': 'ያሉ ምንጮች',
+  'sources.selectHint': 'በአውድ ውስጥ የሚካተቱ ምንጮችን ይምረጡ',
+  'sources.empty': 'እስካሁን ምንም ምንጭ አልተጨመረም።',
+  'sources.save': 'አስቀምጥ',
+  'sources.cancel': 'ሰርዝ',
+  'sources.rename': 'ምንጩን እንደገና ሰይም',
+  'sources.moveUp': 'ወደ ላይ አንቀሳቅስ',
+  'sources.moveDown': 'ወደ ታች አንቀሳቅስ',
+  'sources.delete': 'ምንጩን ሰርዝ',
+  'sources.deleteSelected': 'የተመረጡትን ሰርዝ ({count})',
+  'sources.duplicate': '"{title}" አስቀድሞ በምንጮችዎ ውስጥ ስላለ እሱ ተመርጧል።',
+  'sources.readFailed': '{url}ን ማንበብ ስላልተቻለ ሊንኩ ያለ ጽሑፉ እና ሳይመረጥ ተቀምጧል።',
+  'sources.readingPage': 'ገጽ {page} ከ{total} በማንበብ ላይ...',
+  'sources.processFailed': 'ፋይሉን ማስኬድ አልተቻለም። እባክዎ እንደገና ይሞክሩ።',
+  'sources.newVideo': 'አዲስ የዩቲዩብ ቪዲዮ',
+  'sources.localFile': 'የአካባቢ ፋይል',
+  'sources.remoteFile': 'የርቀት ፋይል',
+  'sources.remoteImage': 'የርቀት ምስል',
+  'sources.onePage': '1 ገጽ',
+  'sources.pages': '{count} ገጾች',
+  'sources.ocrLoading': 'የOCR ቋንቋ መረጃ በመጫን ላይ...',
+  'sources.ocrReading': 'በምስሉ ውስጥ ያለውን ጽሑፍ በማንበብ ላይ... {percent}%',
+
+  'history.subtitle': 'ያለፉ ክፍለ ጊዜዎችን ይፈልጉ እና ማንኛውንም ውጤት እንደነበረው እንደገና ይክፈቱ።',
+  'history.searchPlaceholder': 'ርዕሶችን፣ ጥያቄዎችን እና ማብራሪያዎችን ይፈልጉ...',
+  'history.empty': 'እስካሁን ምንም አልተፈጠረም።',
+  'history.noMatches': 'ምንም ተዛማጅ አልተገኘም።',
+
+  'metrics.recall': 'ቀጥተኛ ማስታወስ',
+  'metrics.recall.description': 'የተወሰኑ እውነታዎችን ያለ ፍንጭ የማስታወስ ችሎታ።',
+  'metrics.concept': 'የጽንሰ ሐሳብ ግንዛቤ',
+  'metrics.concept.description': 'መሠረታዊ መርሆዎችንና ግንኙነቶችን መረዳት።',
+  'metrics.procedural': 'የአሠራር ብቃት',
+  'metrics.procedural.description': 'ደረጃዎችን ወይም ዘዴዎችን በትክክል መፈጸም።',
+  'metrics.application': 'መተግበር',
+  'metrics.application.description': 'እውቀትን በአዲስና ባልተለመዱ ሁኔታዎች መጠቀም።',
+  'metrics.creative': 'የፈጠራ አስተሳሰብ',
+  'metrics.creative.description': 'አዳዲስ ሐሳቦችን ወይም የተለያዩ መፍትሔዎችን ማፍለቅ።',
+  'metrics.critical': 'ሂሳዊ አስተሳሰብ',
+  'metrics.critical.description': 'ክርክሮችን መገምገምና አድልዎችን መለየት።',
+  'metrics.synthesis': 'ማቀናጀት',
+  'metrics.synthesis.description': 'የተለያዩ ክፍሎችን ወደ አንድ ወጥ ሙሉ ማዋሃድ።',
+  'metrics.speed': 'የጊዜ ብቃት',
+  'metrics.speed.description': 'በአፈጻጸም ፍጥነትና ትክክለኛነት።',
+  'metrics.errorCorrection': 'ስህተትን ማረም',
+  'metrics.errorCorrection.description': 'ስህተቶችን በራስ የመለየትና የማስተካከል ችሎታ።',
+  'metrics.depth': 'የማብራሪያ ጥልቀት',
+  'metrics.depth.description': 'በተገለጹ መልሶች ውስጥ ያለ ሙላትና ዝርዝር።',
+  'metrics.category.Core': 'መሠረታዊ',
+  'metrics.category.Advanced': 'የላቀ',
+  'metrics.category.Performance': 'አፈጻጸም',
+  'metrics.title': 'የትምህርት መለኪያዎች',
+  'metrics.subtitle': 'በ{count} የተጠናቀቁ ፈተናዎች ላይ የተመሠረተ የአእምሮ አፈጻጸምዎ ቅጽበታዊ ትንተና።',
+  'metrics.filterProject': 'በፕሮጀክት አጣራ',
+  'metrics.allProjects': 'ሁሉም ፕሮጀክቶች',
+  'metrics.archived': ' (በማህደር የተቀመጠ)',
+  'metrics.overall': 'አጠቃላይ',
+  'metrics.liveData': 'ቀጥታ መረጃ',
+  'metrics.profile': 'የአእምሮ መገለጫ',
+  'metrics.blindSpots': 'የደካማ ጎን ትንተና',
+  'metrics.allClear': 'ሁሉም ዝግጁ ነው!',
+  'metrics.allClearHint': 'ሁሉንም የሚፈለጉ ደረጃዎች እያሟሉ ወይም እየበለጡ ነው።',
+  'metrics.belowThreshold': 'የሚከተሉት ዘርፎች ከሚፈለገው ደረጃ በታች ናቸው:',
+  'metrics.required': 'የሚፈለግ: {required} • {category}',
+  'metrics.requiredTitle': 'የሚፈለግ: {required}',
+  'metrics.level.1': 'ማስረጃ የለም',
+  'metrics.level.2': 'ከፊል',
+  'metrics.level.3': 'ማለፊያ',
+  'metrics.level.4': 'ጠንካራ',
+  'metrics.level.5': 'የተካነ',
+
+  'projects.subtitle': 'ክፍለ ጊዜዎችን፣ ምንጮችን እና ውጤቶችን በኮርስ ያደራጁ።',
+  'projects.showArchived': 'በማህደር የተቀመጡትን አሳይ',
+  'projects.namePlaceholder': 'የአዲስ ፕሮጀክት ስም፣ ለምሳሌ "Thermo 201"',
+  'projects.create': 'ፍጠር',
+  'projects.empty': 'እስካሁን ምንም ፕሮጀክት የለም።',
+  'projects.save': 'አስቀምጥ',
+  'projects.cancel': 'ሰርዝ',
+  'projects.rename': 'እንደገና ሰይም',
+  'projects.restore': 'መልስ',
+  'projects.archive': 'ወደ ማህደር',
+  'projects.summary': '{sessions} ክፍለ ጊዜዎች • {sources} ምንጮች • {quizzes} ፈተናዎች',
+  'projects.selectHint': 'ክፍለ ጊዜዎቹንና ምንጮቹን ለማየት ፕሮጀክት ይምረጡ።',
+  'projects.created': 'የተፈጠረው {date}',
+  'projects.archivedSuffix': ' • በማህደር የተቀመጠ',
+  'projects.close': 'ፕሮጀክቱን ዝጋ',
+  'projects.open': 'ፕሮጀክቱን ክፈት',
+  'projects.sessions': 'ክፍለ ጊዜዎች',
+  'projects.sources': 'ምንጮች',
+  'projects.quizzes': 'ፈተናዎች',
+  'projects.mistakes': 'ስህተቶች',
+  'projects.noSessions': 'በዚህ ፕሮጀክት ውስጥ እስካሁን ክፍለ ጊዜ የለም።',
+  'projects.removeFromProject': 'ከፕሮጀክቱ አስወግድ',
+  'projects.remove': 'አስወግድ',
+  'projects.addSession': '+ ያለ ክፍለ ጊዜ ጨምር...',
+  'projects.sourceLibrary': 'የምንጮች ቤተ መጻሕፍት',
+  'projects.noSources': 'በዚህ ፕሮጀክት ውስጥ እስካሁን ምንጭ የለም።',
+  'projects.addSource': '+ ያለ ምንጭ ጨምር...',
+
+  'verify.title': 'እውነታዎችን አረጋግጥ',
+  'verify.hint': 'በሰነድዎ ውስጥ ያሉ አባባሎችን ለማረጋገጥና የቅርብ ጊዜ መረጃ ለማግኘት Geminiን ከGoogle ፍለጋ ጋር ይጠቀሙ።',
+  'verify.check': 'በGoogle ፍለጋ አረጋግጥ',
+  'verify.report': 'የማረጋገጫ ሪፖርት',
+  'verify.sources': 'ምንጮች',
+  'visual.generating': 'ምስሎች በመፈጠር ላይ...',
+  'visual.generatingHint': 'Gemini ይዘትዎን የሚያብራራ ልዩ ኢንፎግራፊክ እየፈጠረ ነው። ይህ የ{model} ሞዴልን ይጠቀማል።',
+  'visual.empty': 'የምስል ማብራሪያ ለመፍጠር ጽሑፍ ይተንትኑ።',
+  'visual.alt': 'የተፈጠረ ማብራሪያ',
+  'visual.regenerate': 'እንደገና ፍጠር',
+  'visual.editHint': 'ይህን ምስል ለማስተካከል ዋናውን ውይይት ይጠቀሙ',
+  'visual.editExample': 'ምሳሌ: "ሮቦት ጨምር"፣ "ዳራውን ሰማያዊ አድርግ"፣ "ጽሑፉን አስወግድ"',
+  'simulation.generating': 'ሲሙሌሽን በመገንባት ላይ...',
+  'simulation.generatingHint': 'Gemini 3.0 Pro ለይዘትዎ በይነተገናኝ ምስላዊ መግለጫ ኮድ እየጻፈ ነው።',
+  'simulation.empty': 'በይነተገናኝ ሲሙሌሽን ለመፍጠር ጽሑፍ ይተንትኑ።',
+  'simulation.generate': 'ሲሙሌሽን ፍጠር',
+  'simulation.title': 'በይነተገናኝ ሲሙሌሽን',
+  'simulation.reset': 'ዳግም አስጀምር',
+  'simulation.frameTitle': 'የተፈጠረ ሲሙሌሽን',
+  'simulation.editHint': 'ይህን ሲሙሌሽን ለማዘመን ዋናውን ውይይት ይጠቀሙ',
+  'simulation.editExample': 'ምሳሌ: "እንቅስቃሴውን አፍጥን"፣ "ቆጣሪ ጨምር"፣ "ቀለሙን ወደ ቀይ ቀይር"',
+
+  'questionType.choose': 'ምረጥ',
+  'questionType.fill-blank': 'ባዶ ቦታ ሙላ',
+  'questionType.match': 'አዛምድ',
+  'questionType.answer': 'ጥያቄ መልስ',
+  'questionMix.share': 'የ{type} ድርሻ',
+  'questionMix.one': '{count} ጥያቄ',
+  'questionMix.many': '{count} ጥያቄዎች',
+
+  'results.title': 'የፈተና ውጤቶች',
+  'results.retryWrong': 'የተሳሳቱ ጥያቄዎችን እንደገና ሞክር ({count})',
+  'results.newQuiz': 'አዲስ ፈተና',
+  'results.score': 'ውጤት',
+  'results.answered': 'የተመለሱ',
+  'results.answeredOf': '{answered} ከ{total}',
+  'results.skippedCount': '{count} የተዘለሉ',
+  'results.time': 'ጊዜ',
+  'results.timeHint': 'በተመለሱ ጥያቄዎች ላይ',
+  'results.byType': 'በጥያቄ ዓይነት',
+  'results.type': 'ዓይነት',
+  'results.skipped': 'የተዘለለ',
+  'results.averageTime': 'አማካይ ጊዜ',
+  'results.review': 'ግምገማ',
+  'results.partial': 'ከፊል {percent}%',
+  'results.yourAnswer': 'የእርስዎ መልስ',
+  'results.noAnswer': 'መልስ የለም',
+  'results.notAnswered': 'አልተመለሰም',
+  'results.correctAnswer': 'ትክክለኛው መልስ',
+
+  'review.title': 'ክለሳ',
+  'review.back': 'ወደ ማስታወሻው ተመለስ',
+  'review.progress': 'ካርድ {n} ከ{total}',
+  'review.allDone': 'ለአሁን ሁሉም ተጠናቋል።',
+  'review.complete': 'ክለሳው ተጠናቋል',
+  'review.summaryOne': '{count} ክለሳ፣ {recalled} ታውሰዋል።',
+  'review.summaryMany': '{count} ክለሳዎች፣ {recalled} ታውሰዋል።',
+  'review.backToNotebook': 'ወደ ማስታወሻው ተመለስ',
+  'review.gradingFailed': 'ይህን መልስ ማረም አልተቻለም። በምትኩ ምን ያህል እንደሚያውቁት ይገምግሙ።',
+  'review.flashcard': 'ፍላሽ ካርድ',
+  'review.lastAnswer': 'ባለፈው የመለሱት:',
+  'review.showAnswer': 'መልሱን አሳይ',
+  'review.again': 'እንደገና',
+  'review.hard': 'ከባድ',
+  'review.good': 'ጥሩ',
+  'review.easy': 'ቀላል',
+  'review.today': 'ዛሬ',
+  'review.inDay': '{count} ቀን',
+  'review.inDays': '{count} ቀናት',
+  'review.dueNow': 'አሁን ይደርሳል',
+  'review.dueMinutes': 'በ{count} ደቂቃ ይደርሳል',
+  'review.dueHour': 'በ{count} ሰዓት ይደርሳል',
+  'review.dueHours': 'በ{count} ሰዓታት ይደርሳል',
+  'review.dueDay': 'በ{count} ቀን ይደርሳል',
+  'review.dueDays': 'በ{count} ቀናት ይደርሳል',
+  'review.dueToday': 'ዛሬ {count} ይደርሳሉ።',
+  'review.reviewDue': 'የደረሱትን ከልስ ({count})',
+  'review.ease': 'ቅለት {ease}',
+  'review.notReviewed': 'ገና አልተከለሰም',
+
+  'grading.noAnswer': 'ምንም መልስ አልተሰጠም።',
+  'grading.exact': 'ከመልሱ ጋር ይዛመዳል።',
+  'grading.accepted': '"{answer}" ተቀባይነት ያለው መልስ ነው።',
+  'grading.numeric': 'ከ{answer} ጋር እኩል ነው (በ{tolerance}% ውስጥ)።',
+  'grading.typo': 'ከ"{answer}" ትንሽ የፊደል ልዩነት ቢኖርም ተቀባይነት አግኝቷል።',
+  'grading.noMatch': 'ከመልሱም ሆነ ከሌሎች ተቀባይነት ካላቸው አማራጮች ጋር አይዛመድም።',
+
+  'grading.gap.partial': 'ያልተሟላ: {point}',
+  'grading.gap.incorrect': 'የተሳሳተ: {point}',
+  'grading.gap.missing': 'የጎደለ: {point}',
+};
@@ -0,0 +1,385 @@
+/** English UI strings. Every other locale translates these keys. */
+export const en = {
+  'tab.learning': 'Learning',
+  'tab.test': 'Test',
+  'tab.teach': 'Teach',
+  'subtab.explanation': 'Explanation',
+  'subtab.visuals': 'Visualizing',
+  'subtab.simulation': 'Simulation',
+  'subtab.verify': 'Verification',
+
+  'sidebar.newSession': 'New Session',
+  'sidebar.pasteLink': 'Paste Link',
+  'sidebar.metrics': 'Metrics',
+  'sidebar.projects': 'Projects',
+  'sidebar.history': 'History',
+  'sidebar.recent': 'Recent',
+  'sidebar.settings': 'Settings',
+  'sidebar.profile': 'User Profile',
+
+  'input.flashcards': 'Create Flashcards ✨',
+  'input.followUp': 'Follow-up',
+  'input.placeholder': 'Ask anything, paste a link, or upload a doc...',
+  'input.placeholderAttachments': 'Ask questions about these files...',
+  'input.placeholderFollowUp': 'Ask a follow-up about this explanation...',
+  'input.attach': 'Attach files',
+  'input.send': 'Send',
+  'input.disclaimer': 'Gemini can make mistakes. Please review generated results.',
+  'input.attachFailed': "Couldn't attach {files}. Please use PDF, text, image or audio files.",
+  'input.audioUnsupported': "Couldn't attach {files}: the current AI provider only accepts {formats} audio.",
+  'attachments.label': 'Attachments',
+  'attachments.remove': 'Remove {name}',
+
+  'conversation.title': 'Conversation',
+  'conversation.show': 'Show conversation',
+  'conversation.hide': 'Hide conversation',
+  'conversation.empty': 'Ask a question to start the conversation.',
+  'conversation.pending': 'Working on it...',
+  'conversation.noAnswer': 'No answer was saved for this question.',
+  'conversation.regenerate': 'Regenerate',
+  'conversation.regenerateHint': 'Generate this answer again. Later turns are removed.',
+  'conversation.confirmRegenerateOne': 'Regenerating this answer removes the later turn. Continue?',
+  'conversation.confirmRegenerateMany': 'Regenerating this answer removes the {count} later turns. Continue?',
+  'output.explanation': 'Explanation',
+  'output.visual': 'Visual',
+  'output.simulation': 'Simulation',
+  'output.verification': 'Verification',
+
+  'controls.level': 'Level',
+  'controls.style': 'Style',
+  'controls.length': 'Length',
+  'controls.compare': 'Compare side by side',
+  'controls.compareHint': 'Rewrite the explanation on screen with these settings and show both',
+  'controls.closeComparison': 'Close comparison',
+  'level.middle-school': 'Middle school',
+  'level.undergrad': 'Undergrad',
+  'level.expert': 'Expert',
+  'style.standard': 'Standard',
+  'style.analogy': 'Analogy-heavy',
+  'style.step-by-step': 'Step-by-step',
+  'style.socratic': 'Socratic',
+  'style.eli5': 'ELI5',
+  'length.brief': 'Brief',
+  'length.standard': 'Standard',
+  'length.detailed': 'Detailed',
+
+  'explanation.stop': 'Stop generating',
+  'explanation.appending': 'Answering your follow-up...',
+  'explanation.sources': 'Sources',
+  'explanation.empty': 'No explanation generated yet.',
+
+  'settings.language': 'Language',
+  'settings.languageLabel': 'App Language',
+  'settings.languageHint': 'Used for the interface and for generated explanations, quizzes, verification and simulations.',
+
+  'settings.title': 'Settings',
+  'settings.savedLocally': 'Saved in this browser only.',
+  'settings.reset': 'Reset to defaults',
+  'settings.provider': 'AI Provider',
+  'settings.providerLabel': 'Provider',
+  'settings.apiKey': 'API Key',
+  'settings.apiKeySaved': 'Saved key ending in {last}',
+  'settings.apiKeyFromEnv': 'Using the key from .env.local',
+  'settings.show': 'Show',
+  'settings.hide': 'Hide',
+  'settings.rotate': 'Rotate',
+  'settings.save': 'Save',
+  'settings.clear': 'Clear',
+  'settings.record': 'Record responses as test fixtures (dev server started with AI_FIXTURE_MODE=record)',
+  'settings.models': 'Models',
+  'settings.modelQuiz': 'Quiz',
+  'settings.providerDefault': 'Provider default',
+  'settings.thinkingBudget': 'Thinking Budget (tokens)',
+  'settings.sourceContext': 'Source Context',
+  'settings.contextBudget': 'Context Budget (tokens)',
+  'settings.semanticRetrieval': 'Rank passages with embeddings too (extra API calls)',
+  'settings.describeImages': 'Describe uploaded images with the model, as well as reading their text',
+  'settings.quizDefaults': 'Quiz Defaults',
+  'settings.difficulty': 'Difficulty',
+  'settings.questionCount': 'Number of Questions',
+  'settings.questionTypes': 'Question Types',
+  'settings.judgeBlankAnswers': 'Ask the model whether an unmatched fill-in-the-blank answer means the same thing',
+  'settings.teachMode': 'Teach Mode',
+  'settings.teachLanguage': 'Default Language',
+  'settings.speechRate': 'Speech Rate: {rate}×',
+  'settings.studentVoice': "{name}'s Voice",
+  'settings.defaultVoice': '{voice} (default)',
+  'difficulty.Easy': 'Easy',
+  'difficulty.Medium': 'Medium',
+  'difficulty.Hard': 'Hard',
+
+  'quizSetup.title': 'Configure Adaptive Quiz',
+  'quizSetup.aiGenerated': 'AI Generated',
+  'quizSetup.topics': 'Focus Topics',
+  'quizSetup.addTopic': '+ Add Topic',
+  'quizSetup.removeTopic': 'Remove {topic}',
+  'quizSetup.difficulty': 'Difficulty Level:',
+  'quizSetup.recall': 'Recall',
+  'quizSetup.application': 'Application',
+  'quizSetup.synthesis': 'Synthesis',
+  'quizSetup.count.5': '(Quick)',
+  'quizSetup.count.10': '(Standard)',
+  'quizSetup.count.20': '(Deep)',
+  'quizSetup.start': 'Start Quiz',
+
+  'quiz.mistakeNotebook': 'Mistake Notebook',
+  'quiz.generating': 'Generating Assessment...',
+  'quiz.generatingHint': 'Crafting questions based on your config.',
+  'quiz.title': 'Active Assessment',
+  'quiz.topic': 'Topic:',
+  'quiz.score': 'Score: {score}/{total}',
+  'quiz.end': 'End Quiz',
+  'quiz.question': 'Question {n}',
+  'quiz.questionTime': 'Time on this question',
+  'quiz.blankPlaceholder': 'type answer...',
+  'quiz.blankAnswer': 'Ans: {answer}',
+  'quiz.selectMatch': 'Select match...',
+  'quiz.matchAnswer': 'Correct: {answer}',
+  'quiz.answerPlaceholder': 'Type your answer here...',
+  'quiz.gradingFailed': "Couldn't grade this answer. Please try again.",
+  'quiz.rubric': 'Rubric',
+  'quiz.sampleAnswer': 'AI Sample Answer',
+  'quiz.analyzeMistake': 'Incorrect Answer. Analyze your mistake:',
+  'quiz.category': 'Category',
+  'quiz.category.Concept Error': 'Concept Error',
+  'quiz.category.Calculation': 'Calculation',
+  'quiz.category.Misread Question': 'Misread Question',
+  'quiz.category.Guessing': 'Guessing',
+  'quiz.whyMissed': 'Why did you miss this?',
+  'quiz.whyMissedPlaceholder': 'I thought that...',
+  'quiz.saveMistake': 'Save Analysis & Continue',
+  'quiz.previous': 'Previous',
+  'quiz.next': 'Next',
+  'quiz.finish': 'Finish Quiz',
+  'quiz.check': 'Check Answer',
+  'quiz.grading': 'Grading...',
+  'quiz.correct': 'Correct',
+  'quiz.incorrect': 'Incorrect',
+  'quiz.questions': 'Questions',
+
+  'mistakes.subtitle': 'Review and edit your error cards.',
+  'mistakes.filter': 'Filter',
+  'mistakes.empty': 'Great job! No mistakes recorded yet.',
+  'mistakes.yourAnswer': 'Your Answer:',
+  'mistakes.correctAnswer': 'Correct Answer:',
+  'mistakes.note': 'Your Mistake Note',
+  'mistakes.cancel': 'Cancel',
+  'mistakes.save': 'Save',
+  'mistakes.createFlashcards': 'Create Flashcards',
+
+  'teach.title': 'Live Virtual Classroom',
+  'teach.selectStudents': 'Select your students',
+  'teach.topicPlaceholder': 'What are you teaching?',
+  'teach.start': 'Start Class',
+  'teach.end': 'END CLASS',
+  'teach.waiting': 'Waiting to Learn',
+  'teach.responding': '{name} IS RESPONDING',
+  'teach.listening': 'Listening...',
+  'teach.inputPlaceholder': 'Teach clearly...',
+  'teach.handRaised': 'A student has a question! Call on them.',
+  'teach.active': 'VOICE TEACHING ACTIVE. EXPLAIN CLEARLY, STUDENTS ARE LISTENING.',
+  'teach.sttUnsupported': 'STT not supported.',
+  'teach.logical': 'Logical Learner',
+  'teach.logicalIdentity': 'Asks for facts and data-driven explanations.',
+  'teach.skeptic': 'Critical Skeptic',
+  'teach.skepticIdentity': 'Challenges assumptions and looks for errors.',
+  'teach.creative': 'Critical Creative',
+  'teach.creativeIdentity': 'Deconstructs ideas from first principles and asks provocative questions.',
+
+  'sources.title': 'Manage Sources',
+  'sources.placeholder': 'Paste YouTube URL, Article Link, or drop PDF...',
+  'sources.upload': 'Upload File',
+  'sources.import': 'Import',
+  'sources.dismiss': 'Dismiss',
+  'sources.available': 'Available Sources',
+  'sources.selectHint': 'Select sources to include in context',
+  'sources.empty': 'No sources added yet.',
+  'sources.save': 'Save',
+  'sources.cancel': 'Cancel',
+  'sources.rename': 'Rename Source',
+  'sources.moveUp': 'Move Up',
+  'sources.moveDown': 'Move Down',
+  'sources.delete': 'Delete Source',
+  'sources.deleteSelected': 'Delete Selected ({count})',
+  'sources.duplicate': '"{title}" is already in your sources, so it was selected instead.',
+  'sources.readFailed': "Couldn't read {url}, so the link was saved without its text and left unselected.",
+  'sources.readingPage': 'Reading page {page} of {total}...',
+  'sources.processFailed': 'Failed to process file. Please try again.',
+  'sources.newVideo': 'New YouTube Video',
+  'sources.localFile': 'Local File',
+  'sources.remoteFile': 'Remote File',
+  'sources.remoteImage': 'Remote Image',
+  'sources.onePage': '1 page',
+  'sources.pages': '{count} pages',
+  'sources.ocrLoading': 'Loading OCR language data...',
+  'sources.ocrReading': 'Reading text in image... {percent}%',
+
+  'history.subtitle': 'Search past sessions and reopen any output exactly as it was.',
+  'history.searchPlaceholder': 'Search titles, questions and explanations...',
+  'history.empty': 'Nothing generated yet.',
+  'history.noMatches': 'No matches found.',
+
+  'metrics.recall': 'Direct Recall',
+  'metrics.recall.description': 'Ability to retrieve specific facts without cues.',
+  'metrics.concept': 'Conceptual Understanding',
+  'metrics.concept.description': 'Grasping the underlying principles and relationships.',
+  'metrics.procedural': 'Procedural Mastery',
+  'metrics.procedural.description': 'Executing steps or methods correctly.',
+  'metrics.application': 'Application',
+  'metrics.application.description': 'Using knowledge in new, unfamiliar situations.',
+  'metrics.creative': 'Creative Thinking',
+  'metrics.creative.description': 'Generating novel ideas or divergent solutions.',
+  'metrics.critical': 'Critical Thinking',
+  'metrics.critical.description': 'Evaluating arguments and identifying biases.',
+  'metrics.synthesis': 'Synthesis',
+  'metrics.synthesis.description': 'Integrating separate elements into a coherent whole.',
+  'metrics.speed': 'Time Efficiency',
+  'metrics.speed.description': 'Speed plus accuracy in execution.',
+  'metrics.errorCorrection': 'Error Correction',
+  'metrics.errorCorrection.description': 'Ability to self-identify and fix mistakes.',
+  'metrics.depth': 'Depth of Explanation',
+  'metrics.depth.description': 'Richness and detail in articulated answers.',
+  'metrics.category.Core': 'Core',
+  'metrics.category.Advanced': 'Advanced',
+  'metrics.category.Performance': 'Performance',
+  'metrics.title': 'Learning Metrics',
+  'metrics.subtitle': 'Real-time analysis of your cognitive performance based on {count} completed quizzes.',
+  'metrics.filterProject': 'Filter by project',
+  'metrics.allProjects': 'All projects',
+  'metrics.archived': ' (archived)',
+  'metrics.overall': 'Overall',
+  'metrics.liveData': 'Live Data',
+  'metrics.profile': 'Cognitive Profile',
+  'metrics.blindSpots': 'Blind Spot Analysis',
+  'metrics.allClear': 'All Systems Go!',
+  'metrics.allClearHint': 'You are meeting or exceeding all required thresholds.',
+  'metrics.belowThreshold': 'The following areas are below the required threshold:',
+  'metrics.required': 'Req: {required} • {category}',
+  'metrics.requiredTitle': 'Required: {required}',
+  'metrics.level.1': 'No Evidence',
+  'metrics.level.2': 'Partial',
+  'metrics.level.3': 'Passing',
+  'metrics.level.4': 'Strong',
+  'metrics.level.5': 'Fluent',
+
+  'projects.subtitle': 'Group sessions, sources and results by course.',
+  'projects.showArchived': 'Show archived',
+  'projects.namePlaceholder': 'New project name, e.g. "Thermo 201"',
+  'projects.create': 'Create',
+  'projects.empty': 'No projects yet.',
+  'projects.save': 'Save',
+  'projects.cancel': 'Cancel',
+  'projects.rename': 'Rename',
+  'projects.restore': 'Restore',
+  'projects.archive': 'Archive',
+  'projects.summary': '{sessions} sessions • {sources} sources • {quizzes} quizzes',
+  'projects.selectHint': 'Select a project to see its sessions and sources.',
+  'projects.created': 'Created {date}',
+  'projects.archivedSuffix': ' • Archived',
+  'projects.close': 'Close Project',
+  'projects.open': 'Open Project',
+  'projects.sessions': 'Sessions',
+  'projects.sources': 'Sources',
+  'projects.quizzes': 'Quizzes',
+  'projects.mistakes': 'Mistakes',
+  'projects.noSessions': 'No sessions in this project yet.',
+  'projects.removeFromProject': 'Remove from project',
+  'projects.remove': 'Remove',
+  'projects.addSession': '+ Add an existing session...',
+  'projects.sourceLibrary': 'Source Library',
+  'projects.noSources': 'No sources in this project yet.',
+  'projects.addSource': '+ Add an existing source...',
+
+  'verify.title': 'Verify Facts',
+  'verify.hint': 'Use Gemini with Google Search to verify the claims in your document and find the latest information.',
+  'verify.check': 'Check with Google Search',
+  'verify.report': 'Verification Report',
+  'verify.sources': 'Sources',
+  'visual.generating': 'Generating Visuals...',
+  'visual.generatingHint': 'Gemini is creating a custom infographic to explain your content. This uses the {model} model.',
+  'visual.empty': 'Analyze text to generate a visual explanation.',
+  'visual.alt': 'Generated Explanation',
+  'visual.regenerate': 'Regenerate',
+  'visual.editHint': 'Use the main chat to edit this image',
+  'visual.editExample': 'Example: "Add a robot", "Make the background blue", "Remove the text"',
+  'simulation.generating': 'Building Simulation...',
+  'simulation.generatingHint': 'Gemini 3.0 Pro is writing code for an interactive visualization of your content.',
+  'simulation.empty': 'Analyze text to generate an interactive simulation.',
+  'simulation.generate': 'Generate Simulation',
+  'simulation.title': 'Interactive Simulation',
+  'simulation.reset': 'Reset',
+  'simulation.frameTitle': 'Generated Simulation',
+  'simulation.editHint': 'Use the main chat to update this simulation',
+  'simulation.editExample': 'Example: "Make the animation faster", "Add a counter", "Change color to red"',
+
+  'questionType.choose': 'Choose',
+  'questionType.fill-blank': 'Fill the Blank',
+  'questionType.match': 'Match',
+  'questionType.answer': 'Answer Question',
+  'questionMix.share': '{type} share',
+  'questionMix.one': '{count} question',
+  'questionMix.many': '{count} questions',
+
+  'results.title': 'Quiz Results',
+  'results.retryWrong': 'Retry wrong questions ({count})',
+  'results.newQuiz': 'New Quiz',
+  'results.score': 'Score',
+  'results.answered': 'Answered',
+  'results.answeredOf': '{answered} of {total}',
+  'results.skippedCount': '{count} skipped',
+  'results.time': 'Time',
+  'results.timeHint': 'on answered questions',
+  'results.byType': 'By Question Type',
+  'results.type': 'Type',
+  'results.skipped': 'Skipped',
+  'results.averageTime': 'Avg. time',
+  'results.review': 'Review',
+  'results.partial': 'Partial {percent}%',
+  'results.yourAnswer': 'Your answer',
+  'results.noAnswer': 'No answer',
+  'results.notAnswered': 'Not answered',
+  'results.correctAnswer': 'Correct answer',
+
+  'review.title': 'Review',
+  'review.back': 'Back to notebook',
+  'review.progress': 'Card {n} of {total}',
+  'review.allDone': 'All done for now.',
+  'review.complete': 'Review complete',
+  'review.summaryOne': '{count} review, {recalled} recalled.',
+  'review.summaryMany': '{count} reviews, {recalled} recalled.',
+  'review.backToNotebook': 'Back to Notebook',
+  'review.gradingFailed': "Couldn't grade this answer. Rate how well you knew it instead.",
+  'review.flashcard': 'Flashcard',
+  'review.lastAnswer': 'Last time you answered:',
+  'review.showAnswer': 'Show Answer',
+  'review.again': 'Again',
+  'review.hard': 'Hard',
+  'review.good': 'Good',
+  'review.easy': 'Easy',
+  'review.today': 'today',
+  'review.inDay': '{count} day',
+  'review.inDays': '{count} days',
+  'review.dueNow': 'Due now',
+  'review.dueMinutes': 'Due in {count} min',
+  'review.dueHour': 'Due in {count} hour',
+  'review.dueHours': 'Due in {count} hours',
+  'review.dueDay': 'Due in {count} day',
+  'review.dueDays': 'Due in {count} days',
+  'review.dueToday': '{count} due today.',
+  'review.reviewDue': 'Review Due ({count})',
+  'review.ease': 'Ease {ease}',
+  'review.notReviewed': 'Not reviewed yet',
+
+  'grading.noAnswer': 'No answer was given.',
+  'grading.exact': 'Matches the answer.',
+  'grading.accepted': '"{answer}" is an accepted answer.',
+  'grading.numeric': 'Equal to {answer} (within {tolerance}%).',
+  'grading.typo': 'Accepted despite a small spelling difference from "{answer}".',
+  'grading.noMatch': "Doesn't match the answer or any accepted alternative.",
+
+  'grading.gap.partial': 'Incomplete: {point}',
+  'grading.gap.incorrect': 'Incorrect: {point}',
+  'grading.gap.missing': 'Missing: {point}',
+};
+
+export type MessageKey = keyof typeof en;
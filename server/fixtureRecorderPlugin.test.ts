@@ -0,0 +1,19 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { isDevServerOrigin } from './fixtureRecorderPlugin';
+
+describe('isDevServerOrigin', () => {
+  it('accepts only pages served by the local dev server', () => {
+    expect(isDevServerOrigin('http://localhost:3000', 'localhost:3000')).toBe(true);
+    expect(isDevServerOrigin('http://127.0.0.1:3000', '127.0.0.1:3000')).toBe(true);
+    expect(isDevServerOrigin('http://[::1]:3000', '[::1]:3000')).toBe(true);
+  });
+
+  it('rejects other sites, other ports and rebound names', () => {
+    expect(isDevServerOrigin(undefined, 'localhost:3000')).toBe(false);
+    expect(isDevServerOrigin('null', 'localhost:3000')).toBe(false);
+    expect(isDevServerOrigin('https://example.com', 'localhost:3000')).toBe(false);
+    expect(isDevServerOrigin('http://localhost:4000', 'localhost:3000')).toBe(false);
+    expect(isDevServerOrigin('http://rebound.example.com:3000', 'rebound.example.com:3000')).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import type { Plugin } from 'vite';
+
+// Recordings can hold generated images as data URLs, so leave room for those.
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Whether a request's `Origin` is the dev server itself: the page was served
+ * from the `Host` it posts to, and that host is a local name. Checking the
+ * name too stops a rebound DNS name from passing as the dev server.
+ */
+export const isDevServerOrigin = (origin: string | undefined, host: string | undefined): boolean => {
+  if (!origin || !host) return false;
+  try {
+    const url = new URL(origin);
+    return url.host === host && LOCAL_HOSTNAMES.has(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Dev-server endpoint that appends recordings sent by the fixture provider in
+ * record mode to the fixtures JSON file. It rewrites a tracked file, so only
+ * JSON posted by the app's own pages on this machine is accepted; register it
+ * only while recording.
+ */
+export const fixtureRecorderPlugin = (fixturesPath: string, endpoint: string): Plugin => ({
+  name: 'clarifyai-fixture-recorder',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use(endpoint, (req, res) => {
+      if (!LOOPBACK.has(req.socket.remoteAddress || '')) {
+        res.statusCode = 403;
+        res.end();
+        return;
+      }
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      // Other sites can post here from the user's browser; they can't fake the
+      // Origin, and a JSON content type needs a preflight this endpoint never answers.
+      if (!isDevServerOrigin(req.headers.origin, req.headers.host)) {
+        res.statusCode = 403;
+        res.end();
+        return;
+      }
+      if (req.headers['content-type']?.split(';')[0].trim().toLowerCase() !== 'application/json') {
+        res.statusCode = 415;
+        res.end();
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          res.statusCode = 413;
+          res.end();
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        try {
+          const { key, value } = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+          if (typeof key !== 'string') throw new Error("Missing fixture key");
+          const fixtures = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+          fixtures.recordings[key] = value;
+          fs.writeFileSync(fixturesPath, JSON.stringify(fixtures, null, 2) + '\n');
+          res.statusCode = 204;
+          res.end();
+        } catch (error) {
+          console.error("Fixture record error:", error);
+          res.statusCode = 400;
+          res.end(String(error));
+        }
+      });
+    });
+  },
+});
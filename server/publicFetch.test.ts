@@ -0,0 +1,29 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { isPrivateAddress, publicFetch } from './publicFetch';
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and unique-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('lets public addresses through', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('publicFetch', () => {
+  it('refuses hosts that resolve to the machine or its network', async () => {
+    for (const url of ['http://127.0.0.1:3000/', 'http://localhost/', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/']) {
+      await expect(publicFetch(url), url).rejects.toThrow(/not a public address/);
+    }
+  });
+
+  it('refuses other protocols', async () => {
+    await expect(publicFetch('file:///etc/passwd')).rejects.toThrow(/only http/);
+  });
+});
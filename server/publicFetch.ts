@@ -0,0 +1,51 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, unique-local and other non-public ranges.
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) BLOCKED.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) BLOCKED.addSubnet(network, prefix, 'ipv6');
+
+/** Whether an IP address is one a server-side fetch must not reach. */
+export const isPrivateAddress = (address: string): boolean => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/** Throws unless `url` is http(s) and its host resolves only to public addresses. */
+export const assertPublicUrl = async (url: string): Promise<void> => {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') throw new Error(`Refusing to fetch ${url}: only http(s) links are allowed`);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${hostname}: it is not a public address`);
+  }
+};
+
+/**
+ * `fetch` for URLs supplied by a client: every hop, redirects included, must
+ * resolve to a public address, so the dev server can't be used to reach the
+ * machine itself or its network.
+ */
+export const publicFetch: typeof fetch = async (input, init) => {
+  let url = String(input);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(url);
+    const response = await fetch(url, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    url = new URL(location, url).toString();
+  }
+  throw new Error(`Too many redirects fetching ${input}`);
+};
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+/**
+ * Ships tesseract.js language data from the @tesseract.js-data packages at
+ * `<path>/<lang>.traineddata.gz`: served by the dev server and copied into the
+ * build. These are the LSTM-only models tesseract.js uses by default.
+ */
+export const tessdataPlugin = (urlPath: string, languages: string[]): Plugin => {
+  let root = process.cwd();
+  const fileOf = (lang: string) =>
+    path.resolve(root, 'node_modules/@tesseract.js-data', lang, '4.0.0_best_int', `${lang}.traineddata.gz`);
+
+  return {
+    name: 'clarifyai-tessdata',
+    configResolved(config) {
+      root = config.root;
+    },
+    configureServer(server) {
+      server.middlewares.use(urlPath, (req, res) => {
+        const lang = req.url?.match(/^\/(\w+)\.traineddata\.gz$/)?.[1];
+        if (!lang || !languages.includes(lang)) {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+        res.setHeader('Content-Type', 'application/gzip');
+        fs.createReadStream(fileOf(lang)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const lang of languages) {
+        this.emitFile({ type: 'asset', fileName: `${urlPath.replace(/^\//, '')}/${lang}.traineddata.gz`, source: fs.readFileSync(fileOf(lang)) });
+      }
+    },
+  };
+};
@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { MAX_BODY_BYTES, extractFromUrl, extractYouTube, fetchFile, getYouTubeVideoId } from './urlExtractor';
+
+const FIXTURES = path.resolve(__dirname, '../fixtures/html');
+
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname === '/huge.html') {
+      // No Content-Length, so the cap has to apply while reading.
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.write('a'.repeat(MAX_BODY_BYTES));
+      res.end('a');
+      return;
+    }
+    const file = pathname === '/watch' ? 'youtube-watch.html' : path.basename(pathname);
+    try {
+      const body = await readFile(path.join(FIXTURES, file));
+      res.writeHead(200, { 'Content-Type': file.endsWith('.xml') ? 'text/xml' : 'text/html' });
+      res.end(body);
+    } catch {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('extractFromUrl', () => {
+  it('keeps the article body and drops page chrome', async () => {
+    const result = await extractFromUrl(`${origin}/article.html`);
+    expect(result.type).toBe('website');
+    expect(result.title).toBe('The Carnot Cycle Explained');
+    expect(result.metadata).toBe('Physics Weekly • 1 min read');
+    expect(result.content).toContain('# The Carnot Cycle Explained');
+    expect(result.content).toContain('- Adiabatic expansion, cooling the gas');
+    expect(result.content).toContain('always fall short of it');
+    for (const chrome of ['Subscribe', 'black holes', 'Share this article', 'All rights reserved', 'analytics']) {
+      expect(result.content).not.toContain(chrome);
+    }
+  });
+
+  it('surfaces failed fetches', async () => {
+    await expect(extractFromUrl(`${origin}/missing.html`)).rejects.toThrow(/404/);
+  });
+
+  it('stops reading a page past the size limit', async () => {
+    await expect(extractFromUrl(`${origin}/huge.html`)).rejects.toThrow(/larger than 5 MB/);
+  });
+
+  it('routes YouTube links to the watch page', async () => {
+    const requested: string[] = [];
+    // Point youtube.com at the fixture server.
+    const localFetch: typeof fetch = (input, init) => {
+      const url = new URL(String(input));
+      requested.push(url.toString());
+      return fetch(`${origin}${url.pathname}${url.search}`, init);
+    };
+    const result = await extractFromUrl('https://youtu.be/abc123?t=10', localFetch);
+    expect(requested[0]).toBe('https://www.youtube.com/watch?v=abc123');
+    expect(result.type).toBe('youtube');
+  });
+});
+
+describe('fetchFile', () => {
+  it('returns the bytes of the linked file', async () => {
+    const file = await fetchFile(`${origin}/article.html`);
+    expect(file.equals(await readFile(path.join(FIXTURES, 'article.html')))).toBe(true);
+  });
+});
+
+describe('extractYouTube', () => {
+  it('reads the English transcript with timestamps', async () => {
+    const result = await extractYouTube(`${origin}/watch?v=abc123`);
+    expect(result.title).toBe('Entropy in 5 minutes');
+    expect(result.metadata).toBe('youtube.com • Physics Explained • 5 mins');
+    expect(result.content.split('\n')).toEqual([
+      'Transcript of "Entropy in 5 minutes":',
+      '[0:00] Entropy measures how many',
+      '[0:03] microstates fit a macrostate.',
+      "[1:15] It never decreases in an isolated system & that's the second law.",
+    ]);
+  });
+});
+
+describe('getYouTubeVideoId', () => {
+  it('understands the common link shapes', () => {
+    expect(getYouTubeVideoId('https://youtu.be/abc123')).toBe('abc123');
+    expect(getYouTubeVideoId('https://m.youtube.com/watch?v=abc123&t=42')).toBe('abc123');
+    expect(getYouTubeVideoId('https://www.youtube.com/shorts/abc123')).toBe('abc123');
+    expect(getYouTubeVideoId('https://www.youtube.com/embed/abc123')).toBe('abc123');
+    expect(getYouTubeVideoId('https://example.com/watch?v=abc123')).toBeNull();
+    expect(getYouTubeVideoId('not a url')).toBeNull();
+  });
+});
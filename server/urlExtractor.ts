@@ -0,0 +1,251 @@
+import { JSDOM } from 'jsdom';
+
+export interface ExtractedSource {
+  type: 'website' | 'youtube';
+  title: string;
+  metadata: string;
+  content: string;
+}
+
+type Fetch = typeof fetch;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ClarifyAI/1.0; +https://github.com/Etheal9/Clarify-ai)';
+
+// Never part of the readable text.
+const NOISE_SELECTOR = 'script, style, noscript, template, svg, iframe, form, nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]';
+const NOISE_HINT = /comment|sidebar|footer|menu|promo|related|share|social|advert|cookie|newsletter|subscribe/i;
+const CONTENT_HINT = /article|content|entry|main|post|story|body|text/i;
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, figcaption, td';
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const FETCH_TIMEOUT_MS = 15_000;
+export const MAX_BODY_BYTES = 5 * 1024 * 1024;
+export const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+// Gives up on slow responses and stops reading once one passes `maxBytes`.
+const fetchBytes = async (url: string, fetchImpl: Fetch, maxBytes: number): Promise<Buffer> => {
+  const response = await fetchImpl(url, {
+    headers: { 'User-Agent': USER_AGENT, 'Accept-Language': 'en' },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Fetching ${url} failed: ${response.status}`);
+
+  const tooLarge = () => new Error(`${url} is larger than ${maxBytes / 1024 / 1024} MB`);
+  if (Number(response.headers.get('content-length')) > maxBytes) throw tooLarge();
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+};
+
+const fetchText = async (url: string, fetchImpl: Fetch): Promise<string> =>
+  (await fetchBytes(url, fetchImpl, MAX_BODY_BYTES)).toString('utf8');
+
+/** Downloads a linked PDF or image as is, for the browser to read like an uploaded file. */
+export const fetchFile = (url: string, fetchImpl: Fetch = fetch): Promise<Buffer> =>
+  fetchBytes(url, fetchImpl, MAX_FILE_BYTES);
+
+const hostOf = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+
+/**
+ * Readability-style extraction: strips page chrome, scores every container by
+ * the paragraph text directly inside it (with a small bonus for its parent),
+ * and keeps the block-level text of the best one.
+ */
+export const extractArticle = (html: string, url: string): ExtractedSource => {
+  const { document } = new JSDOM(html, { url }).window;
+
+  const meta = (selector: string) => document.querySelector(selector)?.getAttribute('content')?.trim() || '';
+  const title = meta('meta[property="og:title"]') || normalizeSpace(document.title) || normalizeSpace(document.querySelector('h1')?.textContent || '') || url;
+  const siteName = meta('meta[property="og:site_name"]') || hostOf(url);
+
+  document.querySelectorAll(NOISE_SELECTOR).forEach(el => el.remove());
+  document.querySelectorAll('[class], [id]').forEach(el => {
+    const hint = `${el.className} ${el.id}`;
+    if (NOISE_HINT.test(hint) && !CONTENT_HINT.test(hint) && el.tagName !== 'BODY') el.remove();
+  });
+
+  const scores = new Map<Element, number>();
+  document.querySelectorAll('p, pre, blockquote').forEach(paragraph => {
+    const text = normalizeSpace(paragraph.textContent || '');
+    if (text.length < 25) return;
+    const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+    const parent = paragraph.parentElement;
+    if (!parent) return;
+    scores.set(parent, (scores.get(parent) || 0) + score);
+    if (parent.parentElement) scores.set(parent.parentElement, (scores.get(parent.parentElement) || 0) + score / 2);
+  });
+
+  let best: Element = document.querySelector('article, main') || document.body;
+  let bestScore = scores.get(best) || 0;
+  scores.forEach((score, el) => {
+    const hint = `${el.className} ${el.id}`;
+    const weighted = score * (CONTENT_HINT.test(hint) ? 1.25 : 1);
+    if (weighted > bestScore) {
+      best = el;
+      bestScore = weighted;
+    }
+  });
+
+  const blocks = Array.from(best.querySelectorAll(BLOCK_SELECTOR))
+    // Nested matches (a <p> inside an <li>) would repeat text.
+    .filter(el => {
+      const outer = el.parentElement?.closest(BLOCK_SELECTOR);
+      return !outer || !best.contains(outer);
+    })
+    .map(el => {
+      const text = normalizeSpace(el.textContent || '');
+      if (!text) return '';
+      if (/^H[1-6]$/.test(el.tagName)) return `${'#'.repeat(Number(el.tagName[1]))} ${text}`;
+      if (el.tagName === 'LI') return `- ${text}`;
+      return text;
+    })
+    .filter(Boolean);
+
+  const content = blocks.length > 0 ? blocks.join('\n\n') : normalizeSpace(best.textContent || '');
+  const words = content.split(/\s+/).filter(Boolean).length;
+
+  return {
+    type: 'website',
+    title,
+    metadata: `${siteName} • ${Math.max(1, Math.round(words / 200))} min read`,
+    content,
+  };
+};
+
+/** The video id of a YouTube watch, share, shorts or embed link. */
+export const getYouTubeVideoId = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^(www|m|music)\./, '');
+    if (host === 'youtu.be') return parsed.pathname.slice(1) || null;
+    if (host !== 'youtube.com' && host !== 'youtube-nocookie.com') return null;
+    if (parsed.searchParams.get('v')) return parsed.searchParams.get('v');
+    const match = parsed.pathname.match(/^\/(?:shorts|embed|live)\/([\w-]+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+};
+
+interface CaptionTrack {
+  baseUrl: string;
+  languageCode?: string;
+  kind?: string;
+}
+
+/** The parts of YouTube's `ytInitialPlayerResponse` read here. */
+interface PlayerResponse {
+  videoDetails?: {
+    title?: string;
+    author?: string;
+    lengthSeconds?: string;
+    shortDescription?: string;
+  };
+  captions?: {
+    playerCaptionsTracklistRenderer?: {
+      captionTracks?: CaptionTrack[];
+    };
+  };
+}
+
+const isPlayerResponse = (value: unknown): value is PlayerResponse =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Pulls a JSON object literal assigned in an inline script, e.g.
+// `var ytInitialPlayerResponse = {...};`, by matching braces.
+const readEmbeddedJson = (html: string, marker: string): unknown => {
+  const start = html.indexOf('{', html.indexOf(marker));
+  if (html.indexOf(marker) < 0 || start < 0) return null;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return JSON.parse(html.slice(start, i + 1));
+    }
+  }
+  return null;
+};
+
+const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/** Parses YouTube's timedtext XML into `[m:ss] line` rows. */
+export const parseTimedText = (xml: string): string => {
+  const { document } = new JSDOM(xml, { contentType: 'text/xml' }).window;
+  return Array.from(document.querySelectorAll('text'))
+    .map((node: Element) => {
+      const text = normalizeSpace(node.textContent || '');
+      return text ? `[${formatTimestamp(Number(node.getAttribute('start')) || 0)}] ${text}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Fetches a video's watch page, picks the English (or first) caption track
+ * from the embedded player response and returns its timestamped transcript.
+ */
+export const extractYouTube = async (watchUrl: string, fetchImpl: Fetch = fetch): Promise<ExtractedSource> => {
+  const html = await fetchText(watchUrl, fetchImpl);
+  const player = readEmbeddedJson(html, 'ytInitialPlayerResponse');
+  if (!isPlayerResponse(player)) throw new Error("Could not read the YouTube player data");
+
+  const details = player.videoDetails || {};
+  const title = details.title || 'YouTube Video';
+  const minutes = Math.max(1, Math.round(Number(details.lengthSeconds || 0) / 60));
+  const metadata = ['youtube.com', details.author, `${minutes} mins`].filter(Boolean).join(' • ');
+
+  // The data is untrusted JSON, so tracks without a usable URL are dropped.
+  const tracks = (player.captions?.playerCaptionsTracklistRenderer?.captionTracks || [])
+    .filter((t): t is CaptionTrack => typeof t?.baseUrl === 'string');
+  const track = tracks.find(t => t.languageCode?.startsWith('en') && t.kind !== 'asr')
+    || tracks.find(t => t.languageCode?.startsWith('en'))
+    || tracks[0];
+
+  // Without captions the description is the best text available.
+  if (!track) {
+    return { type: 'youtube', title, metadata, content: details.shortDescription || '' };
+  }
+
+  const transcript = parseTimedText(await fetchText(new URL(track.baseUrl, watchUrl).toString(), fetchImpl));
+  return { type: 'youtube', title, metadata, content: `Transcript of "${title}":\n${transcript}` };
+};
+
+/**
+ * Extracts readable text from a pasted link: a transcript for YouTube videos,
+ * the main article text for everything else.
+ */
+export const extractFromUrl = async (url: string, fetchImpl: Fetch = fetch): Promise<ExtractedSource> => {
+  const videoId = getYouTubeVideoId(url);
+  if (videoId) {
+    return extractYouTube(`https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`, fetchImpl);
+  }
+  return extractArticle(await fetchText(url, fetchImpl), url);
+};
@@ -0,0 +1,42 @@
+import type { Plugin } from 'vite';
+import { extractFromUrl, fetchFile } from './urlExtractor';
+import { publicFetch } from './publicFetch';
+
+/**
+ * Dev-server endpoint that fetches a pasted link on the browser's behalf
+ * (sidestepping CORS) and returns its readable text as JSON:
+ * `GET <endpoint>?url=https://...`. With `&raw=1` the linked file itself is
+ * returned instead. Only public hosts are fetched, since the dev server is
+ * reachable from the local network.
+ */
+export const urlExtractorPlugin = (endpoint: string): Plugin => ({
+  name: 'clarifyai-url-extractor',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use(endpoint, async (req, res) => {
+      const params = new URL(req.url || '', 'http://localhost').searchParams;
+      const target = params.get('url');
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method !== 'GET' || !target || !/^https?:\/\//i.test(target)) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: "Expected GET with an http(s) ?url= parameter" }));
+        return;
+      }
+
+      try {
+        if (params.get('raw')) {
+          const file = await fetchFile(target, publicFetch);
+          res.setHeader('Content-Type', 'application/octet-stream');
+          res.end(file);
+          return;
+        }
+        res.end(JSON.stringify(await extractFromUrl(target, publicFetch)));
+      } catch (error) {
+        console.error("URL extraction error:", error);
+        res.statusCode = 502;
+        res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+      }
+    });
+  },
+});
@@ -0,0 +1,110 @@
+import { AIProvider } from "./providers/types";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createFixtureProvider, FixtureMode } from "./providers/fixtureProvider";
+import { DEFAULT_SETTINGS, getSettings, resetSettings, updateSettings } from "./settingsService";
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export const AI_PROVIDER_OPTIONS: { id: AIProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Google Gemini' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible / Local (Ollama)' },
+  { id: 'mock', label: 'Offline Mock (fixtures)' },
+];
+
+const PROVIDER_STORAGE_KEY = 'clarifyai.aiProvider';
+const RECORD_STORAGE_KEY = 'clarifyai.recordFixtures';
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  AI_PROVIDER_OPTIONS.some(option => option.id === value);
+
+const createProvider = (id: AIProviderId): AIProvider => {
+  const apiKey = getSettings().apiKeys[id] || undefined;
+  switch (id) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: apiKey || process.env.OPENAI_API_KEY,
+        models: {
+          fast: process.env.OPENAI_MODEL || 'llama3.1',
+          reasoning: process.env.OPENAI_REASONING_MODEL || process.env.OPENAI_MODEL || 'llama3.1',
+          image: process.env.OPENAI_IMAGE_MODEL,
+          speech: process.env.OPENAI_TTS_MODEL,
+          embedding: process.env.OPENAI_EMBEDDING_MODEL,
+        },
+      });
+    case 'mock':
+      return createFixtureProvider({ mode: 'replay' });
+    default:
+      return createGeminiProvider(apiKey);
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * The provider chosen at runtime (persisted in localStorage), falling back to
+ * the AI_PROVIDER env var and then Gemini.
+ */
+export const getAIProviderId = (): AIProviderId => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(PROVIDER_STORAGE_KEY) : null;
+  if (isProviderId(stored)) return stored;
+  if (isProviderId(process.env.AI_PROVIDER)) return process.env.AI_PROVIDER;
+  return 'gemini';
+};
+
+/** Model overrides name one provider's models, so switching provider clears them. */
+export const setAIProviderId = (id: AIProviderId) => {
+  if (id !== getAIProviderId()) updateSettings({ models: DEFAULT_SETTINGS.models });
+  if (typeof localStorage !== 'undefined') localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  activeProvider = null;
+};
+
+/**
+ * Replay serves canned fixtures (the mock provider); record passes calls to a
+ * real provider and saves each response to fixtures/ai-fixtures.json through
+ * the dev server. Recording is off unless enabled here or via AI_FIXTURE_MODE.
+ */
+export const getFixtureMode = (): FixtureMode | 'off' => {
+  if (getAIProviderId() === 'mock') return 'replay';
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(RECORD_STORAGE_KEY) : null;
+  return stored === 'true' || process.env.AI_FIXTURE_MODE === 'record' ? 'record' : 'off';
+};
+
+export const setRecordFixtures = (enabled: boolean) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(RECORD_STORAGE_KEY, String(enabled));
+  activeProvider = null;
+};
+
+/**
+ * Stores (or, with an empty key, clears) the API key entered for a provider.
+ * Keys set here take precedence over the ones baked in from .env.
+ */
+export const setAPIKey = (id: AIProviderId, key: string) => {
+  updateSettings({ apiKeys: { ...getSettings().apiKeys, [id]: key.trim() || undefined } });
+  activeProvider = null;
+};
+
+/** Resets Settings (API keys stay) and rebuilds the provider from the defaults. */
+export const resetAISettings = () => {
+  resetSettings();
+  activeProvider = null;
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    const provider = createProvider(getAIProviderId());
+    activeProvider = getFixtureMode() === 'record'
+      ? createFixtureProvider({ mode: 'record', upstream: provider })
+      : provider;
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the active provider with a custom instance (e.g. in tests).
+ * Pass null to go back to the configured one.
+ */
+export const setAIProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, matchBlankAnswer, normalizeAnswer, parseQuantity, quantitiesMatch } from './answerMatching';
+import { FillBlankQuestion } from '../types';
+
+const blank = (correctAnswer: string, extra: Partial<FillBlankQuestion> = {}): FillBlankQuestion =>
+  ({ id: 'f1', question: 'Complete the statement.', sentence: 'It is ___.', correctAnswer, ...extra });
+
+describe('normalizeAnswer', () => {
+  it('ignores case, possessives, articles and punctuation', () => {
+    expect(normalizeAnswer("  The Entropy's! ")).toBe('entropy');
+    expect(normalizeAnswer('heat-engine.')).toBe('heat-engine');
+  });
+});
+
+describe('editDistance', () => {
+  it('counts a swap of neighbours as one edit', () => {
+    expect(editDistance('entropy', 'entorpy')).toBe(1);
+    expect(editDistance('entropy', 'enthalpy')).toBe(3);
+  });
+});
+
+describe('parseQuantity', () => {
+  it('reads fractions, percentages, powers of ten and units', () => {
+    expect(parseQuantity('1/2')).toEqual({ value: 0.5, unit: '' });
+    expect(parseQuantity('50%')).toEqual({ value: 0.5, unit: '' });
+    expect(parseQuantity('3 x 10^8 m/s')).toEqual({ value: 3e8, unit: 'm/s' });
+    expect(parseQuantity('1,200 J')).toEqual({ value: 1200, unit: 'J' });
+    expect(parseQuantity('entropy')).toBeNull();
+    expect(parseQuantity('2nd law')).toBeNull();
+  });
+
+  it('converts SI prefixes and ignores a missing unit', () => {
+    expect(quantitiesMatch(parseQuantity('500 mJ')!, parseQuantity('0.5 J')!)).toBe(true);
+    expect(quantitiesMatch(parseQuantity('2 km')!, parseQuantity('2000 m')!)).toBe(true);
+    expect(quantitiesMatch(parseQuantity('0.5')!, parseQuantity('0.5 J')!)).toBe(true);
+    expect(quantitiesMatch(parseQuantity('0.5 kg')!, parseQuantity('0.5 J')!)).toBe(false);
+  });
+});
+
+describe('matchBlankAnswer', () => {
+  it('accepts listed alternatives', () => {
+    expect(matchBlankAnswer(blank('entropy', { acceptedAnswers: ['disorder'] }), 'Disorder')).toMatchObject({ isCorrect: true, method: 'accepted' });
+  });
+
+  it('tolerates small typos in words but not numbers', () => {
+    expect(matchBlankAnswer(blank('entropy'), 'entorpy')).toMatchObject({ isCorrect: true, method: 'typo' });
+    expect(matchBlankAnswer(blank('heat'), 'hear').isCorrect).toBe(false);
+    expect(matchBlankAnswer(blank('0.5'), '0.6').isCorrect).toBe(false);
+  });
+
+  it('compares numbers within the tolerance', () => {
+    expect(matchBlankAnswer(blank('0.5'), '1/2')).toMatchObject({ isCorrect: true, method: 'numeric', reason: { code: 'numeric', params: { answer: '0.5', tolerance: 1 } } });
+    expect(matchBlankAnswer(blank('9.81 m/s^2'), '9.8 m/s^2').isCorrect).toBe(true);
+    expect(matchBlankAnswer(blank('9.81 m/s^2', { tolerance: 0.001 }), '9.8 m/s^2').isCorrect).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { BlankGrade, FillBlankQuestion } from "../types";
+
+/** Relative error a numeric answer may have when the question sets none. */
+export const DEFAULT_NUMERIC_TOLERANCE = 0.01;
+
+/**
+ * Lowercases and strips what should not decide a match: possessives, a
+ * leading article, punctuation and extra whitespace.
+ */
+export const normalizeAnswer = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[‘’`´]/g, "'")
+    .replace(/'s\b/g, '')
+    .replace(/[^\p{L}\p{N}\s.\-/%]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:the|a|an) /, '')
+    .replace(/\.$/, '');
+
+/** Edit distance counting insertions, deletions, substitutions and swaps of neighbours. */
+export const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Short words get no slack, or "heat" would accept "hear".
+const typoAllowance = (length: number) => (length <= 4 ? 0 : length <= 8 ? 1 : 2);
+
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+// 1,200 | 0.5 | .5 | 3e8 | 3 x 10^8 | 1/2, then an optional one-word unit or %.
+const QUANTITY_PATTERN = /^([-+−]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|[-+−]?\.\d+)(?:\s*e([-+]?\d+)|\s*[x×*]\s*10\^?([-+−]?\d+))?(?:\s*\/\s*(\d+(?:\.\d+)?))?\s*(%|[^\d\s]\S*)?$/i;
+
+/** A number with an optional unit, e.g. "1/2", "3 x 10^8 m/s" or "50%"; null if `text` is not one. */
+export const parseQuantity = (text: string): Quantity | null => {
+  const match = text.trim().replace(/\.$/, '').match(QUANTITY_PATTERN);
+  if (!match) return null;
+  const [, number, exponent, timesTen, denominator, unit = ''] = match;
+  let value = parseFloat(number.replace(/,/g, '').replace('−', '-'));
+  const power = exponent ?? timesTen?.replace('−', '-');
+  if (power) value *= 10 ** parseInt(power, 10);
+  if (denominator) value /= parseFloat(denominator);
+  if (unit === '%') return { value: value / 100, unit: '' };
+  return Number.isFinite(value) ? { value, unit: unit.trim() } : null;
+};
+
+const SI_PREFIXES: Record<string, number> = { G: 1e9, M: 1e6, k: 1e3, c: 1e-2, m: 1e-3, µ: 1e-6, μ: 1e-6, u: 1e-6, n: 1e-9 };
+
+// How many `base` one `unit` is, e.g. ("km", "m") -> 1000; null if unrelated.
+const unitScale = (unit: string, base: string): number | null => {
+  if (unit === base) return 1;
+  return unit.length > 1 && unit.slice(1) === base ? SI_PREFIXES[unit[0]] ?? null : null;
+};
+
+/**
+ * Whether two quantities are equal within `tolerance` (relative). Units with
+ * SI prefixes are converted ("500 mJ" equals "0.5 J"); a missing unit on
+ * either side is ignored, since the sentence often carries it.
+ */
+export const quantitiesMatch = (given: Quantity, expected: Quantity, tolerance = DEFAULT_NUMERIC_TOLERANCE): boolean => {
+  let value = given.value;
+  if (given.unit && expected.unit && given.unit !== expected.unit) {
+    const base = [expected.unit, given.unit, expected.unit.slice(1), given.unit.slice(1)]
+      .find(candidate => unitScale(given.unit, candidate) !== null && unitScale(expected.unit, candidate) !== null);
+    if (base === undefined) return false;
+    value *= unitScale(given.unit, base)! / unitScale(expected.unit, base)!;
+  }
+  const allowed = expected.value === 0 ? 1e-9 : Math.abs(expected.value) * tolerance;
+  return Math.abs(value - expected.value) <= allowed;
+};
+
+/**
+ * Grades a fill-in-the-blank answer without a model: against the answer and
+ * its accepted alternatives, then as a number, then allowing small typos.
+ */
+export const matchBlankAnswer = (question: FillBlankQuestion, answer: string): BlankGrade => {
+  const given = normalizeAnswer(answer);
+  if (!given) return { isCorrect: false, method: 'none', reason: { code: 'noAnswer' } };
+
+  const candidates = [question.correctAnswer, ...(question.acceptedAnswers || [])].filter(Boolean);
+
+  const exact = candidates.find(candidate => normalizeAnswer(candidate) === given);
+  if (exact !== undefined) {
+    return exact === question.correctAnswer
+      ? { isCorrect: true, method: 'exact', reason: { code: 'exact' } }
+      : { isCorrect: true, method: 'accepted', reason: { code: 'accepted', params: { answer: exact } } };
+  }
+
+  const quantity = parseQuantity(answer);
+  if (quantity) {
+    const tolerance = question.tolerance ?? DEFAULT_NUMERIC_TOLERANCE;
+    const numeric = candidates.find(candidate => {
+      const expected = parseQuantity(candidate);
+      return expected !== null && quantitiesMatch(quantity, expected, tolerance);
+    });
+    if (numeric !== undefined) {
+      return { isCorrect: true, method: 'numeric', reason: { code: 'numeric', params: { answer: numeric, tolerance: +(tolerance * 100).toFixed(2) } } };
+    }
+  }
+
+  // Numbers are never typo-matched: 0.5 and 0.6 are one character apart.
+  const typo = candidates.find(candidate => {
+    if (parseQuantity(candidate)) return false;
+    const expected = normalizeAnswer(candidate);
+    return editDistance(given, expected) <= typoAllowance(expected.length);
+  });
+  if (typo !== undefined) {
+    return { isCorrect: true, method: 'typo', reason: { code: 'typo', params: { answer: typo } } };
+  }
+
+  return { isCorrect: false, method: 'none', reason: { code: 'noMatch' } };
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { attachmentParts, attachmentSources, discardAttachments, readAttachment } from './attachmentService';
+import { streamExplanation } from './geminiService';
+import { setAIProvider } from './aiProvider';
+import { attachmentBlobRepository } from './storageService';
+import { createMockProvider } from './providers/mockProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { ContentPart, PromptInput } from './providers/types';
+import { AttachmentBlob } from '../types';
+
+// jsdom has no IndexedDB; the attachments store is kept in memory.
+vi.mock('./storageService', () => {
+  const blobs = new Map<string, AttachmentBlob>();
+  return {
+    attachmentBlobRepository: {
+      get: async (id: string) => blobs.get(id),
+      put: async (item: AttachmentBlob) => { blobs.set(item.id, item); },
+      removeMany: async (ids: string[]) => { ids.forEach(id => blobs.delete(id)); },
+    },
+  };
+});
+
+const notes = new File(['# Entropy\nEntropy never decreases.'], 'notes.md', { type: '' });
+const diagram = new File([new Uint8Array([137, 80, 78, 71])], 'engine.png', { type: 'image/png' });
+const lecture = new File([new Uint8Array([1, 2, 3])], 'lecture.mp3', { type: 'audio/mpeg' });
+
+describe('readAttachment', () => {
+  afterEach(() => setAIProvider(null));
+
+  it('keeps the text of documents and stores the bytes of media apart', async () => {
+    const [text, image, audio] = await Promise.all([notes, diagram, lecture].map(readAttachment));
+    expect(text).toMatchObject({ name: 'notes.md', kind: 'text', type: 'text/plain', text: '# Entropy\nEntropy never decreases.' });
+    expect(text.blobId).toBeUndefined();
+    expect(image).toMatchObject({ kind: 'image', size: 4, blobId: image.id });
+    expect(audio).toMatchObject({ kind: 'audio', blobId: audio.id });
+    expect((await attachmentBlobRepository.get(image.id))?.blob).toBe(diagram);
+
+    await discardAttachments([image]);
+    expect(await attachmentBlobRepository.get(image.id)).toBeUndefined();
+    expect(await attachmentParts([image])).toEqual([]);
+  });
+
+  it('rejects other file types', async () => {
+    await expect(readAttachment(new File(['x'], 'slides.pptx', { type: 'application/vnd.ms-powerpoint' }))).rejects.toThrow(/slides\.pptx/);
+  });
+
+  it("rejects audio the provider can't take", async () => {
+    setAIProvider(createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', models: { fast: 'llama3.1', reasoning: 'llama3.1' } }));
+    const memo = new File([new Uint8Array([1])], 'memo.ogg', { type: 'audio/ogg' });
+    await expect(readAttachment(memo)).rejects.toThrow(/memo\.ogg can't be sent: the current AI provider only accepts wav, mp3 audio/);
+    await expect(readAttachment(lecture)).resolves.toMatchObject({ kind: 'audio' });
+  });
+});
+
+describe('attachment prompts', () => {
+  afterEach(() => setAIProvider(null));
+
+  it('searches documents as sources and sends media as inline parts', async () => {
+    const attachments = await Promise.all([notes, diagram].map(readAttachment));
+
+    expect(attachmentSources(attachments)).toEqual([
+      expect.objectContaining({ id: `attachment-${attachments[0].id}`, title: 'notes.md', content: '# Entropy\nEntropy never decreases.' }),
+    ]);
+
+    const streamText = vi.fn(async function* (_prompt: PromptInput) { yield 'ok'; });
+    setAIProvider({ ...createMockProvider(), streamText });
+    for await (const _ of streamExplanation('What does the diagram show?', undefined, false, await attachmentParts(attachments))) { /* drain */ }
+
+    const [parts] = streamText.mock.calls[0] as [ContentPart[]];
+    expect(parts[0]).toEqual({ inlineData: { mimeType: 'image/png', data: 'iVBORw==' } });
+    expect(parts[1].text).toContain('What does the diagram show?');
+  });
+});
@@ -0,0 +1,102 @@
+import { ChatAttachment, SourceItem } from "../types";
+import { extractPdf } from "./pdfUtils";
+import { readFileAsDataUrl } from "./sourceUtils";
+import { attachmentBlobRepository } from "./storageService";
+import { getAIProvider } from "./aiProvider";
+import { ContentPart, stripDataUrl } from "./providers/types";
+
+/** `accept` value for the chat input's file picker. */
+export const ATTACHMENT_ACCEPT = '.pdf,.txt,.md,text/*,image/*,audio/*';
+
+// Inline data is sent with every prompt of the turn; keep it well under the
+// providers' request size limits.
+export const MAX_MEDIA_BYTES = 15 * 1024 * 1024;
+
+export const getAttachmentKind = (file: File): ChatAttachment['kind'] | null => {
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (file.type.startsWith('text/') || /\.(md|txt)$/i.test(file.name)) return 'text';
+  return null;
+};
+
+/**
+ * The audio formats the active provider accepts, when `file` is audio in some
+ * other format; null when it can be sent.
+ */
+export const unsupportedAudio = (file: File): string[] | null => {
+  const formats = getAIProvider().audioInputFormats;
+  if (getAttachmentKind(file) !== 'audio' || !formats || formats[file.type]) return null;
+  return Array.from(new Set(Object.values(formats)));
+};
+
+/**
+ * Reads a file picked in the chat input: the text of PDFs and text files. The
+ * bytes of images and audio go to the attachments store; the attachment keeps
+ * their key.
+ */
+export const readAttachment = async (file: File): Promise<ChatAttachment> => {
+  const kind = getAttachmentKind(file);
+  if (!kind) throw new Error(`${file.name} is not a PDF, text, image or audio file.`);
+  if ((kind === 'image' || kind === 'audio') && file.size > MAX_MEDIA_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_MEDIA_BYTES / 1024 / 1024} MB.`);
+  }
+  const audioFormats = unsupportedAudio(file);
+  if (audioFormats) throw new Error(`${file.name} can't be sent: the current AI provider only accepts ${audioFormats.join(', ')} audio.`);
+
+  const attachment: ChatAttachment = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    type: file.type || 'text/plain',
+    kind,
+    size: file.size,
+  };
+
+  try {
+    if (kind === 'pdf') {
+      const { text, chunks } = await extractPdf(file);
+      return { ...attachment, text, chunks };
+    }
+    if (kind === 'text') return { ...attachment, text: await file.text() };
+    await attachmentBlobRepository.put({ id: attachment.id, blob: file });
+    return { ...attachment, blobId: attachment.id };
+  } catch (error) {
+    console.error("Attachment read error:", error);
+    throw error;
+  }
+};
+
+/**
+ * PDF and text attachments as sources, so retrieval picks their relevant
+ * passages within the context budget like any selected source.
+ */
+export const attachmentSources = (attachments: ChatAttachment[]): SourceItem[] =>
+  attachments
+    .filter(attachment => attachment.text !== undefined)
+    .map(attachment => ({
+      id: `attachment-${attachment.id}`,
+      type: attachment.kind === 'pdf' ? 'pdf' : 'website',
+      title: attachment.name,
+      metadata: 'Chat attachment',
+      isSelected: true,
+      content: attachment.text,
+      chunks: attachment.chunks,
+    }));
+
+/**
+ * Image and audio attachments as inline parts for a multimodal prompt. Bytes
+ * no longer in the store (cleared with the site's data) are left out.
+ */
+export const attachmentParts = async (attachments: ChatAttachment[]): Promise<ContentPart[]> => {
+  const parts = await Promise.all(attachments.filter(attachment => attachment.blobId).map(async (attachment): Promise<ContentPart[]> => {
+    const stored = await attachmentBlobRepository.get(attachment.blobId!);
+    if (!stored) return [];
+    const { data } = stripDataUrl(await readFileAsDataUrl(stored.blob));
+    return [{ inlineData: { mimeType: attachment.type, data } }];
+  }));
+  return parts.flat();
+};
+
+/** Deletes the stored bytes of attachments that are no longer referenced. */
+export const discardAttachments = (attachments: ChatAttachment[]): Promise<void> =>
+  attachmentBlobRepository.removeMany(attachments.flatMap(attachment => attachment.blobId ? [attachment.blobId] : []));
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText, parseTimestamp } from './chunking';
+
+describe('chunkText', () => {
+  it('starts chunks at headings and remembers the section', () => {
+    const text = `# Heat\n${'Heat moves from hot to cold. '.repeat(4)}\n\n## Work\n${'Work is force times distance. '.repeat(4)}`;
+    const chunks = chunkText(text, 200);
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['Heat', 'Work']);
+    expect(chunks[1].text.startsWith('## Work\n')).toBe(true);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(200));
+  });
+
+  it('records where transcript chunks start', () => {
+    const lines = Array.from({ length: 6 }, (_, i) => `[${i}:05] Line number ${i} of the lecture transcript.`);
+    const chunks = chunkText(lines.join('\n'), 100);
+    expect(chunks.map(chunk => chunk.startTime)).toEqual([5, 125, 245]);
+  });
+
+  it('splits a single overlong line on word boundaries', () => {
+    const chunks = chunkText('word '.repeat(100), 42);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.text).toMatch(/^(word ?)+$/));
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads m:ss and h:mm:ss prefixes', () => {
+    expect(parseTimestamp('[1:15] Heat')).toBe(75);
+    expect(parseTimestamp('[1:02:03] Heat')).toBe(3723);
+    expect(parseTimestamp('Heat [1:15]')).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { SourceChunk } from "../types";
+
+/** One line of source text, with whatever location info its format offers. */
+export interface ChunkLine {
+  text: string;
+  heading?: boolean;
+  page?: number;
+  time?: number; // Seconds into a transcript
+}
+
+// ~1000 tokens, so a handful of chunks fit comfortably in one prompt.
+export const CHUNK_CHARS = 4000;
+
+const TIMESTAMP = /^\[(?:(\d+):)?(\d+):(\d{2})\]/;
+
+/** Seconds for a leading `[m:ss]` / `[h:mm:ss]` transcript timestamp. */
+export const parseTimestamp = (line: string): number | undefined => {
+  const match = line.match(TIMESTAMP);
+  return match ? Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]) : undefined;
+};
+
+const splitLongLine = (line: string, maxChars: number): string[] => {
+  if (line.length <= maxChars) return [line];
+  const pieces: string[] = [];
+  let piece = '';
+  line.split(' ').forEach(word => {
+    if (piece && piece.length + word.length + 1 > maxChars) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece = piece ? `${piece} ${word}` : word;
+  });
+  if (piece) pieces.push(piece);
+  return pieces;
+};
+
+/**
+ * Packs lines into chunks of at most `maxChars`, starting a new chunk at each
+ * heading where practical. Each chunk records the heading it falls under and
+ * the page range or timestamp it starts at.
+ */
+export const chunkLines = (lines: ChunkLine[], maxChars = CHUNK_CHARS): SourceChunk[] => {
+  const chunks: SourceChunk[] = [];
+  let current: SourceChunk | null = null;
+  let heading: string | undefined;
+
+  const flush = () => {
+    if (current) chunks.push(current);
+    current = null;
+  };
+
+  lines.forEach(line => {
+    if (line.heading) {
+      heading = line.text.replace(/^#+\s*/, '');
+      // Small leftovers stay with the next section rather than standing alone.
+      if (current && current.text.length > maxChars / 4) flush();
+    }
+
+    splitLongLine(line.text, maxChars).forEach(piece => {
+      if (current && current.text.length + piece.length + 1 > maxChars) flush();
+      if (!current) {
+        current = { index: chunks.length, text: piece, heading, pageStart: line.page, pageEnd: line.page, startTime: line.time };
+      } else {
+        current.text += `\n${piece}`;
+        current.pageEnd = line.page;
+      }
+    });
+  });
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Chunks plain text such as an article, transcript or notes file, picking up
+ * markdown headings and `[m:ss]` transcript timestamps along the way.
+ */
+export const chunkText = (text: string, maxChars = CHUNK_CHARS): SourceChunk[] =>
+  chunkLines(
+    text.split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => ({ text: line, heading: /^#{1,6}\s/.test(line), time: parseTimestamp(line) })),
+    maxChars
+  );
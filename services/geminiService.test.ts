@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { askFollowUp, createFollowUpSession, editSimulation, generateExplanation, generateQuiz } from './geminiService';
+import { setAIProvider } from './aiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+import { ChatOptions } from './providers/types';
+
+describe('follow-up questions', () => {
+  it('answers in turn as new sections', async () => {
+    const chat = createFollowUpSession('# Executive Summary\nEntropy never decreases.', '[S1] Notes\nEntropy grows.');
+    const first = await askFollowUp(chat, 'Explain the second law more simply');
+    const second = await askFollowUp(chat, 'Why are engines inefficient?');
+    expect(first).toMatch(/^## The Second Law, More Simply\n/);
+    expect(second).toMatch(/^## Why No Engine Is 100% Efficient\n/);
+  });
+
+  it('seeds the chat with the explanation and sources', async () => {
+    const sendMessage = vi.fn(async () => 'Heat spreads out.');
+    const createChat = vi.fn((_options: ChatOptions) => ({ sendMessage }));
+    setAIProvider({ ...createMockProvider(), createChat });
+
+    const chat = createFollowUpSession('# Executive Summary\nEntropy never decreases.', '[S1] Notes\nEntropy grows.');
+    const { systemInstruction, task } = createChat.mock.calls[0][0];
+    expect(task).toBe('follow-up');
+    expect(systemInstruction).toContain('Entropy never decreases.');
+    expect(systemInstruction).toContain('[S1] Notes\nEntropy grows.');
+
+    // Answers without a heading get the question as one.
+    expect(await askFollowUp(chat, 'Explain the\nsecond law')).toBe('## Explain the second law\nHeat spreads out.');
+    expect(sendMessage).toHaveBeenCalledWith([{ text: 'Explain the\nsecond law' }]);
+  });
+});
+
+describe('explanation options', () => {
+  it('writes for the chosen level, style and length', async () => {
+    const generateText = vi.fn(async () => '# Summary');
+    setAIProvider({ ...createMockProvider(), generateText });
+
+    await generateExplanation('Entropy', false, [], { level: 'middle-school', style: 'analogy', length: 'brief' });
+    const [prompt] = generateText.mock.calls[0] as unknown as [string];
+    expect(prompt).toContain('AUDIENCE: Write for a middle school student');
+    expect(prompt).toContain('STYLE: Lean on analogies');
+    expect(prompt).toContain('LENGTH: Keep it brief');
+
+    await generateExplanation('Entropy');
+    const [defaultPrompt] = generateText.mock.calls[1] as unknown as [string];
+    expect(defaultPrompt).toContain('AUDIENCE: Write for an undergraduate student');
+    expect(defaultPrompt).not.toContain('STYLE:');
+  });
+});
+
+describe('simulation edits', () => {
+  it('sends the simulation being edited', async () => {
+    const generateText = vi.fn(async () => '```html\n<canvas id="piston"></canvas>\n```');
+    setAIProvider({ ...createMockProvider(), generateText });
+
+    const code = await editSimulation('<canvas id="engine"></canvas>', 'Rename the canvas to piston');
+    const [prompt] = generateText.mock.calls[0] as unknown as [string];
+    expect(prompt).toContain('Rename the canvas to piston');
+    expect(prompt).toContain('<canvas id="engine"></canvas>');
+    expect(code.trim()).toBe('<canvas id="piston"></canvas>');
+  });
+});
+
+describe('quiz generation', () => {
+  it('asks for the configured difficulty, count and mix', async () => {
+    const provider = createFixtureProvider({ mode: 'replay' });
+    const generateJSON = vi.spyOn(provider, 'generateJSON');
+    setAIProvider(provider);
+
+    const quiz = await generateQuiz('Carnot engines', 'Hard', 5, { 'choose': 1, 'fill-blank': 0, 'match': 0, 'answer': 1 });
+    const prompt = generateJSON.mock.calls[0][0] as string;
+    expect(prompt).toContain('Carnot engines');
+    expect(prompt).toContain('DIFFICULTY: Hard (synthesis)');
+    expect(prompt).toContain('exactly 5 questions');
+    expect(prompt).toContain('"choose": 3 multiple choice');
+    expect(prompt).toContain('"fillBlank": 0 fill-in-the-blank');
+
+    // The fixture has five of each type; only the requested ones are kept.
+    expect([quiz.choose.length, quiz.fillBlank.length, quiz.match.length, quiz.answer.length]).toEqual([3, 0, 0, 2]);
+  });
+});
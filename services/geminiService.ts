@@ -1,49 +1,64 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { GroundingSource, QuizData } from "../types";
-
-// Helper to get AI instance safely
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { ExplanationLength, ExplanationLevel, ExplanationOptions, ExplanationStyle, GroundingSource, FillBlankQuestion, QuestionMix, QuizData, RubricPoint, ShortAnswerQuestion } from "../types";
+import { getAIProvider } from "./aiProvider";
+import { getSettings, getTaskModel } from "./settingsService";
+import { languageInstruction } from "./i18n";
+import { DEFAULT_QUESTION_MIX, normalizeQuiz, splitQuestionCount } from "./quizService";
+import { AIChat, ContentPart, JsonSchema, PromptInput, stripDataUrl } from "./providers/types";
 
 /**
  * Generates high-quality human-like speech for students using the dedicated TTS model.
  */
 export const generateSpeech = async (text: string, voiceName: string): Promise<string> => {
-  const ai = getAI();
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio data returned");
-    return base64Audio;
+    return await getAIProvider().generateSpeech(text, voiceName, { task: 'speech' });
   } catch (error) {
     console.error("Speech generation error:", error);
     throw error;
   }
 };
 
-/**
- * Generates a text explanation using Gemini Pro for complex reasoning.
- */
-export const generateExplanation = async (text: string): Promise<string> => {
-  if (!text) return "";
-  const ai = getAI();
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `You are an expert tutor. Analyze the following text and provide a comprehensive yet easy-to-understand explanation. 
+/** A text prompt preceded by any attached images or audio. */
+const withMedia = (prompt: string, media: ContentPart[]): PromptInput =>
+  media.length > 0 ? [...media, { text: prompt }] : prompt;
+
+// Reference material arrives as passages labelled [S1], [S2], ... (see formatContext).
+const CITATION_INSTRUCTIONS = `
+      CITATIONS: The reference material is split into passages labelled [S1], [S2], and so on.
+      Right after every sentence or bullet that relies on a passage, cite it with its label, e.g. "[S2]" or "[S1][S3]".
+      Only cite passages that actually support the statement, and never invent labels. Statements from general knowledge get no citation.
+`;
+
+export const DEFAULT_EXPLANATION_OPTIONS: ExplanationOptions = { level: 'undergrad', style: 'standard', length: 'standard' };
+
+const LEVEL_INSTRUCTIONS: Record<ExplanationLevel, string> = {
+  'middle-school': 'Write for a middle school student (ages 11-14): everyday words, short sentences, every technical term defined, and no equations unless they are essential.',
+  'undergrad': "Write for an undergraduate student: use the field's standard terminology and key equations, defining each term the first time it appears.",
+  'expert': 'Write for an expert in the field: be precise and dense, assume the fundamentals, and focus on subtleties, derivations and edge cases.',
+};
+
+const STYLE_INSTRUCTIONS: Record<ExplanationStyle, string> = {
+  'standard': '',
+  'analogy': 'Lean on analogies: introduce each key idea through a concrete everyday comparison, then say where the analogy breaks down.',
+  'step-by-step': 'Go step by step: in the Detailed Analysis, walk through the reasoning as a numbered sequence of small steps.',
+  'socratic': 'Be Socratic: lead into each idea with a question the student should ask themselves, then answer it.',
+  'eli5': "Explain it like the reader is five: very simple words, playful concrete examples and no jargon at all.",
+};
+
+const LENGTH_INSTRUCTIONS: Record<ExplanationLength, string> = {
+  'brief': 'Keep it brief: about 150-250 words in total.',
+  'standard': 'Aim for about 400-600 words in total.',
+  'detailed': 'Be thorough: about 900-1200 words in total, with worked examples.',
+};
+
+const buildExplanationPrompt = (text: string, withCitations = false, options: Partial<ExplanationOptions> = {}) => {
+  const { level, style, length } = { ...DEFAULT_EXPLANATION_OPTIONS, ...options };
+  return `You are an expert tutor. Analyze the following text and provide a comprehensive yet easy-to-understand explanation. 
+
+      AUDIENCE: ${LEVEL_INSTRUCTIONS[level]}
+      ${STYLE_INSTRUCTIONS[style] ? `STYLE: ${STYLE_INSTRUCTIONS[style]}` : ''}
+      LENGTH: ${LENGTH_INSTRUCTIONS[length]}
+      ${languageInstruction()}
       
       IMPORTANT: You must output the response in strictly segmented Markdown sections. 
       Start every new section with a Header 1 (#) or Header 2 (##). 
@@ -61,55 +76,99 @@ export const generateExplanation = async (text: string): Promise<string> => {
 
       ## Conclusion
       (A final wrapping thought or takeaway)
-      
+      ${withCitations ? CITATION_INSTRUCTIONS : ''}
       Text to analyze:
-      ${text}`,
-      config: {
-        thinkingConfig: { thinkingBudget: 1024 } 
-      }
-    });
-    return response.text || "No explanation generated.";
+      ${text}`;
+};
+
+/**
+ * Generates a text explanation using Gemini Pro for complex reasoning. With
+ * `withCitations`, `text` holds labelled source passages and the explanation
+ * cites them inline as [S1], [S2], ... `media` holds attached images or audio,
+ * and `options` the audience level, style and length.
+ */
+export const generateExplanation = async (text: string, withCitations = false, media: ContentPart[] = [], options: Partial<ExplanationOptions> = {}): Promise<string> => {
+  if (!text) return "";
+  
+  try {
+    const response = await getAIProvider().generateText(withMedia(buildExplanationPrompt(text, withCitations, options), media), { task: 'explanation', tier: 'reasoning', model: getTaskModel('explanation'), thinkingBudget: getSettings().thinkingBudget });
+    return response || "No explanation generated.";
   } catch (error) {
     console.error("Explanation error:", error);
     throw error;
   }
 };
 
+/**
+ * Streaming variant of generateExplanation. Yields markdown chunks as they
+ * arrive; aborting `signal` stops the stream early without throwing.
+ */
+export async function* streamExplanation(text: string, signal?: AbortSignal, withCitations = false, media: ContentPart[] = [], options: Partial<ExplanationOptions> = {}): AsyncGenerator<string> {
+  if (!text) return;
+
+  try {
+    for await (const chunk of getAIProvider().streamText(withMedia(buildExplanationPrompt(text, withCitations, options), media), { task: 'explanation', tier: 'reasoning', model: getTaskModel('explanation'), thinkingBudget: getSettings().thinkingBudget, signal })) {
+      if (signal?.aborted) return;
+      yield chunk;
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error("Explanation stream error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Starts a tutoring chat about an explanation the student already has, seeded
+ * with it and the labelled source passages it was built from.
+ */
+export const createFollowUpSession = (explanation: string, referenceMaterial = ''): AIChat =>
+  getAIProvider().createChat({
+    task: 'follow-up',
+    tier: 'reasoning',
+    model: getTaskModel('explanation'),
+    systemInstruction: `You are an expert tutor answering follow-up questions about an explanation the student is reading.
+
+      Answer each question so it can be appended to the explanation as a new section:
+      1.  Start with a Header 2 (##) that names what the section covers, and do NOT include a preamble before it.
+      2.  Build on the explanation instead of repeating it. If asked to simplify, re-explain only the part asked about.
+      3.  Keep it focused: a few short paragraphs or a bulleted list.
+      ${languageInstruction()}
+      ${referenceMaterial ? CITATION_INSTRUCTIONS : ''}
+      ${referenceMaterial ? `Reference Material:\n${referenceMaterial}\n` : ''}
+      Explanation the student is reading:
+      ${explanation}`
+  });
+
+/**
+ * Asks a follow-up question in a session from createFollowUpSession. Resolves
+ * to a markdown section that starts with a ## heading.
+ */
+export const askFollowUp = async (chat: AIChat, question: string, media: ContentPart[] = []): Promise<string> => {
+  try {
+    const answer = (await chat.sendMessage([...media, { text: question }])).trim();
+    return /^#{1,3}\s/.test(answer) ? answer : `## ${question.replace(/\s+/g, ' ').slice(0, 80)}\n${answer}`;
+  } catch (error) {
+    console.error("Follow-up error:", error);
+    throw error;
+  }
+};
+
 /**
  * Generates an initial infographic/visual using Gemini Flash Image.
  */
-export const generateVisual = async (text: string): Promise<string> => {
+export const generateVisual = async (text: string, media: ContentPart[] = []): Promise<string> => {
   if (!text) return "";
-  const ai = getAI();
+  const provider = getAIProvider();
   
   try {
-    const promptResponse = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Create a detailed image generation prompt for an educational infographic that visualizes the following text. 
+    const promptResponse = await provider.generateText(withMedia(`Create a detailed image generation prompt for an educational infographic that visualizes the following text. 
       The prompt should describe a clean, modern, flat-design infographic.
-      Text: ${text.substring(0, 2000)}`
-    });
+      Text: ${text}`, media), { task: 'visual-prompt', tier: 'fast' });
     
-    const imagePrompt = promptResponse.text || "An educational infographic summarizing the text.";
+    const imagePrompt = promptResponse || "An educational infographic summarizing the text.";
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: imagePrompt }]
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "4:3",
-        }
-      }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No image generated");
+    return await provider.generateImage(imagePrompt, { task: 'visual', model: getTaskModel('visual'), aspectRatio: "4:3" });
   } catch (error) {
     console.error("Visual generation error:", error);
     throw error;
@@ -120,50 +179,59 @@ export const generateVisual = async (text: string): Promise<string> => {
  * Edits an existing image based on user prompt using Gemini Flash Image.
  */
 export const editVisual = async (imageBase64: string, instruction: string): Promise<string> => {
-  const ai = getAI();
-  const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+  const { mimeType, data } = stripDataUrl(imageBase64);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: cleanBase64,
-              mimeType: 'image/png' 
-            }
-          },
-          { text: instruction }
-        ]
-      }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    throw new Error("No edited image returned");
+    return await getAIProvider().generateImage([
+      {
+        inlineData: {
+          data,
+          mimeType
+        }
+      },
+      { text: instruction }
+    ], { task: 'visual', model: getTaskModel('visual') });
   } catch (error) {
     console.error("Image edit error:", error);
     throw error;
   }
 };
 
+/**
+ * Describes an uploaded image (diagram, chart, photo of notes) in words so it
+ * can be used as source material.
+ */
+export const describeImage = async (imageDataUrl: string): Promise<string> => {
+  const { mimeType, data } = stripDataUrl(imageDataUrl);
+
+  try {
+    return await getAIProvider().generateText([
+      { inlineData: { data, mimeType } },
+      { text: `Describe this image for a student who cannot see it. Explain what it shows, including any diagram, chart, equation or labels and what they mean. Do not transcribe long passages of text word for word. Use plain markdown and no preamble.` }
+    ], { task: 'image-description', tier: 'fast' });
+  } catch (error) {
+    console.error("Image description error:", error);
+    throw error;
+  }
+};
+
+// What of a simulation is written in the content language.
+const SIMULATION_TEXT = 'every label, instruction and message shown in the simulation (code and identifiers stay in English)';
+
 /**
  * Generates an interactive simulation code using Gemini Pro.
  */
-export const generateSimulation = async (text: string): Promise<string> => {
+export const generateSimulation = async (text: string, media: ContentPart[] = []): Promise<string> => {
   if (!text) return "";
-  const ai = getAI();
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `You are an expert frontend developer. Create a single-file HTML/JS interactive simulation to explain the concepts in the following text. Use Vanilla JS and modern CSS. Return ONLY the raw HTML code.`
-    });
+    const response = await getAIProvider().generateText(
+      withMedia(`You are an expert frontend developer. Create a single-file HTML/JS interactive simulation to explain the concepts in the following text. Use Vanilla JS and modern CSS. Return ONLY the raw HTML code.
+      ${languageInstruction(SIMULATION_TEXT)}
+      Text: ${text}`, media),
+      { task: 'simulation', tier: 'reasoning', model: getTaskModel('simulation') }
+    );
     
-    let code = response.text || "";
+    let code = response || "";
     code = code.replace(/```html/g, '').replace(/```/g, '');
     return code;
   } catch (error) {
@@ -177,14 +245,16 @@ export const generateSimulation = async (text: string): Promise<string> => {
  */
 export const editSimulation = async (currentCode: string, instruction: string): Promise<string> => {
   if (!currentCode || !instruction) return currentCode;
-  const ai = getAI();
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `You are an expert frontend developer. Modify the following HTML/JS simulation based on this instruction: ${instruction}. Return ONLY the raw HTML code.`
-    });
+    const response = await getAIProvider().generateText(
+      `You are an expert frontend developer. Modify the following HTML/JS simulation based on this instruction: ${instruction}. Keep everything the instruction doesn't ask to change. Return ONLY the complete raw HTML code.
+      ${languageInstruction(SIMULATION_TEXT)}
+      Current simulation:
+      ${currentCode}`,
+      { task: 'simulation', tier: 'reasoning', model: getTaskModel('simulation') }
+    );
     
-    let code = response.text || "";
+    let code = response || "";
     code = code.replace(/```html/g, '').replace(/```/g, '');
     return code;
   } catch (error) {
@@ -197,24 +267,13 @@ export const editSimulation = async (currentCode: string, instruction: string):
  * Verifies facts using Google Search Grounding.
  */
 export const verifyText = async (text: string): Promise<{ explanation: string; sources: GroundingSource[] }> => {
-  const ai = getAI();
-  
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Verify the claims in the following text using Google Search.
-      Text: ${text.substring(0, 3000)}`,
-      config: {
-        tools: [{ googleSearch: {} }]
-      }
-    });
+    const response = await getAIProvider().searchGrounded(`Verify the claims in the following text using Google Search.
+      ${languageInstruction('your verdict and explanation')}
+      Text: ${text}`, { task: 'verification', model: getTaskModel('verification') });
 
     const explanation = response.text || "No verification info returned.";
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources: GroundingSource[] = chunks
-      .map((chunk: any) => chunk.web)
-      .filter((web: any) => web && web.uri && web.title)
-      .map((web: any) => ({ uri: web.uri, title: web.title }));
+    const sources: GroundingSource[] = response.sources;
 
     const uniqueSources = Array.from(new Map(sources.map(s => [s.uri, s])).values());
     return { explanation, sources: uniqueSources };
@@ -224,48 +283,133 @@ export const verifyText = async (text: string): Promise<{ explanation: string; s
   }
 };
 
+const QUIZ_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string' },
+    choose: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' }, question: { type: 'string' }, options: { type: 'array', items: { type: 'string' } }, correctAnswer: { type: 'string' } }, required: ["id", "question", "options", "correctAnswer"] } },
+    fillBlank: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' }, question: { type: 'string' }, sentence: { type: 'string' }, correctAnswer: { type: 'string' }, acceptedAnswers: { type: 'array', items: { type: 'string' } }, tolerance: { type: 'number' } }, required: ["id", "question", "sentence", "correctAnswer"] } },
+    match: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' }, question: { type: 'string' }, pairs: { type: 'array', items: { type: 'object', properties: { left: { type: 'string' }, right: { type: 'string' } }, required: ["left", "right"] } } }, required: ["id", "question", "pairs"] } },
+    answer: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' }, question: { type: 'string' }, sampleAnswer: { type: 'string' } }, required: ["id", "question", "sampleAnswer"] } }
+  },
+  required: ["topic", "choose", "fillBlank", "match", "answer"]
+};
+
+const DIFFICULTY_INSTRUCTIONS: Record<string, string> = {
+  Easy: 'Easy (recall): ask about definitions, facts and statements taken directly from the text.',
+  Medium: 'Medium (application): ask the student to apply the ideas to new examples or short calculations.',
+  Hard: 'Hard (synthesis): ask questions that combine several ideas, compare them or reason about edge cases.',
+};
+
 /**
- * Generates a comprehensive quiz with 4 types of questions.
+ * Generates a quiz on `text` with `count` questions split across the question
+ * types by `mix` (see splitQuestionCount), at the given difficulty.
  */
-export const generateQuiz = async (text: string, difficulty: string = 'Medium', count: number = 5): Promise<QuizData> => {
+export const generateQuiz = async (text: string, difficulty: string = 'Medium', count: number = 5, mix: QuestionMix = DEFAULT_QUESTION_MIX): Promise<QuizData> => {
   if (!text) throw new Error("No context provided");
-  const ai = getAI();
 
+  const counts = splitQuestionCount(count, mix);
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Generate a structured quiz based on the following text. Return JSON.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            topic: { type: Type.STRING },
-            choose: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, options: { type: Type.ARRAY, items: { type: Type.STRING } }, correctAnswer: { type: Type.STRING } }, required: ["id", "question", "options", "correctAnswer"] } },
-            fillBlank: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, sentence: { type: Type.STRING }, correctAnswer: { type: Type.STRING } }, required: ["id", "question", "sentence", "correctAnswer"] } },
-            match: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, pairs: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { left: { type: Type.STRING }, right: { type: Type.STRING } }, required: ["left", "right"] } } }, required: ["id", "question", "pairs"] } },
-            answer: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, question: { type: Type.STRING }, sampleAnswer: { type: Type.STRING } }, required: ["id", "question", "sampleAnswer"] } }
-          },
-          required: ["topic", "choose", "fillBlank", "match", "answer"]
-        }
-      }
-    });
+    const quiz = await getAIProvider().generateJSON<QuizData>(
+      `You are an expert teacher. Generate a structured quiz based on the following text. Return JSON.
 
-    const jsonStr = response.text || "{}";
-    return JSON.parse(jsonStr) as QuizData;
+      DIFFICULTY: ${DIFFICULTY_INSTRUCTIONS[difficulty] || DIFFICULTY_INSTRUCTIONS.Medium}
+
+      Generate exactly ${count} questions in total, with exactly this many of each type (use an empty array for 0):
+      - "choose": ${counts['choose']} multiple choice questions, each with 4 options; "correctAnswer" must be one of the options, word for word.
+      - "fillBlank": ${counts['fill-blank']} fill-in-the-blank questions; "sentence" contains "___" where the single missing word or number goes. List other correct forms (synonyms, spellings, equivalent numbers such as "1/2" for "0.5") in "acceptedAnswers", and for numeric answers set "tolerance" to the relative error to accept (e.g. 0.01), leaving units to the sentence.
+      - "match": ${counts['match']} matching sets, each with 4 pairs of a term ("left") and what it matches ("right").
+      - "answer": ${counts['answer']} short answer questions, each with a "sampleAnswer" holding the key points.
+      Give every question a unique "id", and set "topic" to a short name for the subject.
+      ${languageInstruction('every question, option, sentence and answer (JSON keys stay in English)')}
+
+      Text:
+      ${text}`,
+      QUIZ_SCHEMA,
+      { task: 'quiz', tier: 'fast', model: getTaskModel('quiz') }
+    );
+    return normalizeQuiz(quiz, counts);
   } catch (error) {
     console.error("Quiz error:", error);
     throw error;
   }
 };
 
+const GRADING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    keyPoints: { type: 'array', items: { type: 'object', properties: { point: { type: 'string' }, status: { type: 'string', enum: ['covered', 'partial', 'missing', 'incorrect'] }, comment: { type: 'string' } }, required: ["point", "status"] } },
+    feedback: { type: 'string' }
+  },
+  required: ["keyPoints", "feedback"]
+};
+
+/**
+ * Breaks a short answer question's sample answer into key points and judges
+ * how the learner's answer covers each one. See gradeShortAnswer for scoring.
+ */
+export const assessShortAnswer = async (question: ShortAnswerQuestion, answer: string): Promise<{ keyPoints: RubricPoint[]; feedback: string }> => {
+  try {
+    return await getAIProvider().generateJSON<{ keyPoints: RubricPoint[]; feedback: string }>(
+      `You are a fair but rigorous teacher grading a short answer against a rubric.
+
+      1.  Break the sample answer into its 2-5 key points; these are the rubric.
+      2.  For each key point, set "status" to "covered" if the student's answer states it, "partial" if it is only hinted at or incomplete, "missing" if it is absent, or "incorrect" if the answer contradicts it.
+      3.  Add a short "comment" for every point that is not covered, saying what is missing or wrong.
+      4.  Write "feedback": two or three sentences addressed to the student, starting with what they got right.
+      Judge meaning, not wording, and ignore spelling mistakes. Extra correct detail is fine.
+      ${languageInstruction('every key point, comment and the feedback (JSON keys and status values stay in English)')}
+
+      Question: ${question.question}
+      Sample answer: ${question.sampleAnswer}
+      Student's answer: ${answer}`,
+      GRADING_SCHEMA,
+      { task: 'grading', tier: 'fast', model: getTaskModel('quiz') }
+    );
+  } catch (error) {
+    console.error("Grading error:", error);
+    throw error;
+  }
+};
+
+const EQUIVALENCE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    equivalent: { type: 'boolean' },
+    reason: { type: 'string' }
+  },
+  required: ["equivalent", "reason"]
+};
+
+/**
+ * Asks whether a fill-in-the-blank answer that matched nothing locally still
+ * means the same as the expected one, with a one-sentence reason.
+ */
+export const judgeBlankAnswer = async (question: FillBlankQuestion, answer: string): Promise<{ equivalent: boolean; reason: string }> => {
+  try {
+    return await getAIProvider().generateJSON<{ equivalent: boolean; reason: string }>(
+      `A student filled in the blank in this sentence. Decide whether their answer is equivalent to the expected answer in this context: a synonym, another name for the same thing, or the same value in other units counts; a related but different idea does not.
+      Set "equivalent" and give a one-sentence "reason" addressed to the student.
+      ${languageInstruction('the reason')}
+
+      Sentence: ${question.sentence}
+      Expected answer: ${[question.correctAnswer, ...(question.acceptedAnswers || [])].join(' / ')}
+      Student's answer: ${answer}`,
+      EQUIVALENCE_SCHEMA,
+      { task: 'answer-equivalence', tier: 'fast', model: getTaskModel('quiz') }
+    );
+  } catch (error) {
+    console.error("Answer equivalence error:", error);
+    throw error;
+  }
+};
+
 export type StudentType = 'normal' | 'argumentative' | 'creative';
 
 /**
  * Creates a specialized Chat session for the Feynman Student Mode.
  */
-export const createStudentSession = (topic: string, type: StudentType = 'normal') => {
-  const ai = getAI();
+export const createStudentSession = (topic: string, type: StudentType = 'normal'): AIChat => {
   
   let personaInstruction = "";
   if (type === 'normal') {
@@ -276,10 +420,10 @@ export const createStudentSession = (topic: string, type: StudentType = 'normal'
     personaInstruction = `You are "Charlie", a divergent and critical thinker. You deconstruct ideas from first principles and look for fundamental flaws. You ask provocative "what if" questions that challenge the status quo with logic-bending alternatives. You are NOT just about art; you are a deep critical creative.`;
   }
 
-  const chat = ai.chats.create({
-    model: 'gemini-3-flash-preview',
-    config: {
-      systemInstruction: `${personaInstruction} 
+  const chat = getAIProvider().createChat({
+    task: 'student',
+    tier: 'fast',
+    systemInstruction: `${personaInstruction} 
       The user is your teacher explaining "${topic}".
       
       Your Goal: Completely understand or deeply challenge "${topic}".
@@ -291,7 +435,6 @@ export const createStudentSession = (topic: string, type: StudentType = 'normal'
       4.  **Identity**: Stay true to your student persona (${type}).
       
       Tone: Conversational, sharp, and focused.`
-    }
   });
   return chat;
 };
@@ -299,10 +442,10 @@ export const createStudentSession = (topic: string, type: StudentType = 'normal'
 /**
  * Sends a message to the student chat session.
  */
-export const sendMessageToStudent = async (chat: any, text: string | null, audioBase64: string | null): Promise<string> => {
+export const sendMessageToStudent = async (chat: AIChat | null, text: string | null, audioBase64: string | null): Promise<string> => {
   if (!chat) throw new Error("Chat not initialized");
 
-  const parts = [];
+  const parts: ContentPart[] = [];
   if (audioBase64) {
       parts.push({ inlineData: { mimeType: 'audio/webm', data: audioBase64.replace(/^data:audio\/\w+;base64,/, "") } });
   }
@@ -311,8 +454,7 @@ export const sendMessageToStudent = async (chat: any, text: string | null, audio
   }
 
   try {
-      const response = await chat.sendMessage({ message: parts });
-      return response.text || "";
+      return await chat.sendMessage(parts);
   } catch (error) {
       console.error("Student Chat Error:", error);
       throw error;
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { describeGaps, formatGradeReason, gradeBlankAnswer, gradeQuizAnswer, gradeShortAnswer, scoreRubric } from './gradingService';
+import { translate } from './i18n';
+import { resetSettings, updateSettings } from './settingsService';
+import { setAIProvider } from './aiProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+import { RubricPoint } from '../types';
+
+const question = { id: 'a1', question: 'Why can no heat engine be 100% efficient?', sampleAnswer: 'Heat must be rejected so entropy does not decrease.' };
+
+describe('scoreRubric', () => {
+  it('gives half credit for partial points', () => {
+    const rubric: RubricPoint[] = [
+      { point: 'A', status: 'covered' },
+      { point: 'B', status: 'partial' },
+      { point: 'C', status: 'missing' },
+      { point: 'D', status: 'incorrect' },
+    ];
+    expect(scoreRubric(rubric)).toBe(0.375);
+    expect(scoreRubric([])).toBe(0);
+  });
+
+  it('lists the gaps for the mistake note', () => {
+    expect(describeGaps([
+      { point: 'Heat is rejected', status: 'covered' },
+      { point: 'Entropy never decreases', status: 'missing' },
+      { point: 'Carnot limit', status: 'partial', comment: 'Name what sets it.' },
+    ])).toBe('Missing: Entropy never decreases\nIncomplete: Carnot limit (Name what sets it.)');
+    expect(describeGaps([{ point: 'Carnot limit', status: 'incorrect' }], (key, params) => translate('am', key, params))).toBe('የተሳሳተ: Carnot limit');
+  });
+});
+
+describe('gradeShortAnswer', () => {
+  it('scores the rubric returned by the model', async () => {
+    const grade = await gradeShortAnswer(question, 'Some heat always goes to the cold side because of entropy.');
+    expect(grade.rubric.map(point => point.status)).toEqual(['covered', 'covered', 'partial']);
+    expect(grade.score).toBeCloseTo(5 / 6);
+    expect(grade.isCorrect).toBe(true);
+    expect(grade.feedback).toMatch(/^Good grasp/);
+  });
+
+  it('fails a blank answer without asking the model', async () => {
+    const provider = createFixtureProvider({ mode: 'replay' });
+    const generateJSON = vi.spyOn(provider, 'generateJSON');
+    setAIProvider(provider);
+
+    expect(await gradeShortAnswer(question, '   ')).toMatchObject({ score: 0, isCorrect: false });
+    expect(generateJSON).not.toHaveBeenCalled();
+  });
+});
+
+describe('gradeBlankAnswer', () => {
+  const fill = { id: 'f1', question: 'Complete the statement.', sentence: 'The measure of disorder is called ___.', correctAnswer: 'entropy' };
+
+  it('matches locally before asking the model', async () => {
+    const provider = createFixtureProvider({ mode: 'replay' });
+    const generateJSON = vi.spyOn(provider, 'generateJSON');
+    setAIProvider(provider);
+
+    expect(await gradeBlankAnswer(fill, "entropy's")).toMatchObject({ isCorrect: true, method: 'exact' });
+    expect(generateJSON).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the model, unless turned off in Settings', async () => {
+    expect(await gradeBlankAnswer(fill, 'enthalpy')).toEqual({ isCorrect: false, method: 'none', reason: 'That names a related idea, but not the one this sentence describes.' });
+
+    updateSettings({ judgeBlankAnswers: false });
+    expect((await gradeBlankAnswer(fill, 'enthalpy')).reason).toEqual({ code: 'noMatch' });
+    resetSettings();
+  });
+});
+
+describe('gradeQuizAnswer', () => {
+  const input = { selectedOption: '', textInput: '', matchSelections: {} };
+
+  it('grades choice and match questions locally', async () => {
+    const choose = { type: 'choose' as const, question: { id: 'c1', question: 'Q', options: ['A', 'B'], correctAnswer: 'B' } };
+    expect(await gradeQuizAnswer(choose, { ...input, selectedOption: 'B' })).toEqual({ isCorrect: true, feedback: '' });
+    const match = { type: 'match' as const, question: { id: 'm1', question: 'Q', pairs: [{ left: 'A', right: '1' }, { left: 'B', right: '2' }] } };
+    expect((await gradeQuizAnswer(match, { ...input, matchSelections: { A: '1', B: '1' } })).isCorrect).toBe(false);
+  });
+
+  it('passes on the reason a blank was accepted', async () => {
+    const blank = { type: 'fill-blank' as const, question: { id: 'f1', question: 'Fill', sentence: 'Disorder is ___.', correctAnswer: 'entropy' } };
+    expect(await gradeQuizAnswer(blank, { ...input, textInput: 'Entropy' })).toEqual({ isCorrect: true, feedback: { code: 'exact' } });
+  });
+});
+
+describe('formatGradeReason', () => {
+  it('translates codes and keeps the model\'s words', () => {
+    expect(formatGradeReason({ code: 'numeric', params: { answer: '0.5', tolerance: 1 } })).toBe('Equal to 0.5 (within 1%).');
+    expect(formatGradeReason({ code: 'noAnswer' }, (key, params) => translate('am', key, params))).toBe('ምንም መልስ አልተሰጠም።');
+    expect(formatGradeReason('Close, but that is enthalpy.')).toBe('Close, but that is enthalpy.');
+  });
+});
@@ -0,0 +1,91 @@
+import { BlankGrade, FillBlankQuestion, GradeReason, QuizAnswerInput, QuizItem, RubricPoint, RubricPointStatus, ShortAnswerGrade, ShortAnswerQuestion } from "../types";
+import { assessShortAnswer, judgeBlankAnswer } from "./geminiService";
+import { matchBlankAnswer } from "./answerMatching";
+import { getSettings } from "./settingsService";
+import { MessageKey, Translate, translate } from "./i18n";
+
+/** Share of the rubric an answer needs to count as correct. */
+export const PASS_MARK = 0.75;
+
+const POINT_CREDIT: Record<RubricPointStatus, number> = {
+  covered: 1,
+  partial: 0.5,
+  missing: 0,
+  incorrect: 0,
+};
+
+/** Average credit over the rubric's key points, from 0 to 1. */
+export const scoreRubric = (rubric: RubricPoint[]): number =>
+  rubric.length === 0 ? 0 : rubric.reduce((sum, point) => sum + (POINT_CREDIT[point.status] ?? 0), 0) / rubric.length;
+
+/** Grading feedback in the app language; the model's own words are shown as they are. */
+export const formatGradeReason = (reason: GradeReason, t: Translate = (key, params) => translate('en', key, params)): string =>
+  typeof reason === 'string' ? reason : t(`grading.${reason.code}`, reason.params);
+
+const GAP_LABELS: Record<Exclude<RubricPointStatus, 'covered'>, MessageKey> = {
+  partial: 'grading.gap.partial',
+  incorrect: 'grading.gap.incorrect',
+  missing: 'grading.gap.missing',
+};
+
+/** Key points the answer missed or got wrong, for the mistake note. */
+export const describeGaps = (rubric: RubricPoint[], t: Translate = (key, params) => translate('en', key, params)): string =>
+  rubric
+    .filter(point => point.status !== 'covered')
+    .map(point => t(GAP_LABELS[point.status] ?? 'grading.gap.missing', { point: `${point.point}${point.comment ? ` (${point.comment})` : ''}` }))
+    .join('\n');
+
+/**
+ * Grades a learner's short answer against the question's sample answer. The
+ * model judges each key point; the score is computed here so partial credit
+ * stays consistent across providers.
+ */
+export const gradeShortAnswer = async (question: ShortAnswerQuestion, answer: string): Promise<ShortAnswerGrade> => {
+  if (!answer.trim()) {
+    return { score: 0, isCorrect: false, rubric: [], feedback: { code: 'noAnswer' } };
+  }
+
+  const { keyPoints, feedback } = await assessShortAnswer(question, answer);
+  const rubric = (keyPoints || []).filter(point => point.point && point.status in POINT_CREDIT);
+  const score = scoreRubric(rubric);
+  return { score, isCorrect: score >= PASS_MARK, rubric, feedback: feedback || '' };
+};
+
+/**
+ * Grades a fill-in-the-blank answer locally (see matchBlankAnswer) and, when
+ * nothing matches and Settings allow it, asks the model whether it is still
+ * equivalent. A failed model call keeps the local verdict.
+ */
+export const gradeBlankAnswer = async (question: FillBlankQuestion, answer: string): Promise<BlankGrade> => {
+  const local = matchBlankAnswer(question, answer);
+  if (local.isCorrect || !answer.trim() || !getSettings().judgeBlankAnswers) return local;
+
+  try {
+    const { equivalent, reason } = await judgeBlankAnswer(question, answer);
+    return { isCorrect: !!equivalent, method: equivalent ? 'model' : 'none', reason: reason || local.reason };
+  } catch (error) {
+    console.error("Blank grading error:", error);
+    return local;
+  }
+};
+
+/**
+ * Grades an answer to any question type, for when a question is asked again
+ * outside a quiz. `feedback` is the blank's reason or the rubric feedback.
+ */
+export const gradeQuizAnswer = async (item: QuizItem, input: QuizAnswerInput): Promise<{ isCorrect: boolean; feedback: GradeReason }> => {
+  switch (item.type) {
+    case 'choose':
+      return { isCorrect: input.selectedOption === item.question.correctAnswer, feedback: '' };
+    case 'match':
+      return { isCorrect: item.question.pairs.every(p => input.matchSelections[p.left] === p.right), feedback: '' };
+    case 'fill-blank': {
+      const { isCorrect, reason } = await gradeBlankAnswer(item.question, input.textInput);
+      return { isCorrect, feedback: reason };
+    }
+    case 'answer': {
+      const { isCorrect, feedback } = await gradeShortAnswer(item.question, input.textInput);
+      return { isCorrect, feedback };
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { languageInstruction, translate } from './i18n';
+import { resetSettings, updateSettings } from './settingsService';
+import { setAIProvider } from './aiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { editSimulation, generateExplanation, generateQuiz, generateSimulation, verifyText } from './geminiService';
+import { en } from '../locales/en';
+import { am } from '../locales/am';
+
+describe('i18n', () => {
+  beforeEach(() => {
+    resetSettings();
+  });
+
+  it('translates with placeholders', () => {
+    expect(translate('en', 'attachments.remove', { name: 'notes.pdf' })).toBe('Remove notes.pdf');
+    expect(translate('am', 'attachments.remove', { name: 'notes.pdf' })).toBe('notes.pdf አስወግድ');
+    expect(translate('am', 'tab.learning')).toBe('መማር');
+  });
+
+  it('has an Amharic string for every key', () => {
+    const missing = (Object.keys(en) as (keyof typeof en)[]).filter(key => !am[key]?.trim());
+    expect(missing).toEqual([]);
+  });
+
+  it('asks for answers in the chosen language', () => {
+    expect(languageInstruction()).toBe('');
+    updateSettings({ language: 'am' });
+    expect(languageInstruction()).toContain('Amharic (አማርኛ)');
+  });
+
+  it('adds the language to explanation, quiz, verification, simulation and simulation edit prompts', async () => {
+    const provider = createMockProvider();
+    const generateText = vi.spyOn(provider, 'generateText');
+    const generateJSON = vi.spyOn(provider, 'generateJSON');
+    const searchGrounded = vi.spyOn(provider, 'searchGrounded');
+    setAIProvider(provider);
+    updateSettings({ language: 'am' });
+
+    await generateExplanation('Entropy');
+    await generateSimulation('Entropy');
+    await editSimulation('<canvas></canvas>', 'Add a reset button');
+    await generateQuiz('Entropy');
+    await verifyText('Entropy');
+
+    const prompts = [...generateText.mock.calls, ...generateJSON.mock.calls, ...searchGrounded.mock.calls].map(([prompt]) => prompt as string);
+    expect(prompts).toHaveLength(5);
+    prompts.forEach(prompt => expect(prompt).toContain('LANGUAGE: Write'));
+    expect(prompts[1]).toContain('every label, instruction and message shown in the simulation');
+    expect(prompts[2]).toContain('every label, instruction and message shown in the simulation');
+  });
+});
@@ -0,0 +1,39 @@
+import { en, MessageKey } from "../locales/en";
+import { am } from "../locales/am";
+import { getSettings, TeachLanguage } from "./settingsService";
+
+export type { MessageKey };
+
+export type Language = 'en' | 'am';
+
+export interface LanguageInfo {
+  code: Language;
+  name: string; // In English, as used in prompts
+  nativeName: string;
+  dir: 'ltr' | 'rtl';
+  /** Speech recognition locale Teach mode switches to. */
+  speechLocale: TeachLanguage;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English', dir: 'ltr', speechLocale: 'en-US' },
+  am: { code: 'am', name: 'Amharic', nativeName: 'አማርኛ', dir: 'ltr', speechLocale: 'am-ET' },
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en, am };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/** `key` in `language`, with `{name}` placeholders filled from `params`. */
+export const translate = (language: Language, key: MessageKey, params: Record<string, string | number> = {}): string =>
+  (MESSAGES[language]?.[key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+/**
+ * Prompt line asking for `scope` in the app language; empty for English,
+ * which the prompts are written in.
+ */
+export const languageInstruction = (scope = 'all of your answer, including headings', language: Language = getSettings().language): string => {
+  if (!LANGUAGES[language] || language === 'en') return '';
+  const { name, nativeName } = LANGUAGES[language];
+  return `LANGUAGE: Write ${scope} in ${name} (${nativeName}). Keep formulas, units and symbols as they are, and give well-known technical terms in English in parentheses where it helps.`;
+};
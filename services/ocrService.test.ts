@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createWorker, Page } from 'tesseract.js';
+import { extractImageContent, recognizeImage } from './ocrService';
+import { resetSettings, updateSettings } from './settingsService';
+import { translate } from './i18n';
+
+vi.mock('tesseract.js', () => ({ createWorker: vi.fn() }));
+
+type TesseractWorker = Awaited<ReturnType<typeof createWorker>>;
+
+const fakeWorker = (text: string) => {
+  // Only what recognizeImage calls; the page has just the fields it reads.
+  const worker: Partial<TesseractWorker> = {
+    recognize: vi.fn(async () => ({ jobId: 'j', data: { text, confidence: 91 } as Page })),
+    terminate: vi.fn(async () => ({ jobId: 'j', data: null })),
+  };
+  vi.mocked(createWorker).mockImplementation(async (_langs, _oem, options) => {
+    options?.logger?.({ status: 'recognizing text', progress: 0.5, workerId: 'w', jobId: 'j', userJobId: 'u' });
+    return worker as TesseractWorker;
+  });
+  return worker;
+};
+
+const image = new File(['png bytes'], 'carnot.png', { type: 'image/png' });
+
+describe('recognizeImage', () => {
+  afterEach(() => resetSettings());
+
+  it('reads text with the bundled worker and reports progress', async () => {
+    const worker = fakeWorker('  Efficiency = 1 - Tc/Th \n');
+    const onProgress = vi.fn();
+
+    await expect(recognizeImage(image, onProgress)).resolves.toEqual({ text: 'Efficiency = 1 - Tc/Th', confidence: 91 });
+    expect(createWorker).toHaveBeenCalledWith('eng', undefined, expect.objectContaining({
+      workerPath: expect.stringMatching(/worker\.min\.js$/),
+      corePath: expect.stringMatching(/tesseract-core-simd-lstm\.wasm\.js$/),
+      langPath: 'http://localhost:3000/tessdata',
+    }));
+    expect(onProgress).toHaveBeenCalledWith('Reading text in image... 50%');
+    await recognizeImage(image, onProgress, (key, params) => translate('am', key, params));
+    expect(onProgress).toHaveBeenLastCalledWith('በምስሉ ውስጥ ያለውን ጽሑፍ በማንበብ ላይ... 50%');
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  it('adds Amharic when the content language is Amharic', async () => {
+    fakeWorker('ሙቀት');
+    updateSettings({ language: 'am' });
+    await recognizeImage(image);
+    expect(createWorker).toHaveBeenCalledWith('eng+amh', undefined, expect.anything());
+  });
+});
+
+describe('extractImageContent', () => {
+  beforeEach(() => vi.spyOn(console, 'error').mockImplementation(() => {}));
+  afterEach(() => {
+    resetSettings();
+    vi.restoreAllMocks();
+  });
+
+  it('combines the text in the image with a description', async () => {
+    fakeWorker('Hot reservoir\nCold reservoir');
+    const content = await extractImageContent(image);
+    expect(content).toMatch(/^\[Image: carnot\.png\]\n\n## Text in the image\nHot reservoir\nCold reservoir\n\n## Description\nA labelled diagram of a heat engine/);
+  });
+
+  it('skips the description when it is turned off', async () => {
+    fakeWorker('Hot reservoir');
+    updateSettings({ describeImages: false });
+    expect(await extractImageContent(image)).toBe('[Image: carnot.png]\n\n## Text in the image\nHot reservoir');
+  });
+
+  it('keeps the description when OCR fails, and fails when both do', async () => {
+    vi.mocked(createWorker).mockRejectedValue(new Error('no wasm'));
+    expect(await extractImageContent(image)).toContain('## Description\nA labelled diagram');
+
+    updateSettings({ describeImages: false });
+    await expect(extractImageContent(image)).rejects.toThrow('no wasm');
+  });
+});
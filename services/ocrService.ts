@@ -0,0 +1,80 @@
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import { describeImage } from "./geminiService";
+import { getSettings } from "./settingsService";
+import { readFileAsDataUrl } from "./sourceUtils";
+import { Language, Translate, translate } from "./i18n";
+import { TESSDATA_PATH } from "./tessdata";
+
+export type OcrProgress = (status: string) => void;
+
+export interface OcrResult {
+  text: string;
+  /** Mean word confidence, 0-100. */
+  confidence: number;
+}
+
+// Tesseract language codes for each content language. English is always
+// included since course material mixes in English terms.
+const OCR_LANGUAGES: Record<Language, string> = {
+  en: 'eng',
+  am: 'eng+amh',
+};
+
+// tesseract.js loads its worker through importScripts from a blob, so the
+// bundled asset paths must be absolute.
+const absolute = (url: string) => new URL(url, location.href).href;
+
+/**
+ * Reads the text in an image with tesseract.js. The worker, WebAssembly core
+ * and language data are all bundled with the app, so OCR works offline.
+ */
+export const recognizeImage = async (image: Blob, onProgress?: OcrProgress, t: Translate = (key, params) => translate('en', key, params)): Promise<OcrResult> => {
+  const { createWorker } = await import('tesseract.js');
+  const languages = OCR_LANGUAGES[getSettings().language] || 'eng';
+  let worker: Awaited<ReturnType<typeof createWorker>> | null = null;
+
+  try {
+    worker = await createWorker(languages, undefined, {
+      workerPath: absolute(workerUrl),
+      corePath: absolute(coreUrl),
+      langPath: absolute(TESSDATA_PATH),
+      logger: ({ status, progress }) => {
+        if (status === 'loading language traineddata') onProgress?.(t('sources.ocrLoading'));
+        if (status === 'recognizing text') onProgress?.(t('sources.ocrReading', { percent: Math.round(progress * 100) }));
+      },
+    });
+    const { data } = await worker.recognize(image);
+    return { text: data.text.trim(), confidence: data.confidence };
+  } catch (error) {
+    console.error("OCR error:", error);
+    throw error;
+  } finally {
+    await worker?.terminate();
+  }
+};
+
+/**
+ * Source text for an uploaded image: the text OCR finds in it plus, when
+ * enabled in Settings, the model's description of what it shows. Fails only
+ * if neither produced anything.
+ */
+export const extractImageContent = async (image: File, onProgress?: OcrProgress, t?: Translate): Promise<string> => {
+  const [ocr, description] = await Promise.allSettled([
+    recognizeImage(image, onProgress, t),
+    getSettings().describeImages ? readFileAsDataUrl(image).then(describeImage) : Promise.resolve(''),
+  ]);
+
+  const text = ocr.status === 'fulfilled' ? ocr.value.text : '';
+  const summary = description.status === 'fulfilled' ? description.value.trim() : '';
+  if (!text && !summary) {
+    if (ocr.status === 'rejected') throw ocr.reason;
+    if (description.status === 'rejected') throw description.reason;
+  }
+
+  return [
+    `[Image: ${image.name}]`,
+    text && `## Text in the image\n${text}`,
+    summary && `## Description\n${summary}`,
+  ].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildPdfExtraction, extractPdf, PdfPage, PdfTextSource, PdfWorkerMessage, readPdfPages } from './pdfUtils';
+
+interface FakeItem {
+  str: string;
+  height?: number;
+  y?: number;
+  eol?: boolean;
+}
+
+const fakePdf = (pages: FakeItem[][]): PdfTextSource => ({
+  numPages: pages.length,
+  getPage: async (n: number) => ({
+    getTextContent: async () => ({
+      items: pages[n - 1].map(({ str, height = 10, y = 0, eol = false }) => ({ str, height, transform: [1, 0, 0, 1, 0, y], hasEOL: eol })),
+    }),
+    cleanup: () => {},
+  }),
+});
+
+const page = (pageNumber: number, lines: [string, number][]): PdfPage => ({
+  pageNumber,
+  lines: lines.map(([text, size]) => ({ text, size })),
+});
+
+const pdfFile = () => new File(['%PDF-1.4'], 'chapter.pdf', { type: 'application/pdf' });
+
+describe('readPdfPages', () => {
+  it('groups text runs into lines and reports progress for every page', async () => {
+    const onProgress = vi.fn();
+    const pages = await readPdfPages(fakePdf([
+      [{ str: 'Heat', height: 18 }, { str: 'Transfer', height: 18, eol: true }, { str: 'Heat flows', y: -20 }, { str: 'downhill.', y: -20 }, { str: 'New line', y: -40 }],
+      [{ str: '' }, { str: 'Entropy' }],
+    ]), onProgress);
+
+    expect(pages).toEqual([
+      page(1, [['Heat Transfer', 18], ['Heat flows downhill.', 10], ['New line', 10]]),
+      page(2, [['Entropy', 10]]),
+    ]);
+    expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2]]);
+  });
+});
+
+describe('buildPdfExtraction', () => {
+  it('keeps every page with page markers and marks larger lines as headings', () => {
+    const pages = Array.from({ length: 12 }, (_, i) => page(i + 1, [[`Chapter ${i + 1}`, 16], [`Body text of page ${i + 1}.`, 10]]));
+    const { text, numPages } = buildPdfExtraction(pages);
+
+    expect(numPages).toBe(12);
+    expect(text).toContain('--- Page 1 ---\n## Chapter 1\nBody text of page 1.\n\n');
+    expect(text).toContain('--- Page 12 ---\n## Chapter 12\nBody text of page 12.\n\n');
+    expect(text).not.toContain('Truncated');
+  });
+
+  it('splits long documents into bounded chunks that track headings and pages', () => {
+    const sentence = 'Energy is conserved in every process we study. ';
+    const pages = [
+      page(1, [['Thermodynamics', 20], ['First Law', 14], [sentence.repeat(3), 10]]),
+      page(2, [[sentence.repeat(3), 10], ['Second Law', 14], [sentence.repeat(2), 10]]),
+      page(3, [[sentence.repeat(20), 10]]),
+    ];
+    const { chunks } = buildPdfExtraction(pages, 400);
+
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i);
+      expect(chunk.text.length).toBeLessThanOrEqual(400);
+    });
+    expect(chunks[0]).toMatchObject({ heading: 'Thermodynamics', pageStart: 1, pageEnd: 2 });
+    expect(chunks[0].text.startsWith('## Thermodynamics\n## First Law\n')).toBe(true);
+    expect(chunks[1]).toMatchObject({ heading: 'Second Law', pageStart: 2 });
+    expect(chunks[1].text.startsWith('## Second Law')).toBe(true);
+    expect(chunks[chunks.length - 1]).toMatchObject({ heading: 'Second Law', pageEnd: 3 });
+    // Nothing is lost between chunks.
+    const words = (text: string) => text.replace(/## /g, '').split(/\s+/).filter(Boolean);
+    expect(words(chunks.map(c => c.text).join(' '))).toEqual(words(pages.flatMap(p => p.lines.map(l => l.text)).join(' ')));
+  });
+});
+
+describe('extractPdf', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubWorker = (replies: PdfWorkerMessage[]) => {
+    const terminate = vi.fn();
+    vi.stubGlobal('Worker', class {
+      onmessage: ((event: { data: PdfWorkerMessage }) => void) | null = null;
+      onerror = null;
+      terminate = terminate;
+      postMessage() {
+        replies.forEach(data => setTimeout(() => this.onmessage?.({ data })));
+      }
+    });
+    return terminate;
+  };
+
+  it('runs in a worker, forwards progress and chunks the result', async () => {
+    const terminate = stubWorker([
+      { type: 'progress', pagesRead: 1, numPages: 2 },
+      { type: 'progress', pagesRead: 2, numPages: 2 },
+      { type: 'done', pages: [page(1, [['Heat flows', 10]]), page(2, [['Entropy', 10]])] },
+    ]);
+    const onProgress = vi.fn();
+    const result = await extractPdf(pdfFile(), onProgress);
+
+    expect(result.text).toBe('--- Page 1 ---\nHeat flows\n\n--- Page 2 ---\nEntropy\n\n');
+    expect(result.chunks).toEqual([{ index: 0, text: 'Heat flows\nEntropy', heading: undefined, pageStart: 1, pageEnd: 2 }]);
+    expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2]]);
+    expect(terminate).toHaveBeenCalled();
+  });
+
+  it('wraps parser failures in a friendly error', async () => {
+    stubWorker([{ type: 'error', error: 'bad xref' }]);
+    await expect(extractPdf(pdfFile())).rejects.toThrow('Failed to extract text from PDF');
+  });
+});
@@ -1,34 +1,152 @@
-// Declare global variable for the PDF.js library loaded via CDN
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { SourceChunk } from '../types';
+import { CHUNK_CHARS, ChunkLine, chunkLines } from './chunking';
+
+export interface PdfLine {
+  text: string;
+  size: number; // Tallest glyph height on the line
 }
 
-export const extractTextFromPdf = async (file: File): Promise<string> => {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    // Using the global pdfjsLib loaded in index.html
-    const loadingTask = window.pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
-    
-    let fullText = '';
-    
-    // Limit to first 10 pages to avoid massive processing on client side for this demo
-    const maxPages = Math.min(pdf.numPages, 10);
-    
-    for (let i = 1; i <= maxPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items.map((item: any) => item.str).join(' ');
-      fullText += `--- Page ${i} ---\n${pageText}\n\n`;
+export interface PdfPage {
+  pageNumber: number;
+  lines: PdfLine[];
+}
+
+export interface PdfExtraction {
+  text: string;
+  chunks: SourceChunk[];
+  numPages: number;
+}
+
+export type PdfProgress = (pagesRead: number, numPages: number) => void;
+
+/** The part of a pdf.js document that text extraction reads. */
+export interface PdfTextSource {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<{
+    getTextContent: () => Promise<{ items: unknown[] }>;
+    cleanup: () => void;
+  }>;
+}
+
+/** Messages posted back by pdfWorker.ts. */
+export type PdfWorkerMessage =
+  | { type: 'progress'; pagesRead: number; numPages: number }
+  | { type: 'done'; pages: PdfPage[] }
+  | { type: 'error'; error: string };
+
+// Lines set this much larger than the body text are treated as headings.
+const HEADING_SCALE = 1.2;
+const MAX_HEADING_LENGTH = 120;
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/** Reads the text of every page, grouping pdf.js text runs into lines. */
+export const readPdfPages = async (pdf: PdfTextSource, onProgress?: PdfProgress): Promise<PdfPage[]> => {
+  const pages: PdfPage[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const { items } = await page.getTextContent();
+    const lines: PdfLine[] = [];
+    let text = '';
+    let size = 0;
+    let lastY: number | null = null;
+
+    const endLine = () => {
+      const line = normalizeSpace(text);
+      if (line) lines.push({ text: line, size });
+      text = '';
+      size = 0;
+    };
+
+    for (const item of items as TextItem[]) {
+      if (typeof item.str !== 'string') continue; // marked-content markers
+      const y = item.transform?.[5];
+      // A jump in baseline without an explicit EOL still starts a new line.
+      if (text && lastY !== null && y !== undefined && Math.abs(y - lastY) > Math.max(item.height || 0, 1) / 2) endLine();
+      text += ` ${item.str}`;
+      if (item.str.trim()) size = Math.max(size, item.height || 0);
+      if (y !== undefined) lastY = y;
+      if (item.hasEOL) endLine();
     }
+    endLine();
+
+    pages.push({ pageNumber, lines });
+    page.cleanup();
+    onProgress?.(pageNumber, pdf.numPages);
+  }
 
-    if (pdf.numPages > 10) {
-      fullText += `\n... (Truncated after 10 pages)`;
+  return pages;
+};
+
+// The glyph height covering the most characters is the body text size.
+const bodyTextSize = (pages: PdfPage[]) => {
+  const tally = new Map<number, number>();
+  pages.forEach(page => page.lines.forEach(line => {
+    const size = Math.round(line.size * 2) / 2;
+    tally.set(size, (tally.get(size) || 0) + line.text.length);
+  }));
+  let body = 0;
+  let most = 0;
+  tally.forEach((chars, size) => {
+    if (chars > most) {
+      body = size;
+      most = chars;
     }
-    
-    return fullText;
+  });
+  return body;
+};
+
+/**
+ * Formats extracted pages as text with `--- Page N ---` markers and `##`
+ * headings, and chunks the same lines for retrieval.
+ */
+export const buildPdfExtraction = (pages: PdfPage[], maxChunkChars = CHUNK_CHARS): PdfExtraction => {
+  const body = bodyTextSize(pages);
+  const isHeading = (line: PdfLine) =>
+    body > 0 && line.size >= body * HEADING_SCALE && line.text.length <= MAX_HEADING_LENGTH;
+
+  const lines: ChunkLine[] = [];
+  const text = pages.map(page => {
+    const formatted = page.lines.map(line => {
+      const heading = isHeading(line);
+      const output = heading ? `## ${line.text}` : line.text;
+      lines.push({ text: output, heading, page: page.pageNumber });
+      return output;
+    });
+    return `--- Page ${page.pageNumber} ---\n${formatted.join('\n')}\n\n`;
+  }).join('');
+
+  return { text, chunks: chunkLines(lines, maxChunkChars), numPages: pages.length };
+};
+
+/**
+ * Extracts every page of a PDF in a Web Worker (see pdfWorker.ts), reporting
+ * progress per page, so large textbooks don't freeze the UI.
+ */
+export const extractPdf = async (file: File, onProgress?: PdfProgress): Promise<PdfExtraction> => {
+  try {
+    const data = await file.arrayBuffer();
+    const pages = await new Promise<PdfPage[]>((resolve, reject) => {
+      const worker = new Worker(new URL('./pdfWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<PdfWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.(message.pagesRead, message.numPages);
+          return;
+        }
+        worker.terminate();
+        if (message.type === 'done') resolve(message.pages);
+        else reject(new Error(message.error));
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        worker.terminate();
+        reject(new Error(event.message || 'PDF worker failed'));
+      };
+      worker.postMessage(data, [data]);
+    });
+    return buildPdfExtraction(pages);
   } catch (error) {
     console.error("Error extracting PDF text:", error);
     throw new Error("Failed to extract text from PDF. Please try a simpler file.");
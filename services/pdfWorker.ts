@@ -0,0 +1,18 @@
+// Importing the bundled pdf.js worker module registers `globalThis.pdfjsWorker`,
+// so pdf.js parses right here instead of spawning (or fetching) a worker of its own.
+import 'pdfjs-dist/build/pdf.worker.mjs';
+import { getDocument } from 'pdfjs-dist';
+import { readPdfPages, PdfWorkerMessage } from './pdfUtils';
+
+const post = (message: PdfWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ArrayBuffer>) => {
+  try {
+    const pdf = await getDocument({ data: new Uint8Array(event.data) }).promise;
+    const pages = await readPdfPages(pdf, (pagesRead, numPages) => post({ type: 'progress', pagesRead, numPages }));
+    await pdf.destroy();
+    post({ type: 'done', pages });
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,144 @@
+import bundledFixtures from "../../fixtures/ai-fixtures.json";
+import { AIProvider, AITask, ChatOptions, ContentPart, JsonSchema, PromptInput, TextOptions } from "./types";
+import { createMockProvider, hashPrompt, streamChunks } from "./mockProvider";
+
+export type FixtureMode = 'replay' | 'record';
+
+export interface FixtureFile {
+  version: number;
+  /** Canned response per task, used when no recording matches the prompt. */
+  defaults: Partial<Record<AITask, unknown>>;
+  /** Recorded responses keyed by `<task or method>:<prompt hash>`. */
+  recordings: Record<string, unknown>;
+}
+
+export const RECORD_ENDPOINT = '/__ai-fixtures';
+
+export const fixtureKey = (kind: string, input: PromptInput | object) => `${kind}:${hashPrompt(input)}`;
+
+const chatKey = (options: ChatOptions, history: ContentPart[][]) =>
+  fixtureKey(options.task || 'chat', { system: options.systemInstruction, history });
+
+export interface FixtureProviderConfig {
+  mode: FixtureMode;
+  /** Real provider whose responses are captured in record mode. */
+  upstream?: AIProvider;
+  fixtures?: FixtureFile;
+  /** Called with each new recording; defaults to POSTing to the dev server. */
+  onRecord?: (key: string, value: unknown) => void;
+}
+
+const postRecording = (key: string, value: unknown) => {
+  fetch(RECORD_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ key, value }),
+  }).catch(error => console.error("Fixture record error:", error));
+};
+
+/**
+ * Record/replay provider. In replay mode every call is answered from recorded
+ * fixtures (matched by prompt hash), then the task's canned default, then the
+ * synthetic mock, so it never touches the network. In record mode calls go to
+ * the upstream provider and each response is saved as a new recording.
+ */
+export const createFixtureProvider = (config: FixtureProviderConfig): AIProvider => {
+  const fixtures = config.fixtures || (bundledFixtures as FixtureFile);
+  const recordings = { ...fixtures.recordings };
+  const synthetic = createMockProvider();
+  const upstream = config.upstream;
+  const onRecord = config.onRecord || postRecording;
+
+  if (config.mode === 'record' && !upstream) {
+    throw new Error("Fixture record mode needs an upstream provider");
+  }
+
+  const lookup = <T>(key: string, task: AITask | undefined): T | undefined => {
+    if (key in recordings) return recordings[key] as T;
+    if (task && task in fixtures.defaults) return fixtures.defaults[task] as T;
+    return undefined;
+  };
+
+  const run = async <T>(key: string, task: AITask | undefined, live: () => Promise<T>, fallback: () => Promise<T>): Promise<T> => {
+    if (config.mode === 'record') {
+      const value = await live();
+      recordings[key] = value;
+      onRecord(key, value);
+      return value;
+    }
+    const replayed = lookup<T>(key, task);
+    return replayed !== undefined ? replayed : fallback();
+  };
+
+  return {
+    id: `fixtures-${config.mode}`,
+
+    generateText: (prompt, options) =>
+      run(fixtureKey(options?.task || 'text', prompt), options?.task,
+        () => upstream!.generateText(prompt, options),
+        () => synthetic.generateText(prompt, options)),
+
+    // Shares keys with generateText, so either kind of recording replays for both.
+    streamText: async function* (prompt, options) {
+      const key = fixtureKey(options?.task || 'text', prompt);
+      if (config.mode === 'record') {
+        let text = '';
+        for await (const chunk of upstream!.streamText(prompt, options)) {
+          text += chunk;
+          yield chunk;
+        }
+        recordings[key] = text;
+        onRecord(key, text);
+        return;
+      }
+      const replayed = lookup<string>(key, options?.task);
+      if (replayed !== undefined) yield* streamChunks(replayed, options?.signal);
+      else yield* synthetic.streamText(prompt, options);
+    },
+
+    generateJSON: <T>(prompt: PromptInput, schema: JsonSchema, options?: TextOptions) =>
+      run<T>(fixtureKey(options?.task || 'json', { prompt, schema }), options?.task,
+        () => upstream!.generateJSON<T>(prompt, schema, options),
+        () => synthetic.generateJSON<T>(prompt, schema, options)),
+
+    // Images and audio have no canned defaults; only exact recordings replay.
+    generateImage: (prompt, options) =>
+      run(fixtureKey(options?.task || 'image', prompt), undefined,
+        () => upstream!.generateImage(prompt, options),
+        () => synthetic.generateImage(prompt, options)),
+
+    generateSpeech: (text, voiceName, options) =>
+      run(fixtureKey(options?.task || 'speech', { text, voiceName }), undefined,
+        () => upstream!.generateSpeech(text, voiceName, options),
+        () => synthetic.generateSpeech(text, voiceName, options)),
+
+    createChat: (options) => {
+      const history: ContentPart[][] = [];
+      const liveChat = config.mode === 'record' ? upstream!.createChat(options) : null;
+      const syntheticChat = synthetic.createChat(options);
+
+      return {
+        sendMessage: async (parts) => {
+          const turn = history.length / 2; // history alternates user/reply
+          history.push(parts);
+          const key = chatKey(options, history);
+          const reply = await run<string>(key, undefined,
+            () => liveChat!.sendMessage(parts),
+            async () => {
+              // Canned chat defaults are a list of replies, used in turn order.
+              const scripted = options.task ? fixtures.defaults[options.task] : undefined;
+              if (Array.isArray(scripted) && scripted.length > 0) return String(scripted[turn % scripted.length]);
+              return syntheticChat.sendMessage(parts);
+            });
+          history.push([{ text: reply }]);
+          return reply;
+        },
+      };
+    },
+
+    searchGrounded: (prompt, options) =>
+      run(fixtureKey(options?.task || 'search', prompt), options?.task,
+        () => upstream!.searchGrounded(prompt, options),
+        () => synthetic.searchGrounded(prompt, options)),
+  };
+};
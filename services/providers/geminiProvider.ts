@@ -0,0 +1,152 @@
+import { GoogleGenAI, Modality, Schema, Type } from "@google/genai";
+import { GroundingSource } from "../../types";
+import { GEMINI_FLASH_MODEL, GEMINI_PRO_MODEL, GEMINI_IMAGE_MODEL, GEMINI_TTS_MODEL, GEMINI_EMBEDDING_MODEL, SEARCH_TOOL_MODEL } from "../../constants";
+import { AIProvider, JsonSchema, TextOptions, toParts, toDataUrl } from "./types";
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+const resolveModel = (options?: TextOptions) =>
+  options?.model || (options?.tier === 'reasoning' ? GEMINI_PRO_MODEL : GEMINI_FLASH_MODEL);
+
+/**
+ * Google Gemini adapter over the @google/genai SDK.
+ */
+export const createGeminiProvider = (apiKey?: string): AIProvider => {
+  // Created per call so a key rotated at runtime is picked up immediately.
+  const getAI = () => new GoogleGenAI({ apiKey: apiKey || process.env.API_KEY });
+
+  const textConfig = (options?: TextOptions) => ({
+    systemInstruction: options?.systemInstruction,
+    thinkingConfig: options?.thinkingBudget !== undefined ? { thinkingBudget: options.thinkingBudget } : undefined,
+    abortSignal: options?.signal,
+  });
+
+  return {
+    id: 'gemini',
+
+    generateText: async (prompt, options) => {
+      const response = await getAI().models.generateContent({
+        model: resolveModel(options),
+        contents: typeof prompt === 'string' ? prompt : { parts: prompt },
+        config: textConfig(options),
+      });
+      return response.text || "";
+    },
+
+    streamText: async function* (prompt, options) {
+      const stream = await getAI().models.generateContentStream({
+        model: resolveModel(options),
+        contents: typeof prompt === 'string' ? prompt : { parts: prompt },
+        config: textConfig(options),
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    generateJSON: async (prompt, schema, options) => {
+      const response = await getAI().models.generateContent({
+        model: resolveModel(options),
+        contents: typeof prompt === 'string' ? prompt : { parts: prompt },
+        config: {
+          ...textConfig(options),
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+        },
+      });
+      return JSON.parse(response.text || "{}");
+    },
+
+    generateImage: async (prompt, options) => {
+      const response = await getAI().models.generateContent({
+        model: options?.model || GEMINI_IMAGE_MODEL,
+        contents: { parts: toParts(prompt) },
+        config: options?.aspectRatio ? { imageConfig: { aspectRatio: options.aspectRatio } } : undefined,
+      });
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+          return toDataUrl(part.inlineData.mimeType || 'image/png', part.inlineData.data);
+        }
+      }
+      throw new Error("No image generated");
+    },
+
+    generateSpeech: async (text, voiceName, options) => {
+      const response = await getAI().models.generateContent({
+        model: options?.model || GEMINI_TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName },
+            },
+          },
+        },
+      });
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) throw new Error("No audio data returned");
+      return base64Audio;
+    },
+
+    createChat: (options) => {
+      const chat = getAI().chats.create({
+        model: resolveModel(options),
+        config: textConfig(options),
+      });
+      return {
+        sendMessage: async (parts) => {
+          const response = await chat.sendMessage({ message: parts });
+          return response.text || "";
+        },
+      };
+    },
+
+    searchGrounded: async (prompt, options) => {
+      const response = await getAI().models.generateContent({
+        model: options?.model || SEARCH_TOOL_MODEL,
+        contents: prompt,
+        config: {
+          ...textConfig(options),
+          tools: [{ googleSearch: {} }],
+        },
+      });
+
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const sources: GroundingSource[] = chunks
+        .map(chunk => chunk.web)
+        .filter(web => web && web.uri && web.title)
+        .map(web => ({ uri: web!.uri!, title: web!.title! }));
+
+      return { text: response.text || "", sources };
+    },
+
+    embed: async (texts, options) => {
+      const response = await getAI().models.embedContent({
+        model: options?.model || GEMINI_EMBEDDING_MODEL,
+        contents: texts,
+      });
+      return (response.embeddings || []).map(embedding => embedding.values || []);
+    },
+  };
+};
@@ -0,0 +1,121 @@
+import { AIProvider, JsonSchema, PromptInput, toParts } from "./types";
+
+/**
+ * FNV-1a hash of the prompt, as 8 hex chars. Stable across runs and browsers,
+ * so mock output for a given prompt never changes.
+ */
+export const hashPrompt = (input: PromptInput | object): string => {
+  const text = typeof input === 'string' ? input : JSON.stringify(input);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const promptText = (prompt: PromptInput) =>
+  toParts(prompt).map(part => part.text).filter(Boolean).join('\n');
+
+const mockValue = (schema: JsonSchema, key: string, seed: string): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([prop, value]) => [prop, mockValue(value, prop, seed)])
+      );
+    case 'array':
+      return [1, 2, 3].map(i => mockValue(schema.items || { type: 'string' }, `${key} ${i}`, seed));
+    case 'number':
+    case 'integer':
+      return parseInt(seed.slice(0, 2), 16) % 10;
+    case 'boolean':
+      return parseInt(seed.slice(0, 1), 16) % 2 === 0;
+    default:
+      return schema.enum?.[0] ?? (key === 'id' ? `mock-${seed}` : `Mock ${key}`);
+  }
+};
+
+const mockMarkdown = (seed: string) => `# Executive Summary
+This is a mock explanation (fixture ${seed}) generated offline without calling a model.
+
+## Key Concepts
+- **Concept A**: A placeholder idea used for layout and flow testing.
+- **Concept B**: Another placeholder idea.
+
+## Detailed Analysis
+Mock providers return deterministic text so the same input always renders the same output.
+
+## Conclusion
+Switch to a real provider to get genuine explanations.`;
+
+const mockHtml = (seed: string) => `<!DOCTYPE html>
+<html><body style="font-family:sans-serif;display:flex;align-items:center;justify-content:center;height:100vh;margin:0">
+<button id="b" onclick="this.textContent = 'Clicked ' + (++window.n || (window.n = 1)) + 'x'">Mock simulation ${seed}</button>
+</body></html>`;
+
+const mockImage = (seed: string) => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600"><rect width="100%" height="100%" fill="#${seed.slice(0, 6)}"/><text x="50%" y="50%" font-family="sans-serif" font-size="32" fill="#fff" text-anchor="middle">Mock visual ${seed}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// 0.25s of silence at 24kHz, 16-bit mono.
+const SILENT_PCM_BASE64 = btoa('\0'.repeat(24000 / 4 * 2));
+
+/**
+ * Replays `text` in small chunks, like a real streaming response.
+ */
+export async function* streamChunks(text: string, signal?: AbortSignal, chunkSize = 24, delayMs = 15): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += chunkSize) {
+    if (signal?.aborted) return;
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+    yield text.slice(i, i + chunkSize);
+  }
+}
+
+/**
+ * Deterministic offline provider. Output depends only on the prompt, making it
+ * suitable for UI development without an API key and for automated tests.
+ */
+export const createMockProvider = (): AIProvider => {
+  const generateText = async (prompt: PromptInput) => {
+    const text = promptText(prompt);
+    const seed = hashPrompt(text);
+    return /\bHTML\b/.test(text) ? mockHtml(seed) : mockMarkdown(seed);
+  };
+
+  return {
+    id: 'mock',
+
+    generateText,
+
+    streamText: async function* (prompt, options) {
+      yield* streamChunks(await generateText(prompt), options?.signal);
+    },
+
+    generateJSON: async <T>(prompt: PromptInput, schema: JsonSchema) =>
+      mockValue(schema, 'root', hashPrompt(promptText(prompt))) as T,
+
+    generateImage: async (prompt) => mockImage(hashPrompt(promptText(prompt))),
+
+    generateSpeech: async () => SILENT_PCM_BASE64,
+
+    createChat: (options) => {
+      let turn = 0;
+      return {
+        sendMessage: async (parts) => {
+          turn++;
+          const said = promptText(parts).slice(0, 60);
+          return `Mock reply ${turn} (${hashPrompt(options.systemInstruction + said)}): could you give an example of "${said}"?`;
+        },
+      };
+    },
+
+    searchGrounded: async (prompt) => {
+      const seed = hashPrompt(prompt);
+      return {
+        text: `Mock verification (${seed}): the claims could not be checked offline.`,
+        sources: [{ uri: `https://example.com/mock/${seed}`, title: `Mock source ${seed}` }],
+      };
+    },
+  };
+};
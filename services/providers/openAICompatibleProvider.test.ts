@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+
+const provider = createOpenAICompatibleProvider({
+  baseUrl: 'http://localhost:11434/v1/',
+  apiKey: 'sk-test',
+  models: { fast: 'fast-model', reasoning: 'reasoning-model', image: 'image-model' },
+});
+
+const stubImageResponse = () => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify({ data: [{ b64_json: 'aW1n' }] })));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('openAICompatibleProvider.generateImage', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('generates from a text prompt', async () => {
+    const fetchMock = stubImageResponse();
+    await expect(provider.generateImage('A heat engine')).resolves.toBe('data:image/png;base64,aW1n');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/images/generations');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'image-model', prompt: 'A heat engine', response_format: 'b64_json' });
+  });
+
+  it('sends an image in the prompt to the edits endpoint', async () => {
+    const fetchMock = stubImageResponse();
+    await provider.generateImage([{ inlineData: { mimeType: 'image/png', data: btoa('png bytes') } }, { text: 'Make the background blue' }]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/images/edits');
+    expect(init.headers).toEqual({ Authorization: 'Bearer sk-test' });
+    const form = init.body as FormData;
+    expect(form.get('prompt')).toBe('Make the background blue');
+    expect(form.get('model')).toBe('image-model');
+    const image = form.get('image') as File;
+    expect(image.type).toBe('image/png');
+    expect(await image.text()).toBe('png bytes');
+  });
+});
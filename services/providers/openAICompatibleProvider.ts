@@ -0,0 +1,212 @@
+import { AIProvider, ContentPart, PromptInput, TextOptions, toParts, toDataUrl } from "./types";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. "http://localhost:11434/v1" for Ollama
+  apiKey?: string;
+  models: {
+    fast: string;
+    reasoning: string;
+    image?: string;
+    speech?: string;
+    embedding?: string;
+  };
+}
+
+type ChatRole = 'system' | 'user' | 'assistant';
+type ChatContent = string | (
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: 'wav' | 'mp3' } }
+)[];
+
+// Audio formats accepted as chat input.
+const AUDIO_FORMATS: Record<string, 'wav' | 'mp3'> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+};
+
+interface ChatCompletionMessage {
+  role: ChatRole;
+  content: ChatContent;
+}
+
+const toChatContent = (parts: ContentPart[]): ChatContent => {
+  if (parts.every(part => part.text !== undefined)) {
+    return parts.map(part => part.text).join('\n');
+  }
+  return parts.map(part => {
+    if (part.inlineData) {
+      const { mimeType, data } = part.inlineData;
+      if (AUDIO_FORMATS[mimeType]) {
+        return { type: 'input_audio' as const, input_audio: { data, format: AUDIO_FORMATS[mimeType] } };
+      }
+      if (!mimeType.startsWith('image/')) {
+        throw new Error(`This provider does not support ${mimeType} input`);
+      }
+      return { type: 'image_url' as const, image_url: { url: toDataUrl(mimeType, data) } };
+    }
+    return { type: 'text' as const, text: part.text || '' };
+  });
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const base64ToBlob = (data: string, mimeType: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Adapter for any server speaking the OpenAI REST dialect (OpenAI, Ollama,
+ * LM Studio, vLLM, ...). Grounded search has no portable equivalent, so it
+ * degrades to a plain completion without sources.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  // JSON, or multipart when given FormData (fetch then sets the boundary itself).
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: isForm ? body : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Provider request to ${path} failed: ${response.status} ${await response.text()}`);
+    }
+    return response;
+  };
+
+  const resolveModel = (options?: TextOptions) =>
+    options?.model || (options?.tier === 'reasoning' ? config.models.reasoning : config.models.fast);
+
+  const complete = async (messages: ChatCompletionMessage[], options?: TextOptions, extra: object = {}): Promise<string> => {
+    const response = await post('/chat/completions', {
+      model: resolveModel(options),
+      messages,
+      ...extra,
+    }, options?.signal);
+    const json = await response.json();
+    return json.choices?.[0]?.message?.content || "";
+  };
+
+  const buildMessages = (prompt: PromptInput, systemInstruction?: string): ChatCompletionMessage[] => [
+    ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+    { role: 'user', content: toChatContent(toParts(prompt)) },
+  ];
+
+  return {
+    id: 'openai-compatible',
+    audioInputFormats: AUDIO_FORMATS,
+
+    generateText: (prompt, options) => complete(buildMessages(prompt, options?.systemInstruction), options),
+
+    streamText: async function* (prompt, options) {
+      const response = await post('/chat/completions', {
+        model: resolveModel(options),
+        messages: buildMessages(prompt, options?.systemInstruction),
+        stream: true,
+      }, options?.signal);
+      if (!response.body) throw new Error("Provider returned no stream");
+
+      // Server-sent events: one `data: {json}` line per delta, ending with `data: [DONE]`.
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+
+    generateJSON: async (prompt, schema, options) => {
+      const schemaInstruction = `Respond ONLY with a JSON value matching this JSON Schema:\n${JSON.stringify(schema)}`;
+      const system = [options?.systemInstruction, schemaInstruction].filter(Boolean).join('\n\n');
+      const text = await complete(buildMessages(prompt, system), options, { response_format: { type: 'json_object' } });
+      return JSON.parse(text.replace(/^```(?:json)?\s*|```\s*$/g, '') || "{}");
+    },
+
+    generateImage: async (prompt, options) => {
+      const parts = toParts(prompt);
+      const text = parts.map(part => part.text).filter(Boolean).join('\n');
+      const model = options?.model || config.models.image;
+      // An image in the prompt is one to edit, which goes to the multipart edits endpoint.
+      const source = parts.find(part => part.inlineData)?.inlineData;
+      let response: Response;
+      if (source) {
+        const form = new FormData();
+        if (model) form.append('model', model);
+        form.append('image', base64ToBlob(source.data, source.mimeType), `image.${source.mimeType.split('/')[1] || 'png'}`);
+        form.append('prompt', text);
+        form.append('response_format', 'b64_json');
+        response = await post('/images/edits', form);
+      } else {
+        response = await post('/images/generations', { model, prompt: text, response_format: 'b64_json' });
+      }
+      const json = await response.json();
+      const data = json.data?.[0]?.b64_json;
+      if (!data) throw new Error("No image generated");
+      return toDataUrl('image/png', data);
+    },
+
+    generateSpeech: async (text, voiceName, options) => {
+      // 'pcm' is raw 24kHz 16-bit mono, the same format the Gemini TTS model returns.
+      const response = await post('/audio/speech', {
+        model: options?.model || config.models.speech,
+        input: text,
+        voice: voiceName.toLowerCase(),
+        response_format: 'pcm',
+      });
+      return arrayBufferToBase64(await response.arrayBuffer());
+    },
+
+    createChat: (options) => {
+      const history: ChatCompletionMessage[] = [{ role: 'system', content: options.systemInstruction }];
+      return {
+        sendMessage: async (parts) => {
+          const userMessage: ChatCompletionMessage = { role: 'user', content: toChatContent(parts) };
+          const reply = await complete([...history, userMessage], options);
+          history.push(userMessage, { role: 'assistant', content: reply });
+          return reply;
+        },
+      };
+    },
+
+    searchGrounded: async (prompt, options) => ({
+      text: await complete(buildMessages(prompt, options?.systemInstruction), options),
+      sources: [],
+    }),
+
+    // Only offered when an embedding model is configured.
+    embed: config.models.embedding
+      ? async (texts, options) => {
+          const response = await post('/embeddings', { model: options?.model || config.models.embedding, input: texts });
+          const json = await response.json();
+          return (json.data || []).map((item: { embedding: number[] }) => item.embedding);
+        }
+      : undefined,
+  };
+};
@@ -0,0 +1,102 @@
+import { GroundingSource } from "../../types";
+
+/**
+ * Coarse model choice for text generation. Each provider maps a tier to its
+ * own model names; an explicit `model` option always wins over the tier.
+ */
+export type ModelTier = 'fast' | 'reasoning';
+
+/**
+ * What a call is for. Lets adapters and fixtures tell calls apart without
+ * parsing prompts.
+ */
+export type AITask = 'explanation' | 'visual-prompt' | 'visual' | 'simulation' | 'verification' | 'quiz' | 'student' | 'speech' | 'embedding' | 'image-description' | 'follow-up' | 'grading' | 'answer-equivalence';
+
+export interface ContentPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+export type PromptInput = string | ContentPart[];
+
+/**
+ * Provider-neutral subset of JSON Schema used for structured output.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface TextOptions {
+  task?: AITask;
+  tier?: ModelTier;
+  model?: string;
+  systemInstruction?: string;
+  thinkingBudget?: number;
+  signal?: AbortSignal;
+}
+
+export interface ImageOptions {
+  task?: AITask;
+  model?: string;
+  aspectRatio?: string;
+}
+
+export interface SpeechOptions {
+  task?: AITask;
+  model?: string;
+}
+
+export interface EmbedOptions {
+  task?: AITask;
+  model?: string;
+}
+
+export interface ChatOptions extends TextOptions {
+  systemInstruction: string;
+}
+
+export interface AIChat {
+  sendMessage: (parts: ContentPart[]) => Promise<string>;
+}
+
+export interface GroundedResult {
+  text: string;
+  sources: GroundingSource[];
+}
+
+export interface AIProvider {
+  id: string;
+  /** Audio accepted as prompt input: format name by MIME type. Any audio when absent. */
+  audioInputFormats?: Record<string, string>;
+  /** Plain text (or markdown) completion. */
+  generateText: (prompt: PromptInput, options?: TextOptions) => Promise<string>;
+  /** Same as generateText, yielding the response in chunks as it is produced. */
+  streamText: (prompt: PromptInput, options?: TextOptions) => AsyncIterable<string>;
+  /** Completion constrained to `schema`, parsed into `T`. */
+  generateJSON: <T>(prompt: PromptInput, schema: JsonSchema, options?: TextOptions) => Promise<T>;
+  /** Image generation/editing; resolves to a `data:` URL. */
+  generateImage: (prompt: PromptInput, options?: ImageOptions) => Promise<string>;
+  /** Text to speech; resolves to base64 16-bit mono PCM at 24kHz. */
+  generateSpeech: (text: string, voiceName: string, options?: SpeechOptions) => Promise<string>;
+  /** Stateful multi-turn conversation. */
+  createChat: (options: ChatOptions) => AIChat;
+  /** Completion grounded in web search results. */
+  searchGrounded: (prompt: string, options?: TextOptions) => Promise<GroundedResult>;
+  /** One embedding vector per text. Optional; retrieval falls back to keywords without it. */
+  embed?: (texts: string[], options?: EmbedOptions) => Promise<number[][]>;
+}
+
+export const toParts = (prompt: PromptInput): ContentPart[] =>
+  typeof prompt === 'string' ? [{ text: prompt }] : prompt;
+
+export const toDataUrl = (mimeType: string, data: string) => `data:${mimeType};base64,${data}`;
+
+export const stripDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/png', data: dataUrl };
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildQuizRun, countQuizQuestions, describeQuizAnswer, formatDuration, normalizeQuiz, quizTypes, splitQuestionCount } from './quizService';
+import { QuizData } from '../types';
+
+describe('splitQuestionCount', () => {
+  it('splits the count by weight', () => {
+    expect(splitQuestionCount(10)).toEqual({ 'choose': 4, 'fill-blank': 2, 'match': 2, 'answer': 2 });
+    expect(splitQuestionCount(5, { 'choose': 1, 'fill-blank': 1, 'match': 1, 'answer': 1 })).toEqual({ 'choose': 2, 'fill-blank': 1, 'match': 1, 'answer': 1 });
+    expect(splitQuestionCount(20, { 'choose': 0, 'fill-blank': 3, 'match': 0, 'answer': 1 })).toEqual({ 'choose': 0, 'fill-blank': 15, 'match': 0, 'answer': 5 });
+  });
+
+  it('always adds up to the count', () => {
+    for (const count of [5, 10, 20]) {
+      const counts = splitQuestionCount(count, { 'choose': 3, 'fill-blank': 2, 'match': 2, 'answer': 1 });
+      expect(Object.values(counts).reduce((a, b) => a + b, 0)).toBe(count);
+    }
+  });
+
+  it('falls back to the default mix when every type is off', () => {
+    expect(splitQuestionCount(5, { 'choose': 0, 'fill-blank': 0, 'match': 0, 'answer': 0 })).toEqual(splitQuestionCount(5));
+  });
+});
+
+describe('normalizeQuiz', () => {
+  it('caps each type and drops malformed questions', () => {
+    const quiz: Partial<QuizData> = {
+      topic: 'Heat',
+      choose: [
+        { id: 'c1', question: 'Q1', options: ['A', 'B'], correctAnswer: 'A' },
+        { id: 'c2', question: 'Q2', options: ['A', 'B'], correctAnswer: 'C' },
+        { id: 'c3', question: 'Q3', options: ['A', 'B'], correctAnswer: 'B' },
+        { id: 'c4', question: 'Q4', options: ['A', 'B'], correctAnswer: 'B' },
+      ],
+      answer: [{ id: 'a1', question: 'Why?', sampleAnswer: 'Because.' }],
+    };
+    const normalized = normalizeQuiz(quiz, { 'choose': 2, 'fill-blank': 0, 'match': 0, 'answer': 1 });
+    expect(normalized.choose.map(q => q.id)).toEqual(['c1', 'c3']);
+    expect(normalized.fillBlank).toEqual([]);
+    expect(quizTypes(normalized)).toEqual(['choose', 'answer']);
+    expect(countQuizQuestions(normalized)).toBe(3);
+  });
+});
+
+describe('buildQuizRun', () => {
+  it('takes a question of each type in turn', () => {
+    const quiz: QuizData = {
+      topic: 'Heat',
+      choose: [
+        { id: 'c1', question: 'Q1', options: ['A'], correctAnswer: 'A' },
+        { id: 'c2', question: 'Q2', options: ['A'], correctAnswer: 'A' },
+        { id: 'c3', question: 'Q3', options: ['A'], correctAnswer: 'A' },
+      ],
+      fillBlank: [{ id: 'f1', question: 'Fill', sentence: '___', correctAnswer: 'x' }],
+      match: [],
+      answer: [{ id: 'a1', question: 'Why?', sampleAnswer: 'Because.' }],
+    };
+    expect(buildQuizRun(quiz).map(item => item.question.id)).toEqual(['c1', 'f1', 'a1', 'c2', 'c3']);
+  });
+});
+
+describe('describeQuizAnswer', () => {
+  it('spells out match answers pair by pair', () => {
+    const item = { type: 'match' as const, question: { id: 'm1', question: 'Match', pairs: [{ left: 'A', right: '1' }, { left: 'B', right: '2' }] } };
+    expect(describeQuizAnswer(item, { selectedOption: '', textInput: '', matchSelections: { A: '2' } })).toEqual({
+      questionText: 'Match',
+      userAnswer: 'A → 2; B → ?',
+      correctAnswer: 'A → 1; B → 2',
+    });
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats milliseconds as m:ss', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65_400)).toBe('1:05');
+  });
+});
@@ -0,0 +1,92 @@
+import { QuestionMix, QuestionType, QuizAnswerInput, QuizData, QuizItem, QuizQuestion } from "../types";
+
+export const QUESTION_TYPES: QuestionType[] = ['choose', 'fill-blank', 'match', 'answer'];
+
+// QuizData keeps each question type in its own array.
+const QUIZ_KEYS: Record<QuestionType, Exclude<keyof QuizData, 'topic'>> = {
+  'choose': 'choose',
+  'fill-blank': 'fillBlank',
+  'match': 'match',
+  'answer': 'answer',
+};
+
+export const DEFAULT_QUESTION_MIX: QuestionMix = { 'choose': 2, 'fill-blank': 1, 'match': 1, 'answer': 1 };
+
+/** Highest weight a type can have in a mix; 0 leaves the type out. */
+export const MAX_MIX_WEIGHT = 3;
+
+/**
+ * Splits `count` questions across types in proportion to their weights,
+ * handing leftovers to the largest remainders (ties go to the earlier type).
+ * A mix with no weight at all falls back to the default one.
+ */
+export const splitQuestionCount = (count: number, mix: QuestionMix = DEFAULT_QUESTION_MIX): Record<QuestionType, number> => {
+  const weights = QUESTION_TYPES.some(type => mix[type] > 0) ? mix : DEFAULT_QUESTION_MIX;
+  const total = QUESTION_TYPES.reduce((sum, type) => sum + Math.max(0, weights[type]), 0);
+  const exact = QUESTION_TYPES.map(type => (count * Math.max(0, weights[type])) / total);
+  const counts = exact.map(Math.floor);
+  let left = count - counts.reduce((sum, n) => sum + n, 0);
+  QUESTION_TYPES
+    .map((_, i) => i)
+    .sort((a, b) => (exact[b] - counts[b]) - (exact[a] - counts[a]) || a - b)
+    .forEach(i => { if (left > 0 && exact[i] > 0) { counts[i]++; left--; } });
+  return Object.fromEntries(QUESTION_TYPES.map((type, i) => [type, counts[i]])) as Record<QuestionType, number>;
+};
+
+/** The questions of one type, in order. */
+export const quizQuestions = (quiz: QuizData, type: QuestionType): QuizQuestion[] => quiz[QUIZ_KEYS[type]] || [];
+
+/** Question types that have at least one question, in quiz order. */
+export const quizTypes = (quiz: QuizData): QuestionType[] => QUESTION_TYPES.filter(type => quizQuestions(quiz, type).length > 0);
+
+export const countQuizQuestions = (quiz: QuizData) =>
+  QUESTION_TYPES.reduce((sum, type) => sum + quizQuestions(quiz, type).length, 0);
+
+/**
+ * Caps each type at its requested count and drops malformed questions, so the
+ * quiz never holds more than asked for or breaks on a partial model response.
+ */
+export const normalizeQuiz = (quiz: Partial<QuizData>, counts: Record<QuestionType, number>): QuizData => ({
+  topic: quiz.topic || 'Quiz',
+  choose: (quiz.choose || []).filter(q => q.options?.includes(q.correctAnswer)).slice(0, counts['choose']),
+  fillBlank: (quiz.fillBlank || []).filter(q => q.sentence && q.correctAnswer).slice(0, counts['fill-blank']),
+  match: (quiz.match || []).filter(q => q.pairs?.length > 0).slice(0, counts['match']),
+  answer: (quiz.answer || []).filter(q => q.question).slice(0, counts['answer']),
+});
+
+/**
+ * Orders the quiz as one run that takes a question of each type in turn, so
+ * the types are interleaved rather than worked through one after another.
+ */
+export const buildQuizRun = (quiz: QuizData): QuizItem[] => {
+  const queues = QUESTION_TYPES.map(type => quizQuestions(quiz, type).map(question => ({ type, question }) as QuizItem));
+  const run: QuizItem[] = [];
+  for (let round = 0; queues.some(queue => round < queue.length); round++) {
+    queues.forEach(queue => { if (round < queue.length) run.push(queue[round]); });
+  }
+  return run;
+};
+
+/** The question, the learner's answer and the right answer as plain text, for mistakes and review. */
+export const describeQuizAnswer = (item: QuizItem, input: QuizAnswerInput) => {
+  switch (item.type) {
+    case 'choose':
+      return { questionText: item.question.question, userAnswer: input.selectedOption, correctAnswer: item.question.correctAnswer };
+    case 'fill-blank':
+      return { questionText: item.question.question, userAnswer: input.textInput, correctAnswer: item.question.correctAnswer };
+    case 'match':
+      return {
+        questionText: item.question.question,
+        userAnswer: item.question.pairs.map(p => `${p.left} → ${input.matchSelections[p.left] || '?'}`).join('; '),
+        correctAnswer: item.question.pairs.map(p => `${p.left} → ${p.right}`).join('; '),
+      };
+    case 'answer':
+      return { questionText: item.question.question, userAnswer: input.textInput, correctAnswer: item.question.sampleAnswer };
+  }
+};
+
+/** Milliseconds as m:ss, for question timers. */
+export const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
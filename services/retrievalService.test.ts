@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { describeChunk, estimateTokens, fitToBudget, formatContext, rankChunks, retrieveChunks, tokenize } from './retrievalService';
+import { setAIProvider } from './aiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { resetSettings, updateSettings } from './settingsService';
+import { SourceItem } from '../types';
+
+const source = (id: string, fields: Partial<SourceItem>): SourceItem => ({
+  id, type: 'website', title: id, metadata: '', isSelected: true, ...fields,
+});
+
+const filler = (topic: string) => `This passage is about ${topic} and nothing else of note. `.repeat(20);
+
+const textbook = source('book', {
+  type: 'pdf',
+  title: 'Thermodynamics.pdf',
+  chunks: [
+    { index: 0, text: filler('temperature scales'), heading: 'Temperature', pageStart: 1, pageEnd: 2 },
+    { index: 1, text: filler('heat engines and the Carnot cycle'), heading: 'Engines', pageStart: 3, pageEnd: 3 },
+    { index: 2, text: `${filler('disorder')} Entropy of an isolated system never decreases.`, heading: 'Entropy', pageStart: 4, pageEnd: 5 },
+    { index: 3, text: filler('phase changes of water'), heading: 'Phases', pageStart: 6, pageEnd: 6 },
+  ],
+});
+
+const notes = source('notes', { title: 'My notes', content: 'Ice melts at zero degrees.\n\nSteam is hot.' });
+
+describe('tokenize', () => {
+  it('drops stopwords and plural endings', () => {
+    expect(tokenize('What are the Laws of Thermodynamics?')).toEqual(['law', 'thermodynamic']);
+    expect(tokenize('Glass passes gases')).toEqual(['glass', 'passe', 'gase']);
+  });
+});
+
+describe('rankChunks', () => {
+  it('puts the best keyword match first and keeps unmatched chunks in document order', () => {
+    const ranked = rankChunks([textbook, notes], 'Does entropy decrease in an isolated system?');
+    expect(ranked[0]).toMatchObject({ id: 'book#2', sourceTitle: 'Thermodynamics.pdf', heading: 'Entropy', pageStart: 4, pageEnd: 5 });
+    expect(ranked[0].score).toBeGreaterThan(0);
+    expect(ranked.slice(1).map(chunk => chunk.id)).toEqual(['book#0', 'book#1', 'book#3', 'notes#0']);
+  });
+
+  it('chunks sources that only have plain content', () => {
+    const ranked = rankChunks([notes], 'steam');
+    expect(ranked).toHaveLength(1);
+    expect(ranked[0].text).toBe('Ice melts at zero degrees.\nSteam is hot.');
+  });
+});
+
+describe('fitToBudget', () => {
+  const ranked = rankChunks([textbook, notes], 'entropy');
+
+  it('keeps the best chunks that fit and skips ones that would overflow', () => {
+    const budget = estimateTokens(ranked[0].text) + estimateTokens(notes.content!) + 10;
+    expect(fitToBudget(ranked, budget).map(chunk => chunk.id)).toEqual(['book#2', 'notes#0']);
+  });
+
+  it('cuts the best chunk down when nothing fits whole', () => {
+    const [only] = fitToBudget(ranked, 5);
+    expect(only.id).toBe('book#2');
+    expect(only.text).toHaveLength(20);
+  });
+});
+
+describe('formatContext', () => {
+  it('labels chunks and says where each came from', () => {
+    const [entropy] = rankChunks([textbook], 'entropy');
+    const text = formatContext([entropy, { id: 'video#0', sourceId: 'video', sourceTitle: 'Lecture', chunkIndex: 0, text: '[1:15] Heat flows.', startTime: 75, score: 0 }]);
+    expect(text).toMatch(/^\[S1\] Thermodynamics\.pdf, "Entropy", pages 4-5\nThis passage/);
+    expect(text).toContain('\n\n[S2] Lecture, at 1:15\n[1:15] Heat flows.');
+    expect(describeChunk({ ...entropy, pageEnd: 4 })).toBe('Thermodynamics.pdf, "Entropy", page 4');
+  });
+});
+
+describe('retrieveChunks', () => {
+  afterEach(() => resetSettings());
+
+  it('stays within the configured context budget', async () => {
+    updateSettings({ contextTokenBudget: estimateTokens(textbook.chunks![1].text) + estimateTokens(notes.content!) + 2 });
+    const chunks = await retrieveChunks([textbook, notes], 'Carnot engines');
+    expect(chunks.map(chunk => chunk.id)).toEqual(['book#1', 'notes#0']);
+  });
+
+  it('blends in embedding similarity when semantic ranking is on', async () => {
+    // Toy embeddings: "disorder" and "messiness" point the same way.
+    const vector = (text: string) => (/disorder|messiness/i.test(text) ? [1, 0] : [0, 1]);
+    const embed = vi.fn(async (texts: string[]) => texts.map(vector));
+    setAIProvider({ ...createMockProvider(), embed });
+
+    const chunks = await retrieveChunks([textbook], 'messiness', { semantic: true, tokenBudget: 400 });
+    expect(chunks[0].id).toBe('book#2');
+    expect(embed).toHaveBeenCalledWith(expect.arrayContaining(['messiness']), { task: 'embedding' });
+
+    // Keyword-only ranking has nothing to go on for this query.
+    const keywordOnly = await retrieveChunks([textbook], 'messiness', { tokenBudget: 400 });
+    expect(keywordOnly[0].id).toBe('book#0');
+  });
+
+  it('falls back to keyword ranking when embedding fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setAIProvider({ ...createMockProvider(), embed: async () => { throw new Error('quota'); } });
+    const chunks = await retrieveChunks([textbook], 'phase changes', { semantic: true, tokenBudget: 400 });
+    expect(chunks[0].id).toBe('book#3');
+  });
+});
@@ -0,0 +1,201 @@
+import { RetrievedChunk, SourceChunk, SourceItem } from "../types";
+import { getAIProvider } from "./aiProvider";
+import { getSettings } from "./settingsService";
+import { chunkText } from "./chunking";
+import { hashPrompt } from "./providers/mockProvider";
+
+// Source text sent along with the visual and verification prompts; the same
+// size as the 2000/3000-character cuts those prompts used to make.
+export const VISUAL_CONTEXT_TOKENS = 500;
+export const VERIFICATION_CONTEXT_TOKENS = 750;
+
+// BM25 parameters, at their usual defaults.
+const K1 = 1.2;
+const B = 0.75;
+
+const MAX_EMBEDDED_CHUNKS = 200;
+const EMBED_BATCH_SIZE = 50;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'explain', 'for', 'from', 'how',
+  'in', 'is', 'it', 'its', 'me', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with',
+]);
+
+/** Rough token count (about four characters per token), for budgeting only. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Lowercased search terms, without stopwords and with plural `-s` dropped. */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+interface IndexedChunk {
+  source: SourceItem;
+  chunk: SourceChunk;
+  terms: Map<string, number>;
+  length: number;
+}
+
+// Sources are replaced rather than mutated, so their index entries can be
+// cached by identity and dropped along with them.
+const indexCache = new WeakMap<SourceItem, IndexedChunk[]>();
+
+const indexSource = (source: SourceItem): IndexedChunk[] => {
+  const cached = indexCache.get(source);
+  if (cached) return cached;
+
+  const chunks = source.chunks?.length ? source.chunks : chunkText(source.content || source.url || '');
+  const indexed = chunks.map(chunk => {
+    const tokens = tokenize(`${source.title} ${chunk.heading || ''} ${chunk.text}`);
+    const terms = new Map<string, number>();
+    tokens.forEach(token => terms.set(token, (terms.get(token) || 0) + 1));
+    return { source, chunk, terms, length: tokens.length };
+  });
+  indexCache.set(source, indexed);
+  return indexed;
+};
+
+const toRetrieved = ({ source, chunk }: IndexedChunk, score: number): RetrievedChunk => ({
+  id: `${source.id}#${chunk.index}`,
+  sourceId: source.id,
+  sourceTitle: source.title,
+  chunkIndex: chunk.index,
+  text: chunk.text,
+  heading: chunk.heading,
+  pageStart: chunk.pageStart,
+  pageEnd: chunk.pageEnd,
+  startTime: chunk.startTime,
+  score,
+});
+
+/**
+ * Every chunk of `sources`, best BM25 match for `query` first. Chunks that
+ * share no terms with the query keep their document order at the end, so
+ * short sources are still used whole when the budget allows.
+ */
+export const rankChunks = (sources: SourceItem[], query: string): RetrievedChunk[] => {
+  const docs = sources.flatMap(indexSource);
+  if (docs.length === 0) return [];
+
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const idf = new Map(queryTerms.map(term => {
+    const matches = docs.filter(doc => doc.terms.has(term)).length;
+    return [term, Math.log(1 + (docs.length - matches + 0.5) / (matches + 0.5))];
+  }));
+
+  return docs
+    .map(doc => ({
+      doc,
+      score: queryTerms.reduce((sum, term) => {
+        const tf = doc.terms.get(term) || 0;
+        return sum + (idf.get(term) || 0) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+      }, 0),
+    }))
+    .sort((a, b) => b.score - a.score) // stable, so ties keep document order
+    .map(({ doc, score }) => toRetrieved(doc, score));
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const embeddingCache = new Map<string, number[]>();
+
+/**
+ * Blends keyword and embedding similarity for the top keyword matches. Falls
+ * back to the keyword ranking when the provider has no embeddings or fails.
+ */
+export const rerankWithEmbeddings = async (query: string, ranked: RetrievedChunk[]): Promise<RetrievedChunk[]> => {
+  const provider = getAIProvider();
+  if (!provider.embed || ranked.length === 0) return ranked;
+
+  const candidates = ranked.slice(0, MAX_EMBEDDED_CHUNKS);
+  const key = (text: string) => `${provider.id}:${hashPrompt(text)}`;
+
+  try {
+    const missing = Array.from(new Set([query, ...candidates.map(chunk => chunk.text)])).filter(text => !embeddingCache.has(key(text)));
+    for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+      const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await provider.embed(batch, { task: 'embedding' });
+      batch.forEach((text, j) => vectors[j] && embeddingCache.set(key(text), vectors[j]));
+    }
+  } catch (error) {
+    console.error("Embedding error:", error);
+    return ranked;
+  }
+
+  const queryVector = embeddingCache.get(key(query));
+  if (!queryVector) return ranked;
+  const topScore = candidates[0].score || 1;
+  const reranked = candidates
+    .map(chunk => {
+      const vector = embeddingCache.get(key(chunk.text));
+      const similarity = vector ? Math.max(0, cosine(queryVector, vector)) : 0;
+      return { ...chunk, score: 0.5 * (chunk.score / topScore) + 0.5 * similarity };
+    })
+    .sort((a, b) => b.score - a.score);
+  return [...reranked, ...ranked.slice(MAX_EMBEDDED_CHUNKS)];
+};
+
+/**
+ * The best-ranked chunks whose combined size fits `tokenBudget`, skipping any
+ * that would overflow it. If not even the best chunk fits, it is cut to size.
+ */
+export const fitToBudget = (ranked: RetrievedChunk[], tokenBudget: number): RetrievedChunk[] => {
+  const picked: RetrievedChunk[] = [];
+  let used = 0;
+  ranked.forEach(chunk => {
+    const cost = estimateTokens(chunk.text);
+    if (used + cost > tokenBudget) return;
+    picked.push(chunk);
+    used += cost;
+  });
+  if (picked.length === 0 && ranked.length > 0) {
+    return [{ ...ranked[0], text: ranked[0].text.slice(0, tokenBudget * 4) }];
+  }
+  return picked;
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+/** Where a chunk came from, e.g. `Chapter 4.pdf, "Entropy", pages 12-13`. */
+export const describeChunk = (chunk: RetrievedChunk): string => {
+  const location = chunk.pageStart === undefined
+    ? chunk.startTime !== undefined ? `at ${formatTime(chunk.startTime)}` : ''
+    : chunk.pageEnd !== undefined && chunk.pageEnd !== chunk.pageStart ? `pages ${chunk.pageStart}-${chunk.pageEnd}` : `page ${chunk.pageStart}`;
+  return [chunk.sourceTitle, chunk.heading && `"${chunk.heading}"`, location].filter(Boolean).join(', ');
+};
+
+/**
+ * Labels chunks `[S1]`, `[S2]`, ... in the order given, each under its origin.
+ * Answers cite a chunk by its label, i.e. `[Sn]` is `chunks[n - 1]`.
+ */
+export const formatContext = (chunks: RetrievedChunk[]): string =>
+  chunks.map((chunk, i) => `[S${i + 1}] ${describeChunk(chunk)}\n${chunk.text}`).join('\n\n');
+
+export interface RetrievalOptions {
+  tokenBudget?: number;
+  semantic?: boolean;
+}
+
+/**
+ * Picks the passages of `sources` most relevant to `query` that fit the token
+ * budget. Both options default to the Source Context settings.
+ */
+export const retrieveChunks = async (sources: SourceItem[], query: string, options: RetrievalOptions = {}): Promise<RetrievedChunk[]> => {
+  const settings = getSettings();
+  let ranked = rankChunks(sources, query);
+  if (options.semantic ?? settings.semanticRetrieval) ranked = await rerankWithEmbeddings(query, ranked);
+  return fitToBudget(ranked, options.tokenBudget ?? settings.contextTokenBudget);
+};
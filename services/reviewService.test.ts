@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_EASE, MIN_EASE, RELEARN_DELAY_MS, describeDue, isDue, reviewQueue, scheduleReview } from './reviewService';
+import { MistakeItem } from '../types';
+import { translate } from './i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 9, 19, 9, 0).getTime();
+
+const mistake = (id: string, extra: Partial<MistakeItem> = {}): MistakeItem => ({
+  id,
+  questionId: id,
+  questionText: 'Q',
+  userAnswer: 'wrong',
+  correctAnswer: 'right',
+  category: 'Concept Error',
+  note: '',
+  topic: 'Heat',
+  timestamp: now - DAY_MS,
+  ...extra,
+});
+
+describe('scheduleReview', () => {
+  it('waits 1 day, then 6, then the last interval times the ease', () => {
+    const first = scheduleReview(undefined, 'good', now);
+    expect(first).toEqual({ easeFactor: DEFAULT_EASE, intervalDays: 1, repetitions: 1, dueAt: now + DAY_MS, lastReviewedAt: now });
+    const second = scheduleReview(first, 'good', now);
+    expect(second.intervalDays).toBe(6);
+    const third = scheduleReview(second, 'good', now);
+    expect(third.intervalDays).toBe(15);
+    expect(third.dueAt).toBe(now + 15 * DAY_MS);
+  });
+
+  it('moves the ease with the rating', () => {
+    expect(scheduleReview(undefined, 'easy', now).easeFactor).toBeCloseTo(2.6);
+    expect(scheduleReview(undefined, 'hard', now).easeFactor).toBeCloseTo(2.36);
+    expect(scheduleReview({ easeFactor: 1.35, intervalDays: 6, repetitions: 2, dueAt: now, lastReviewedAt: now }, 'again', now).easeFactor).toBe(MIN_EASE);
+  });
+
+  it('starts a forgotten card over and brings it back the same day', () => {
+    const learned = { easeFactor: 2.5, intervalDays: 15, repetitions: 3, dueAt: now, lastReviewedAt: now - 15 * DAY_MS };
+    const forgotten = scheduleReview(learned, 'again', now);
+    expect(forgotten).toMatchObject({ intervalDays: 0, repetitions: 0, dueAt: now + RELEARN_DELAY_MS });
+    expect(scheduleReview(forgotten, 'good', now).intervalDays).toBe(1);
+  });
+});
+
+describe('reviewQueue', () => {
+  it('holds the cards due by the end of the day, most overdue first', () => {
+    const items = [
+      mistake('later-today', { review: { easeFactor: 2.5, intervalDays: 0, repetitions: 0, dueAt: now + 3 * 60 * 60 * 1000, lastReviewedAt: now } }),
+      mistake('new'),
+      mistake('tomorrow', { review: { easeFactor: 2.5, intervalDays: 1, repetitions: 1, dueAt: now + DAY_MS, lastReviewedAt: now } }),
+      mistake('overdue', { review: { easeFactor: 2.5, intervalDays: 6, repetitions: 2, dueAt: now - 2 * DAY_MS, lastReviewedAt: now - 8 * DAY_MS } }),
+    ];
+    expect(reviewQueue(items, now).map(item => item.id)).toEqual(['overdue', 'new', 'later-today']);
+  });
+
+  it('describes when a card is due', () => {
+    expect(isDue(mistake('new'), now)).toBe(true);
+    expect(describeDue(mistake('new'), now)).toBe('Due now');
+    expect(describeDue(mistake('soon', { review: scheduleReview(undefined, 'again', now) }), now)).toBe('Due in 10 min');
+    expect(describeDue(mistake('week', { review: scheduleReview({ easeFactor: 2.5, intervalDays: 1, repetitions: 1, dueAt: now, lastReviewedAt: now }, 'good', now) }), now)).toBe('Due in 6 days');
+    expect(describeDue(mistake('soon', { review: scheduleReview(undefined, 'again', now) }), now, (key, params) => translate('am', key, params))).toBe('በ10 ደቂቃ ይደርሳል');
+  });
+});
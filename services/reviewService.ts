@@ -0,0 +1,70 @@
+import { MistakeItem, ReviewRating, ReviewSchedule } from "../types";
+import { Translate, translate } from "./i18n";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+/** A forgotten card comes back this soon, so it can be relearned the same day. */
+export const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 recall quality (0-5) for each rating; below 3 counts as forgotten.
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * The next schedule after a review, per SM-2: a recalled card waits 1 day,
+ * then 6, then its last interval times its ease; a forgotten card starts over.
+ * Ease moves with the rating and never drops below MIN_EASE.
+ */
+export const scheduleReview = (current: ReviewSchedule | undefined, rating: ReviewRating, now = Date.now()): ReviewSchedule => {
+  const quality = RATING_QUALITY[rating];
+  const easeFactor = Math.max(MIN_EASE, (current?.easeFactor ?? DEFAULT_EASE) + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { easeFactor, intervalDays: 0, repetitions: 0, dueAt: now + RELEARN_DELAY_MS, lastReviewedAt: now };
+  }
+
+  const repetitions = (current?.repetitions ?? 0) + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(Math.max(1, current?.intervalDays ?? 1) * easeFactor);
+  return { easeFactor, intervalDays, repetitions, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+};
+
+/** Rating suggested by a graded answer: a wrong one was forgotten, a right one recalled. */
+export const ratingForAnswer = (isCorrect: boolean): ReviewRating => (isCorrect ? 'good' : 'again');
+
+export const isDue = (item: MistakeItem, now = Date.now()) => !item.review || item.review.dueAt <= now;
+
+const endOfDay = (now: number) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end.getTime();
+};
+
+/**
+ * Today's review queue: every card due by the end of the day, most overdue
+ * first. Cards never reviewed count as due from when the mistake was made.
+ */
+export const reviewQueue = (items: MistakeItem[], now = Date.now()): MistakeItem[] => {
+  const dueAt = (item: MistakeItem) => item.review?.dueAt ?? item.timestamp;
+  const cutoff = endOfDay(now);
+  return items.filter(item => dueAt(item) <= cutoff).sort((a, b) => dueAt(a) - dueAt(b));
+};
+
+/** When a card is next due, in words: "Due now", "Due in 3 hours", "Due in 6 days". */
+export const describeDue = (item: MistakeItem, now = Date.now(), t: Translate = (key, params) => translate('en', key, params)): string => {
+  if (isDue(item, now)) return t('review.dueNow');
+  const ms = item.review!.dueAt - now;
+  if (ms < 60 * 60 * 1000) return t('review.dueMinutes', { count: Math.max(1, Math.round(ms / 60000)) });
+  if (ms < DAY_MS) {
+    const hours = Math.round(ms / (60 * 60 * 1000));
+    return t(hours === 1 ? 'review.dueHour' : 'review.dueHours', { count: hours });
+  }
+  const days = Math.round(ms / DAY_MS);
+  return t(days === 1 ? 'review.dueDay' : 'review.dueDays', { count: days });
+};
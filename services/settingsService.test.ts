@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_SETTINGS, getSettings, getTaskModel, resetSettings, subscribeSettings, updateSettings } from './settingsService';
+import { getAIProvider, getAIProviderId, resetAISettings, setAIProvider, setAIProviderId } from './aiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { generateQuiz } from './geminiService';
+
+describe('settingsService', () => {
+  beforeEach(() => {
+    resetSettings();
+  });
+
+  it('persists updates and notifies subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeSettings(listener);
+    updateSettings({ ttsPlaybackRate: 1.5 });
+    unsubscribe();
+    updateSettings({ quizCount: 5 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getSettings().ttsPlaybackRate).toBe(1.5);
+    expect(JSON.parse(localStorage.getItem('clarifyai.settings')!).quizCount).toBe(5);
+  });
+
+  it('keeps stored API keys when resetting', () => {
+    updateSettings({ quizCount: 20, apiKeys: { gemini: 'key-123' } });
+    resetSettings();
+    expect(getSettings().quizCount).toBe(DEFAULT_SETTINGS.quizCount);
+    expect(getSettings().apiKeys).toEqual({ gemini: 'key-123' });
+    updateSettings({ apiKeys: {} });
+  });
+
+  it('drops the cached provider on "Reset to defaults"', () => {
+    const provider = createMockProvider();
+    setAIProvider(provider);
+    resetAISettings();
+    expect(getAIProvider()).not.toBe(provider);
+    setAIProvider(null);
+  });
+
+  it('returns the same snapshot until something changes', () => {
+    const before = getSettings();
+    expect(getSettings()).toBe(before);
+    updateSettings({ thinkingBudget: 0 });
+    expect(getSettings()).not.toBe(before);
+  });
+
+  it('treats a blank model as the provider default', () => {
+    updateSettings({ models: { ...DEFAULT_SETTINGS.models, quiz: '  ', explanation: 'my-model' } });
+    expect(getTaskModel('quiz')).toBeUndefined();
+    expect(getTaskModel('explanation')).toBe('my-model');
+  });
+
+  it('passes the configured model through to the provider', async () => {
+    const provider = createMockProvider();
+    const generateJSON = vi.spyOn(provider, 'generateJSON');
+    setAIProvider(provider);
+    updateSettings({ models: { ...DEFAULT_SETTINGS.models, quiz: 'quiz-model' } });
+
+    await generateQuiz('Entropy', 'Easy', 5);
+    expect(generateJSON.mock.calls[0][2]).toMatchObject({ task: 'quiz', model: 'quiz-model' });
+  });
+
+  it('clears model overrides when the provider changes', () => {
+    const current = getAIProviderId();
+    updateSettings({ models: { ...DEFAULT_SETTINGS.models, quiz: 'quiz-model' } });
+
+    setAIProviderId(current);
+    expect(getTaskModel('quiz')).toBe('quiz-model');
+
+    setAIProviderId(current === 'mock' ? 'gemini' : 'mock');
+    expect(getTaskModel('quiz')).toBeUndefined();
+    localStorage.removeItem('clarifyai.aiProvider');
+  });
+});
@@ -0,0 +1,109 @@
+import type { AIProviderId } from "./aiProvider";
+import type { StudentType } from "./geminiService";
+import type { Language } from "./i18n";
+import type { QuestionMix } from "../types";
+import { DEFAULT_QUESTION_MIX } from "./quizService";
+
+/** Tasks whose model can be overridden from Settings. */
+export type ModelTask = 'explanation' | 'quiz' | 'visual' | 'simulation' | 'verification';
+
+export type QuizDifficulty = 'Easy' | 'Medium' | 'Hard';
+export type TeachLanguage = 'en-US' | 'am-ET';
+
+export interface AppSettings {
+  /** Model name per task for the current provider; empty means its default. Cleared on provider change. */
+  models: Record<ModelTask, string>;
+  thinkingBudget: number;
+  /** Upper bound on source text sent with each question, in estimated tokens. */
+  contextTokenBudget: number;
+  /** Rank source chunks with provider embeddings as well as keywords. */
+  semanticRetrieval: boolean;
+  /** Ask the model to describe uploaded images, on top of reading their text. */
+  describeImages: boolean;
+  /** Language of the interface and of generated content. */
+  language: Language;
+  quizDifficulty: QuizDifficulty;
+  quizCount: number;
+  quizMix: QuestionMix;
+  /** Ask the model about fill-in-the-blank answers that match nothing locally. */
+  judgeBlankAnswers: boolean;
+  teachLanguage: TeachLanguage;
+  studentVoices: Record<StudentType, string>;
+  ttsPlaybackRate: number;
+  /** Keys entered in the app, per provider. Stored only in this browser. */
+  apiKeys: Partial<Record<AIProviderId, string>>;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  models: { explanation: '', quiz: '', visual: '', simulation: '', verification: '' },
+  thinkingBudget: 1024,
+  contextTokenBudget: 6000,
+  semanticRetrieval: false,
+  describeImages: true,
+  language: 'en',
+  quizDifficulty: 'Medium',
+  quizCount: 10,
+  quizMix: DEFAULT_QUESTION_MIX,
+  judgeBlankAnswers: true,
+  teachLanguage: 'en-US',
+  studentVoices: { normal: 'Zephyr', argumentative: 'Puck', creative: 'Kore' },
+  ttsPlaybackRate: 1.15,
+  apiKeys: {},
+};
+
+const SETTINGS_STORAGE_KEY = 'clarifyai.settings';
+
+let cached: AppSettings | null = null;
+const listeners = new Set<() => void>();
+
+// Stored settings are merged over the defaults, so fields added later get
+// their default instead of undefined.
+const load = (): AppSettings => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      models: { ...DEFAULT_SETTINGS.models, ...stored.models },
+      studentVoices: { ...DEFAULT_SETTINGS.studentVoices, ...stored.studentVoices },
+      quizMix: { ...DEFAULT_SETTINGS.quizMix, ...stored.quizMix },
+      apiKeys: { ...stored.apiKeys },
+    };
+  } catch (error) {
+    console.error("Settings load error:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Current settings. The same object is returned until the next update, so it
+ * is safe to use as an external store snapshot.
+ */
+export const getSettings = (): AppSettings => {
+  if (!cached) cached = load();
+  return cached;
+};
+
+export const updateSettings = (changes: Partial<AppSettings>) => {
+  cached = { ...getSettings(), ...changes };
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(cached));
+  } catch (error) {
+    console.error("Settings save error:", error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+/** Restores the defaults but keeps stored API keys; those are cleared one by one. */
+export const resetSettings = () => updateSettings({ ...DEFAULT_SETTINGS, apiKeys: getSettings().apiKeys });
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** The model override for a task, or undefined to use the provider default. */
+export const getTaskModel = (task: ModelTask): string | undefined =>
+  getSettings().models[task].trim() || undefined;
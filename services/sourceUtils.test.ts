@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateSource, getCitationUrl, hashFile, normalizeSourceUrl } from './sourceUtils';
+import { RetrievedChunk, SourceItem } from '../types';
+
+const source = (id: string, fields: Partial<SourceItem>): SourceItem => ({
+  id, type: 'website', title: id, metadata: '', isSelected: true, ...fields,
+});
+
+describe('normalizeSourceUrl', () => {
+  it('ignores scheme, www, fragments, trailing slashes and tracking params', () => {
+    const canonical = normalizeSourceUrl('https://example.com/article');
+    expect(normalizeSourceUrl('http://www.example.com/article/')).toBe(canonical);
+    expect(normalizeSourceUrl('example.com/article#intro')).toBe(canonical);
+    expect(normalizeSourceUrl('https://example.com/article?utm_source=feed')).toBe(canonical);
+    expect(normalizeSourceUrl('https://example.com/article?page=2')).not.toBe(canonical);
+  });
+
+  it('collapses YouTube links to the video id', () => {
+    expect(normalizeSourceUrl('https://youtu.be/abc123')).toBe('youtube:abc123');
+    expect(normalizeSourceUrl('https://m.youtube.com/watch?v=abc123&t=42')).toBe('youtube:abc123');
+  });
+});
+
+describe('findDuplicateSource', () => {
+  const library = [
+    source('a', { url: 'https://example.com/heat' }),
+    source('b', { contentHash: 'feed' }),
+  ];
+
+  it('matches by normalized URL or file hash', () => {
+    expect(findDuplicateSource(library, source('c', { url: 'www.example.com/heat/' }))?.id).toBe('a');
+    expect(findDuplicateSource(library, source('d', { contentHash: 'feed' }))?.id).toBe('b');
+    expect(findDuplicateSource(library, source('e', { url: 'https://example.com/cold' }))).toBeUndefined();
+  });
+
+  it('hashes identical bytes identically', async () => {
+    const first = await hashFile(new File(['entropy'], 'a.txt'));
+    expect(await hashFile(new File(['entropy'], 'renamed.txt'))).toBe(first);
+    expect(await hashFile(new File(['enthalpy'], 'a.txt'))).not.toBe(first);
+  });
+});
+
+describe('getCitationUrl', () => {
+  const citation = (fields: Partial<RetrievedChunk>): RetrievedChunk => ({
+    id: 'x#0', sourceId: 'x', sourceTitle: 'x', chunkIndex: 0, text: '', score: 0, ...fields,
+  });
+
+  it('jumps to the page of a PDF', () => {
+    const pdf = source('p', { type: 'pdf' });
+    expect(getCitationUrl(pdf, citation({ pageStart: 12 }), 'blob:http://localhost/abc')).toBe('blob:http://localhost/abc#page=12');
+    expect(getCitationUrl(pdf, citation({ pageStart: 12 }))).toBeNull();
+  });
+
+  it('starts a video at the cited time', () => {
+    const video = source('v', { type: 'youtube', url: 'https://youtu.be/abc123' });
+    expect(getCitationUrl(video, citation({ startTime: 75.4 }))).toBe('https://www.youtube.com/watch?v=abc123&t=75s');
+  });
+
+  it('highlights the passage on a web page', () => {
+    const page = source('w', { url: 'https://example.com/heat#top' });
+    const url = getCitationUrl(page, citation({ text: '## Heat\nHeat flows from hot to cold, never the other way round - usually.' }));
+    expect(url).toBe('https://example.com/heat#:~:text=Heat%20flows%20from%20hot%20to%20cold%2C%20never%20the');
+  });
+});
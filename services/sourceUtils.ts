@@ -0,0 +1,89 @@
+import { RetrievedChunk, SourceItem } from "../types";
+
+/**
+ * Reduces a URL to the form two links to the same resource share: no scheme,
+ * `www.`, fragment, trailing slash or utm_* tracking params, and YouTube links
+ * collapsed to their video id.
+ */
+export const normalizeSourceUrl = (raw: string): string => {
+  const trimmed = raw.trim();
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const host = url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+
+    if (host === 'youtu.be') return `youtube:${url.pathname.slice(1)}`;
+    if (host === 'youtube.com' && url.searchParams.get('v')) return `youtube:${url.searchParams.get('v')}`;
+
+    [...url.searchParams.keys()].filter(key => key.startsWith('utm_')).forEach(key => url.searchParams.delete(key));
+    const path = url.pathname.replace(/\/+$/, '');
+    return `${host}${path}${url.search}`;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+};
+
+/**
+ * Hex SHA-256 of a file's bytes, used to spot re-uploads of the same file.
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(await file.arrayBuffer()));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** A file's bytes as a base64 `data:` URL. */
+export const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * The source in `sources` that `item` duplicates, matched by file hash or by
+ * normalized URL.
+ */
+export const findDuplicateSource = (sources: SourceItem[], item: SourceItem): SourceItem | undefined => {
+  if (item.contentHash) {
+    const sameFile = sources.find(s => s.contentHash === item.contentHash);
+    if (sameFile) return sameFile;
+  }
+  if (item.url) {
+    const key = normalizeSourceUrl(item.url);
+    return sources.find(s => s.url && normalizeSourceUrl(s.url) === key);
+  }
+  return undefined;
+};
+
+// First few words of a chunk's first non-heading line, for a `#:~:text=` fragment.
+const textFragment = (text: string) => {
+  const lines = text.split('\n').filter(l => l.trim());
+  const body = lines.find(l => !l.startsWith('#')) || lines[0] || '';
+  const line = body.replace(/^(#+|-|\[[\d:]+\])\s*/, '').trim();
+  const words = line.split(/\s+/).slice(0, 8).join(' ');
+  return encodeURIComponent(words).replace(/-/g, '%2D');
+};
+
+/**
+ * Where to open `source` so a cited chunk is in view: the PDF page, the video
+ * timestamp, or a text fragment on a web page. `fileUrl` stands in for an
+ * uploaded file (e.g. an object URL). Null when there is nothing to open.
+ */
+export const getCitationUrl = (source: SourceItem, citation: RetrievedChunk, fileUrl?: string): string | null => {
+  const base = fileUrl || source.url;
+  if (!base) return null;
+
+  const key = normalizeSourceUrl(base);
+  if (key.startsWith('youtube:')) {
+    const time = citation.startTime !== undefined ? `&t=${Math.floor(citation.startTime)}s` : '';
+    return `https://www.youtube.com/watch?v=${encodeURIComponent(key.slice('youtube:'.length))}${time}`;
+  }
+
+  const withoutHash = base.split('#')[0];
+  if (citation.pageStart !== undefined) return `${withoutHash}#page=${citation.pageStart}`;
+  if (source.type === 'website') {
+    const fragment = textFragment(citation.text);
+    return fragment ? `${withoutHash}#:~:text=${fragment}` : withoutHash;
+  }
+  return base;
+};
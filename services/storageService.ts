@@ -0,0 +1,177 @@
+import { AttachmentBlob, ChatAttachment, ChatMessage, ChatSession, MistakeItem, Project, QuizResult, SourceItem } from "../types";
+import { stripDataUrl } from "./providers/types";
+
+const DB_NAME = 'clarifyai';
+
+export const STORE_NAMES = {
+  sessions: 'sessions',
+  sources: 'sources',
+  mistakes: 'mistakes',
+  quizResults: 'quizResults',
+  projects: 'projects',
+  attachments: 'attachments',
+} as const;
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Synchronous, since upgrade transactions end at the first await.
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const { mimeType, data } = stripDataUrl(dataUrl);
+  return new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type: mimeType });
+};
+
+/**
+ * Schema migrations, applied in order. The database version is the number of
+ * migrations, so a new schema change is always a new entry appended here —
+ * never an edit to an existing one, or users already on that version skip it.
+ */
+const MIGRATIONS: Migration[] = [
+  // v1: initial schema
+  (db) => {
+    db.createObjectStore(STORE_NAMES.sessions, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    db.createObjectStore(STORE_NAMES.sources, { keyPath: 'id' });
+    db.createObjectStore(STORE_NAMES.mistakes, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+    db.createObjectStore(STORE_NAMES.quizResults, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  },
+  // v2: projects, plus a projectId index on everything a project groups
+  (db, tx) => {
+    db.createObjectStore(STORE_NAMES.projects, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    [STORE_NAMES.sessions, STORE_NAMES.sources, STORE_NAMES.mistakes, STORE_NAMES.quizResults].forEach(name => {
+      tx.objectStore(name).createIndex('projectId', 'projectId');
+    });
+  },
+  // v3: attachment bytes move out of sessions, which used to hold them as data: URLs
+  (db, tx) => {
+    db.createObjectStore(STORE_NAMES.attachments, { keyPath: 'id' });
+    const blobs = tx.objectStore(STORE_NAMES.attachments);
+    const moveBytes = (attachment: ChatAttachment & { data?: string }): ChatAttachment => {
+      const { data, ...rest } = attachment;
+      if (!data) return attachment;
+      blobs.put({ id: attachment.id, blob: dataUrlToBlob(data) });
+      return { ...rest, blobId: attachment.id };
+    };
+    tx.objectStore(STORE_NAMES.sessions).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const session: ChatSession = cursor.value;
+      if (session.messages.some(message => message.attachments)) {
+        const messages = session.messages.map((message): ChatMessage =>
+          message.attachments ? { ...message, attachments: message.attachments.map(moveBytes) } : message
+        );
+        cursor.update({ ...session, messages });
+      }
+      cursor.continue();
+    };
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+
+/**
+ * Opens (and upgrades, if needed) the shared database connection.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("IndexedDB is not available in this environment"));
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our connection so it isn't blocked.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+export interface Repository<T extends { id: string }> {
+  getAll: () => Promise<T[]>;
+  get: (id: string) => Promise<T | undefined>;
+  put: (item: T) => Promise<void>;
+  putMany: (items: T[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  removeMany: (ids: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Creates a typed repository over a single object store.
+ */
+export const createRepository = <T extends { id: string }>(storeName: string): Repository<T> => {
+  const withStore = async <R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R> | void
+  ): Promise<R | undefined> => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    const [result] = await Promise.all([
+      request ? requestToPromise(request) : Promise.resolve(undefined),
+      transactionDone(tx),
+    ]);
+    return result;
+  };
+
+  return {
+    getAll: async () => (await withStore<T[]>('readonly', store => store.getAll())) || [],
+    get: (id) => withStore<T>('readonly', store => store.get(id)),
+    put: async (item) => {
+      await withStore('readwrite', store => { store.put(item); });
+    },
+    putMany: async (items) => {
+      if (items.length === 0) return;
+      await withStore('readwrite', store => { items.forEach(item => store.put(item)); });
+    },
+    remove: async (id) => {
+      await withStore('readwrite', store => { store.delete(id); });
+    },
+    removeMany: async (ids) => {
+      if (ids.length === 0) return;
+      await withStore('readwrite', store => { ids.forEach(id => store.delete(id)); });
+    },
+    clear: async () => {
+      await withStore('readwrite', store => { store.clear(); });
+    },
+  };
+};
+
+export const sessionRepository = createRepository<ChatSession>(STORE_NAMES.sessions);
+export const sourceRepository = createRepository<SourceItem>(STORE_NAMES.sources);
+export const mistakeRepository = createRepository<MistakeItem>(STORE_NAMES.mistakes);
+export const quizResultRepository = createRepository<QuizResult>(STORE_NAMES.quizResults);
+export const projectRepository = createRepository<Project>(STORE_NAMES.projects);
+export const attachmentBlobRepository = createRepository<AttachmentBlob>(STORE_NAMES.attachments);
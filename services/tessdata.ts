@@ -0,0 +1,5 @@
+/** Served by the plugin in server/tessdataPlugin.ts, in dev and in the build. */
+export const TESSDATA_PATH = '/tessdata';
+
+/** Tesseract languages shipped with the app, so OCR works offline from the first run. */
+export const BUNDLED_OCR_LANGUAGES = ['eng', 'amh'];
@@ -0,0 +1,41 @@
+import type { ExtractedSource } from "../server/urlExtractor";
+
+export type { ExtractedSource };
+
+/** Served by the dev-server plugin in server/urlExtractorPlugin.ts. */
+export const EXTRACT_ENDPOINT = '/__extract';
+
+/**
+ * Fetches the readable text (article body or video transcript) behind a link
+ * through the local extraction proxy.
+ */
+export const extractUrlContent = async (url: string): Promise<ExtractedSource> => {
+  try {
+    const response = await fetch(`${EXTRACT_ENDPOINT}?url=${encodeURIComponent(url)}`);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || `Extraction failed: ${response.status}`);
+    return body as ExtractedSource;
+  } catch (error) {
+    console.error("URL extraction error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Downloads a linked file through the same proxy, typed as `type` so it can be
+ * read like an uploaded one.
+ */
+export const fetchRemoteFile = async (url: string, type: string): Promise<File> => {
+  try {
+    const response = await fetch(`${EXTRACT_ENDPOINT}?raw=1&url=${encodeURIComponent(url)}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || `Download failed: ${response.status}`);
+    }
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'download';
+    return new File([await response.arrayBuffer()], name, { type });
+  } catch (error) {
+    console.error("File download error:", error);
+    throw error;
+  }
+};
@@ -12,7 +12,65 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
-  attachments?: { name: string; type: string }[];
+  attachments?: ChatAttachment[];
+  outputs?: MessageOutputs; // Snapshot of the learning outputs this turn produced (model messages)
+}
+
+/** A file sent along with a chat message. */
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  type: string; // MIME type
+  kind: 'pdf' | 'text' | 'image' | 'audio';
+  size: number; // Bytes
+  text?: string; // Extracted text (PDF and text files)
+  chunks?: SourceChunk[]; // Page-tagged chunks of a PDF
+  blobId?: string; // Key of the bytes in the attachments store (images and audio), sent to the model as is
+}
+
+/** The bytes of an image or audio attachment, stored apart from its session. */
+export interface AttachmentBlob {
+  id: string;
+  blob: Blob;
+}
+
+export interface VerificationReport {
+  explanation: string;
+  sources: GroundingSource[];
+}
+
+export interface MessageOutputs {
+  explanation?: string;
+  visual?: string | null; // Image data URL
+  simulation?: string | null; // HTML document
+  verification?: VerificationReport | null;
+  citations?: RetrievedChunk[]; // Source chunks the prompt was built from, in prompt order
+  explanationOptions?: ExplanationOptions; // How the explanation was written
+}
+
+export type ExplanationLevel = 'middle-school' | 'undergrad' | 'expert';
+export type ExplanationStyle = 'standard' | 'analogy' | 'step-by-step' | 'socratic' | 'eli5';
+export type ExplanationLength = 'brief' | 'standard' | 'detailed';
+
+/** Audience, style and length an explanation is written for. */
+export interface ExplanationOptions {
+  level: ExplanationLevel;
+  style: ExplanationStyle;
+  length: ExplanationLength;
+}
+
+/** A source chunk picked for a prompt, kept so the answer can cite it. */
+export interface RetrievedChunk {
+  id: string; // `${sourceId}#${chunkIndex}`
+  sourceId: string;
+  sourceTitle: string;
+  chunkIndex: number;
+  text: string;
+  heading?: string;
+  pageStart?: number;
+  pageEnd?: number;
+  startTime?: number;
+  score: number;
 }
 
 export interface ChatSession {
@@ -20,6 +78,17 @@ export interface ChatSession {
   title: string;
   messages: ChatMessage[];
   createdAt: number;
+  projectId?: string;
+  selectedSourceIds?: string[]; // Sources used as context in this session; unset on sessions from before per-session selection
+  explanationOptions?: ExplanationOptions; // Used for new explanations in this session; defaults when unset
+}
+
+export interface Project {
+  id: string;
+  name: string; // e.g. "Thermo 201"
+  description?: string;
+  createdAt: number;
+  isArchived: boolean;
 }
 
 export interface GroundingSource {
@@ -31,6 +100,16 @@ export interface GroundingMetadata {
   webSources: GroundingSource[];
 }
 
+/** A slice of a long source that fits in a prompt on its own. */
+export interface SourceChunk {
+  index: number;
+  text: string;
+  heading?: string; // Nearest heading at or before the chunk start
+  pageStart?: number;
+  pageEnd?: number;
+  startTime?: number; // Seconds into a video transcript
+}
+
 export interface SourceItem {
   id: string;
   type: 'youtube' | 'pdf' | 'website' | 'image';
@@ -39,7 +118,11 @@ export interface SourceItem {
   metadata: string; // e.g. "youtube.com • 15 mins"
   isSelected: boolean;
   file?: File; // Store actual file if it's a local upload
+  contentHash?: string; // SHA-256 of an uploaded file, for deduplication
   content?: string; // Extracted text content for AI context
+  chunks?: SourceChunk[]; // `content` split into model-sized pieces, for long documents
+  order?: number; // Position in the source list
+  projectId?: string;
 }
 
 export interface MistakeItem {
@@ -52,8 +135,23 @@ export interface MistakeItem {
   note: string;
   topic: string;
   timestamp: number;
+  projectId?: string;
+  question?: QuizItem; // The original question, so review can ask it again; absent on older mistakes
+  review?: ReviewSchedule; // Absent until first reviewed; a card without one is due now
 }
 
+/** SM-2 scheduling state of a review card. */
+export interface ReviewSchedule {
+  easeFactor: number; // Interval multiplier, 2.5 for a new card and never below 1.3
+  intervalDays: number; // Days until the next review; 0 while relearning
+  repetitions: number; // Successful reviews in a row
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+/** How well a card was recalled, from forgotten to effortless. */
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
 export interface QuizResult {
   id: string;
   topic: string;
@@ -61,6 +159,17 @@ export interface QuizResult {
   score: number;
   totalQuestions: number;
   timestamp: number;
+  projectId?: string;
+  outcomes?: QuestionOutcome[]; // One per answered question; absent on results saved before outcomes were tracked
+  isRetry?: boolean; // A rerun of an earlier quiz's wrong questions, kept out of metrics
+}
+
+export interface QuestionOutcome {
+  questionId: string;
+  type: QuestionType;
+  isCorrect: boolean;
+  credit?: number; // 0-1 partial credit for graded short answers; absent means isCorrect counts fully
+  timeTakenMs: number; // From the question being shown to the answer being checked
 }
 
 // --- QUIZ TYPES ---
@@ -80,6 +189,22 @@ export interface MultipleChoiceQuestion extends QuestionBase {
 export interface FillBlankQuestion extends QuestionBase {
   sentence: string; // Contains "___" for the blank
   correctAnswer: string;
+  acceptedAnswers?: string[]; // Other forms that also count, e.g. synonyms or "1/2" for "0.5"
+  tolerance?: number; // Relative error allowed for numeric answers; 1% when absent
+}
+
+export type GradeReasonCode = 'noAnswer' | 'exact' | 'accepted' | 'numeric' | 'typo' | 'noMatch';
+
+/**
+ * Grading feedback shown to the learner: a code translated on display, or the
+ * model's own words (already in the content language).
+ */
+export type GradeReason = string | { code: GradeReasonCode; params?: Record<string, string | number> };
+
+export interface BlankGrade {
+  isCorrect: boolean;
+  method: 'exact' | 'accepted' | 'numeric' | 'typo' | 'model' | 'none';
+  reason: GradeReason;
 }
 
 export interface MatchPair {
@@ -95,6 +220,55 @@ export interface ShortAnswerQuestion extends QuestionBase {
   sampleAnswer: string; // Key points or ideal answer
 }
 
+export type RubricPointStatus = 'covered' | 'partial' | 'missing' | 'incorrect';
+
+/** One key point of a sample answer, as judged in the learner's answer. */
+export interface RubricPoint {
+  point: string;
+  status: RubricPointStatus;
+  comment?: string;
+}
+
+export interface ShortAnswerGrade {
+  score: number; // 0-1, from the rubric
+  isCorrect: boolean; // score reaches the pass mark
+  rubric: RubricPoint[];
+  feedback: GradeReason;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | FillBlankQuestion | MatchQuestion | ShortAnswerQuestion;
+
+/** One question in a quiz run, tagged with its type. */
+export type QuizItem =
+  | { type: 'choose'; question: MultipleChoiceQuestion }
+  | { type: 'fill-blank'; question: FillBlankQuestion }
+  | { type: 'match'; question: MatchQuestion }
+  | { type: 'answer'; question: ShortAnswerQuestion };
+
+/** What the learner entered for a question. */
+export interface QuizAnswerInput {
+  selectedOption: string;
+  textInput: string;
+  matchSelections: Record<string, string>;
+}
+
+/** A checked question, kept so it can be revisited during the run and reviewed after it. */
+export interface QuizResponse extends QuizAnswerInput {
+  outcome: QuestionOutcome;
+  grade?: ShortAnswerGrade;
+  blankGrade?: BlankGrade;
+}
+
+/** Relative weight of each question type in a generated quiz; 0 leaves it out. */
+export type QuestionMix = Record<QuestionType, number>;
+
+export interface QuizConfig {
+  topics: string[];
+  difficulty: string; // 'Easy' | 'Medium' | 'Hard'
+  count: number;
+  mix: QuestionMix;
+}
+
 export interface QuizData {
   topic: string;
   choose: MultipleChoiceQuestion[];
@@ -1,6 +1,13 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { fixtureRecorderPlugin } from './server/fixtureRecorderPlugin';
+import { RECORD_ENDPOINT } from './services/providers/fixtureProvider';
+import { urlExtractorPlugin } from './server/urlExtractorPlugin';
+import { EXTRACT_ENDPOINT } from './services/urlExtractionService';
+import { tessdataPlugin } from './server/tessdataPlugin';
+import { BUNDLED_OCR_LANGUAGES, TESSDATA_PATH } from './services/tessdata';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -8,16 +15,39 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Recording rewrites the fixtures file; don't reload the page for it.
+        watch: { ignored: ['**/fixtures/**'] },
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // Only while recording: the endpoint rewrites a tracked file.
+        env.AI_FIXTURE_MODE === 'record' && fixtureRecorderPlugin(path.resolve(__dirname, 'fixtures/ai-fixtures.json'), RECORD_ENDPOINT),
+        urlExtractorPlugin(EXTRACT_ENDPOINT),
+        tessdataPlugin(TESSDATA_PATH, BUNDLED_OCR_LANGUAGES),
+      ],
+      // The PDF worker bundles pdf.js, which code-splits; iife workers can't.
+      worker: { format: 'es' },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_FIXTURE_MODE': JSON.stringify(env.AI_FIXTURE_MODE),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_REASONING_MODEL': JSON.stringify(env.OPENAI_REASONING_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL),
+        'process.env.OPENAI_TTS_MODEL': JSON.stringify(env.OPENAI_TTS_MODEL),
+        'process.env.OPENAI_EMBEDDING_MODEL': JSON.stringify(env.OPENAI_EMBEDDING_MODEL)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./vitest.setup.ts'],
       }
     };
 });
@@ -0,0 +1,15 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach, beforeEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { setAIProvider } from './services/aiProvider';
+import { createFixtureProvider } from './services/providers/fixtureProvider';
+
+// Every test runs against the offline fixtures; nothing reaches a real model.
+beforeEach(() => {
+  setAIProvider(createFixtureProvider({ mode: 'replay' }));
+});
+
+afterEach(() => {
+  cleanup();
+  setAIProvider(null);
+});